@@ -0,0 +1,50 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('account_memberships', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      account_id: {
+        type: Sequelize.STRING,
+        allowNull: false
+      },
+      access_level: {
+        type: Sequelize.ENUM('read', 'write'),
+        allowNull: false,
+        defaultValue: 'read'
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    // Add indexes
+    await queryInterface.addIndex('account_memberships', ['user_id', 'account_id'], { unique: true });
+    await queryInterface.addIndex('account_memberships', ['account_id']);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('account_memberships');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_account_memberships_access_level";');
+  }
+};
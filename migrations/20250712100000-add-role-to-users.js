@@ -0,0 +1,17 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'role', {
+      type: Sequelize.ENUM('viewer', 'editor', 'admin'),
+      allowNull: false,
+      defaultValue: 'viewer'
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('users', 'role');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_users_role";');
+  }
+};
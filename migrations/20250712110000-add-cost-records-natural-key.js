@@ -0,0 +1,72 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.sequelize.transaction(async (transaction) => {
+      // Remove duplicates created by re-imports, keeping the most recently inserted row
+      await queryInterface.sequelize.query(`
+        DELETE FROM cost_records older
+        USING cost_records newer
+        WHERE older.id < newer.id
+          AND older.date = newer.date
+          AND older.account_id = newer.account_id
+          AND older.service_name = newer.service_name
+          AND older.region = newer.region
+          AND COALESCE(older.resource_id, '') = COALESCE(newer.resource_id, '')
+          AND COALESCE(older.usage_type, '') = COALESCE(newer.usage_type, '');
+      `, { transaction });
+
+      // NULLs are distinct in unique indexes, so optional key columns use '' instead
+      await queryInterface.sequelize.query(
+        "UPDATE cost_records SET resource_id = '' WHERE resource_id IS NULL;",
+        { transaction },
+      );
+      await queryInterface.sequelize.query(
+        "UPDATE cost_records SET usage_type = '' WHERE usage_type IS NULL;",
+        { transaction },
+      );
+
+      await queryInterface.changeColumn('cost_records', 'resource_id', {
+        type: Sequelize.STRING,
+        allowNull: false,
+        defaultValue: ''
+      }, { transaction });
+      await queryInterface.changeColumn('cost_records', 'usage_type', {
+        type: Sequelize.STRING,
+        allowNull: false,
+        defaultValue: ''
+      }, { transaction });
+
+      await queryInterface.addIndex(
+        'cost_records',
+        ['date', 'account_id', 'service_name', 'region', 'resource_id', 'usage_type'],
+        { unique: true, name: 'cost_records_natural_key', transaction },
+      );
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.sequelize.transaction(async (transaction) => {
+      await queryInterface.removeIndex('cost_records', 'cost_records_natural_key', { transaction });
+
+      await queryInterface.changeColumn('cost_records', 'resource_id', {
+        type: Sequelize.STRING,
+        allowNull: true
+      }, { transaction });
+      await queryInterface.changeColumn('cost_records', 'usage_type', {
+        type: Sequelize.STRING,
+        allowNull: true
+      }, { transaction });
+
+      await queryInterface.sequelize.query(
+        "UPDATE cost_records SET resource_id = NULL WHERE resource_id = '';",
+        { transaction },
+      );
+      await queryInterface.sequelize.query(
+        "UPDATE cost_records SET usage_type = NULL WHERE usage_type = '';",
+        { transaction },
+      );
+    });
+  }
+};
@@ -0,0 +1,70 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('budgets', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      name: {
+        type: Sequelize.STRING,
+        allowNull: false
+      },
+      amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false
+      },
+      period: {
+        type: Sequelize.ENUM('monthly', 'quarterly', 'yearly'),
+        allowNull: false,
+        defaultValue: 'monthly'
+      },
+      account_id: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      service_name: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      region: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      alert_thresholds: {
+        type: Sequelize.ARRAY(Sequelize.INTEGER),
+        allowNull: false,
+        defaultValue: [50, 80, 100]
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    // Add indexes
+    await queryInterface.addIndex('budgets', ['user_id']);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('budgets');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_budgets_period";');
+  }
+};
@@ -0,0 +1,153 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const userReference = {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onDelete: 'CASCADE'
+    };
+    const timestamps = {
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    };
+
+    await queryInterface.createTable('alert_rules', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      user_id: userReference,
+      name: {
+        type: Sequelize.STRING,
+        allowNull: false
+      },
+      daily_threshold: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false
+      },
+      account_id: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      service_name: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      region: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      enabled: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true
+      },
+      ...timestamps
+    });
+
+    await queryInterface.createTable('alerts', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      user_id: userReference,
+      source_type: {
+        type: Sequelize.ENUM('budget', 'daily_spend'),
+        allowNull: false
+      },
+      source_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false
+      },
+      threshold: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false
+      },
+      period_key: {
+        type: Sequelize.STRING(10),
+        allowNull: false
+      },
+      dimension: {
+        type: Sequelize.STRING,
+        allowNull: false,
+        defaultValue: ''
+      },
+      actual_value: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false
+      },
+      message: {
+        type: Sequelize.TEXT,
+        allowNull: false
+      },
+      deliveries: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+        defaultValue: []
+      },
+      ...timestamps
+    });
+
+    await queryInterface.createTable('notification_channels', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      user_id: userReference,
+      name: {
+        type: Sequelize.STRING,
+        allowNull: false
+      },
+      type: {
+        type: Sequelize.STRING(50),
+        allowNull: false
+      },
+      config: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+        defaultValue: {}
+      },
+      enabled: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true
+      },
+      ...timestamps
+    });
+
+    // Add indexes
+    await queryInterface.addIndex('alert_rules', ['user_id']);
+    await queryInterface.addIndex(
+      'alerts',
+      ['source_type', 'source_id', 'threshold', 'period_key', 'dimension'],
+      { unique: true, name: 'alerts_dedupe_key' }
+    );
+    await queryInterface.addIndex('alerts', ['user_id']);
+    await queryInterface.addIndex('notification_channels', ['user_id']);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('notification_channels');
+    await queryInterface.dropTable('alerts');
+    await queryInterface.dropTable('alert_rules');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_alerts_source_type";');
+  }
+};
@@ -0,0 +1,23 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('cost_records', 'tags', {
+      type: Sequelize.JSONB,
+      allowNull: false,
+      defaultValue: {}
+    });
+
+    // GIN index serves tag filters (tags @> '{"team": "payments"}')
+    await queryInterface.addIndex('cost_records', ['tags'], {
+      name: 'cost_records_tags',
+      using: 'gin'
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex('cost_records', 'cost_records_tags');
+    await queryInterface.removeColumn('cost_records', 'tags');
+  }
+};
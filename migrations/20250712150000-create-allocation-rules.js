@@ -0,0 +1,77 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('allocation_rules', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      name: {
+        type: Sequelize.STRING,
+        allowNull: false
+      },
+      priority: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 100
+      },
+      service_name: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      account_id: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      usage_type: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      tag_key: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      tag_value: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      method: {
+        type: Sequelize.ENUM('fixed', 'proportional'),
+        allowNull: false
+      },
+      splits: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+        defaultValue: []
+      },
+      basis_service_name: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      enabled: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    await queryInterface.addIndex('allocation_rules', ['priority']);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('allocation_rules');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_allocation_rules_method";');
+  }
+};
@@ -0,0 +1,56 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('cost_records', 'currency', {
+      type: Sequelize.STRING(3),
+      allowNull: false,
+      defaultValue: 'USD'
+    });
+
+    await queryInterface.createTable('exchange_rates', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      date: {
+        type: Sequelize.DATEONLY,
+        allowNull: false
+      },
+      from_currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false
+      },
+      to_currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false
+      },
+      rate: {
+        type: Sequelize.DECIMAL(18, 8),
+        allowNull: false
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    // Serves the "latest rate on or before a date" lookup
+    await queryInterface.addIndex('exchange_rates', ['from_currency', 'to_currency', 'date'], {
+      name: 'exchange_rates_pair_date',
+      unique: true
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('exchange_rates');
+    await queryInterface.removeColumn('cost_records', 'currency');
+  }
+};
@@ -0,0 +1,41 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.sequelize.transaction(async (transaction) => {
+      // Existing records all came from AWS
+      await queryInterface.addColumn('cost_records', 'provider', {
+        type: Sequelize.ENUM('aws', 'azure', 'gcp'),
+        allowNull: false,
+        defaultValue: 'aws'
+      }, { transaction });
+
+      await queryInterface.addIndex('cost_records', ['provider'], { transaction });
+
+      // Account, subscription and project ids are only unique within a provider
+      await queryInterface.removeIndex('cost_records', 'cost_records_natural_key', { transaction });
+      await queryInterface.addIndex(
+        'cost_records',
+        ['provider', 'date', 'account_id', 'service_name', 'region', 'resource_id', 'usage_type'],
+        { unique: true, name: 'cost_records_natural_key', transaction },
+      );
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.transaction(async (transaction) => {
+      await queryInterface.sequelize.query("DELETE FROM cost_records WHERE provider <> 'aws';", { transaction });
+
+      await queryInterface.removeIndex('cost_records', 'cost_records_natural_key', { transaction });
+      await queryInterface.addIndex(
+        'cost_records',
+        ['date', 'account_id', 'service_name', 'region', 'resource_id', 'usage_type'],
+        { unique: true, name: 'cost_records_natural_key', transaction },
+      );
+
+      await queryInterface.removeColumn('cost_records', 'provider', { transaction });
+      await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_cost_records_provider";', { transaction });
+    });
+  }
+};
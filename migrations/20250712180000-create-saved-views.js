@@ -0,0 +1,83 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('saved_views', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      name: {
+        type: Sequelize.STRING,
+        allowNull: false
+      },
+      description: {
+        type: Sequelize.TEXT,
+        allowNull: true
+      },
+      filters: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+        defaultValue: {}
+      },
+      date_range: {
+        type: Sequelize.ENUM(
+          'today',
+          'yesterday',
+          'last_7_days',
+          'last_30_days',
+          'last_90_days',
+          'month_to_date',
+          'previous_month',
+          'quarter_to_date',
+          'previous_quarter',
+          'year_to_date'
+        ),
+        allowNull: true
+      },
+      start_date: {
+        type: Sequelize.DATEONLY,
+        allowNull: true
+      },
+      end_date: {
+        type: Sequelize.DATEONLY,
+        allowNull: true
+      },
+      shared_with: {
+        type: Sequelize.ARRAY(Sequelize.INTEGER),
+        allowNull: false,
+        defaultValue: []
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    // Add indexes
+    await queryInterface.addIndex('saved_views', ['user_id']);
+    // Serves the "views shared with me" lookup (shared_with @> ARRAY[:userId])
+    await queryInterface.addIndex('saved_views', ['shared_with'], { using: 'gin', name: 'saved_views_shared_with' });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('saved_views');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_saved_views_date_range";');
+  }
+};
@@ -0,0 +1,154 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('report_schedules', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      name: {
+        type: Sequelize.STRING,
+        allowNull: false
+      },
+      cron_expression: {
+        type: Sequelize.STRING(100),
+        allowNull: false
+      },
+      saved_view_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'saved_views',
+          key: 'id'
+        },
+        onDelete: 'SET NULL'
+      },
+      date_range: {
+        type: Sequelize.ENUM(
+          'today',
+          'yesterday',
+          'last_7_days',
+          'last_30_days',
+          'last_90_days',
+          'month_to_date',
+          'previous_month',
+          'quarter_to_date',
+          'previous_quarter',
+          'year_to_date'
+        ),
+        allowNull: false,
+        defaultValue: 'last_7_days'
+      },
+      format: {
+        type: Sequelize.ENUM('html', 'csv'),
+        allowNull: false,
+        defaultValue: 'html'
+      },
+      channel_ids: {
+        type: Sequelize.ARRAY(Sequelize.INTEGER),
+        allowNull: false,
+        defaultValue: []
+      },
+      enabled: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true
+      },
+      last_run_at: {
+        type: Sequelize.DATE,
+        allowNull: true
+      },
+      next_run_at: {
+        type: Sequelize.DATE,
+        allowNull: true
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    await queryInterface.createTable('report_deliveries', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      schedule_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'report_schedules',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      status: {
+        type: Sequelize.ENUM('sent', 'partial', 'failed'),
+        allowNull: false
+      },
+      trigger: {
+        type: Sequelize.ENUM('schedule', 'manual'),
+        allowNull: false
+      },
+      start_date: {
+        type: Sequelize.DATEONLY,
+        allowNull: true
+      },
+      end_date: {
+        type: Sequelize.DATEONLY,
+        allowNull: true
+      },
+      channels: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+        defaultValue: []
+      },
+      error: {
+        type: Sequelize.TEXT,
+        allowNull: true
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    // Add indexes
+    await queryInterface.addIndex('report_schedules', ['user_id']);
+    // Serves the scheduler's due reports lookup
+    await queryInterface.addIndex('report_schedules', ['enabled', 'next_run_at']);
+    await queryInterface.addIndex('report_deliveries', ['schedule_id', 'created_at']);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('report_deliveries');
+    await queryInterface.dropTable('report_schedules');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_report_deliveries_status";');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_report_deliveries_trigger";');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_report_schedules_date_range";');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_report_schedules_format";');
+  }
+};
@@ -0,0 +1,79 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('sessions', {
+      id: {
+        allowNull: false,
+        primaryKey: true,
+        type: Sequelize.UUID
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      ip_address: {
+        type: Sequelize.STRING(45),
+        allowNull: true
+      },
+      user_agent: {
+        type: Sequelize.STRING(512),
+        allowNull: true
+      },
+      last_used_at: {
+        type: Sequelize.DATE,
+        allowNull: false
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false
+      },
+      revoked_at: {
+        type: Sequelize.DATE,
+        allowNull: true
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    await queryInterface.addIndex('sessions', ['user_id']);
+
+    // Sessions of existing refresh tokens; a session is revoked once none of its tokens is active
+    await queryInterface.sequelize.query(`
+      INSERT INTO sessions (id, user_id, last_used_at, expires_at, revoked_at, created_at, updated_at)
+      SELECT session_id, MIN(user_id), MAX(created_at), MAX(expires_at),
+        CASE WHEN BOOL_AND(revoked_at IS NOT NULL) THEN MAX(revoked_at) END,
+        MIN(created_at), NOW()
+      FROM refresh_tokens
+      GROUP BY session_id
+    `);
+
+    await queryInterface.addConstraint('refresh_tokens', {
+      fields: ['session_id'],
+      type: 'foreign key',
+      name: 'refresh_tokens_session_id_fkey',
+      references: {
+        table: 'sessions',
+        field: 'id'
+      },
+      onDelete: 'CASCADE'
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeConstraint('refresh_tokens', 'refresh_tokens_session_id_fkey');
+    await queryInterface.dropTable('sessions');
+  }
+};
@@ -0,0 +1,70 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'email_verified_at', {
+      type: Sequelize.DATE,
+      allowNull: true
+    });
+    // Existing users keep their access; only new registrations have to verify
+    await queryInterface.sequelize.query('UPDATE users SET email_verified_at = created_at;');
+
+    await queryInterface.createTable('user_tokens', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      purpose: {
+        type: Sequelize.ENUM('email_verification', 'password_reset'),
+        allowNull: false
+      },
+      token_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false
+      },
+      used_at: {
+        type: Sequelize.DATE,
+        allowNull: true
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    // Add indexes
+    await queryInterface.addIndex('user_tokens', ['token_hash'], { unique: true });
+    await queryInterface.addIndex('user_tokens', ['user_id', 'purpose']);
+
+    await queryInterface.sequelize.query(
+      'ALTER TYPE "enum_refresh_tokens_revoked_reason" ADD VALUE IF NOT EXISTS \'password_reset\';'
+    );
+  },
+
+  async down(queryInterface) {
+    // Postgres cannot drop an enum value; 'password_reset' stays on enum_refresh_tokens_revoked_reason
+    await queryInterface.dropTable('user_tokens');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_user_tokens_purpose";');
+    await queryInterface.removeColumn('users', 'email_verified_at');
+  }
+};
@@ -0,0 +1,77 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'mfa_secret', {
+      type: Sequelize.STRING(64),
+      allowNull: true
+    });
+    await queryInterface.addColumn('users', 'mfa_enabled_at', {
+      type: Sequelize.DATE,
+      allowNull: true
+    });
+    await queryInterface.addColumn('users', 'mfa_last_used_step', {
+      type: Sequelize.INTEGER,
+      allowNull: true
+    });
+
+    await queryInterface.createTable('mfa_recovery_codes', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      code_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false
+      },
+      used_at: {
+        type: Sequelize.DATE,
+        allowNull: true
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    // Add indexes
+    await queryInterface.addIndex('mfa_recovery_codes', ['user_id', 'code_hash'], { unique: true });
+
+    await queryInterface.sequelize.query(
+      'ALTER TYPE "enum_audit_logs_action" ADD VALUE IF NOT EXISTS \'mfa_enabled\';'
+    );
+    await queryInterface.sequelize.query(
+      'ALTER TYPE "enum_audit_logs_action" ADD VALUE IF NOT EXISTS \'mfa_disabled\';'
+    );
+    await queryInterface.sequelize.query(
+      'ALTER TYPE "enum_audit_logs_action" ADD VALUE IF NOT EXISTS \'mfa_recovery_code_used\';'
+    );
+    await queryInterface.sequelize.query(
+      'ALTER TYPE "enum_audit_logs_action" ADD VALUE IF NOT EXISTS \'mfa_recovery_codes_regenerated\';'
+    );
+  },
+
+  async down(queryInterface) {
+    // Postgres cannot drop enum values; the MFA actions stay on enum_audit_logs_action
+    await queryInterface.dropTable('mfa_recovery_codes');
+    await queryInterface.removeColumn('users', 'mfa_last_used_step');
+    await queryInterface.removeColumn('users', 'mfa_enabled_at');
+    await queryInterface.removeColumn('users', 'mfa_secret');
+  }
+};
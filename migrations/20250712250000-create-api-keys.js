@@ -0,0 +1,81 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('api_keys', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id'
+        },
+        onDelete: 'CASCADE'
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false
+      },
+      scope: {
+        type: Sequelize.ENUM('read', 'ingest', 'admin'),
+        allowNull: false
+      },
+      prefix: {
+        type: Sequelize.STRING(16),
+        allowNull: false
+      },
+      key_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: true
+      },
+      last_used_at: {
+        type: Sequelize.DATE,
+        allowNull: true
+      },
+      last_used_ip: {
+        type: Sequelize.STRING(45),
+        allowNull: true
+      },
+      revoked_at: {
+        type: Sequelize.DATE,
+        allowNull: true
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      },
+      updated_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    // Add indexes
+    await queryInterface.addIndex('api_keys', ['key_hash'], { unique: true });
+    await queryInterface.addIndex('api_keys', ['user_id']);
+
+    await queryInterface.sequelize.query(
+      'ALTER TYPE "enum_audit_logs_action" ADD VALUE IF NOT EXISTS \'api_key_created\';'
+    );
+    await queryInterface.sequelize.query(
+      'ALTER TYPE "enum_audit_logs_action" ADD VALUE IF NOT EXISTS \'api_key_revoked\';'
+    );
+  },
+
+  async down(queryInterface) {
+    // Postgres cannot drop enum values; the API key actions stay on enum_audit_logs_action
+    await queryInterface.dropTable('api_keys');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_api_keys_scope";');
+  }
+};
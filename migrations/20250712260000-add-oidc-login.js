@@ -0,0 +1,64 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'oidc_issuer', {
+      type: Sequelize.STRING(255),
+      allowNull: true
+    });
+    await queryInterface.addColumn('users', 'oidc_subject', {
+      type: Sequelize.STRING(255),
+      allowNull: true
+    });
+    await queryInterface.addIndex('users', ['oidc_issuer', 'oidc_subject'], { unique: true });
+
+    await queryInterface.createTable('oidc_login_requests', {
+      id: {
+        allowNull: false,
+        autoIncrement: true,
+        primaryKey: true,
+        type: Sequelize.INTEGER
+      },
+      state: {
+        type: Sequelize.STRING(64),
+        allowNull: false
+      },
+      nonce: {
+        type: Sequelize.STRING(64),
+        allowNull: false
+      },
+      code_verifier: {
+        type: Sequelize.STRING(128),
+        allowNull: false
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false
+      },
+      created_at: {
+        allowNull: false,
+        type: Sequelize.DATE
+      }
+    });
+
+    // Add indexes
+    await queryInterface.addIndex('oidc_login_requests', ['state'], { unique: true });
+    await queryInterface.addIndex('oidc_login_requests', ['expires_at']);
+
+    await queryInterface.sequelize.query(
+      'ALTER TYPE "enum_audit_logs_action" ADD VALUE IF NOT EXISTS \'sso_user_provisioned\';'
+    );
+    await queryInterface.sequelize.query(
+      'ALTER TYPE "enum_audit_logs_action" ADD VALUE IF NOT EXISTS \'sso_account_linked\';'
+    );
+  },
+
+  async down(queryInterface) {
+    // Postgres cannot drop enum values; the SSO actions stay on enum_audit_logs_action
+    await queryInterface.dropTable('oidc_login_requests');
+    await queryInterface.removeIndex('users', ['oidc_issuer', 'oidc_subject']);
+    await queryInterface.removeColumn('users', 'oidc_subject');
+    await queryInterface.removeColumn('users', 'oidc_issuer');
+  }
+};
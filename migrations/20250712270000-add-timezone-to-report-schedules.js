@@ -0,0 +1,16 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('report_schedules', 'timezone', {
+      type: Sequelize.STRING(64),
+      allowNull: false,
+      defaultValue: 'UTC'
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('report_schedules', 'timezone');
+  }
+};
@@ -3,23 +3,23 @@ import dotenv from 'dotenv';
 import { fn, col } from 'sequelize';
 import CostRecord from '../src/models/CostRecord';
 import sequelize from '../src/config/database';
-import { CostRecordCreationAttributes } from '../src/types';
+import { CloudProvider, CostRecordCreationAttributes } from '../src/types';
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, '../.env') });
 
 /**
  * Seeder Configuration
- * AWS service definitions with realistic cost patterns
+ * AWS, Azure and GCP service definitions with realistic cost patterns
  */
-interface AwsService {
+interface CloudService {
   name: string;
   baseCost: number;
   variance: number;
   frequency: string;
 }
 
-const awsServices: AwsService[] = [
+const awsServices: CloudService[] = [
   { name: 'EC2', baseCost: 0.50, variance: 0.3, frequency: 'daily' },
   { name: 'S3', baseCost: 0.023, variance: 0.1, frequency: 'daily' },
   { name: 'Lambda', baseCost: 0.20, variance: 0.8, frequency: 'daily' },
@@ -46,11 +46,92 @@ const accountIds: string[] = [
   '555555555555'
 ];
 
+const azureServices: CloudService[] = [
+  { name: 'Virtual Machines', baseCost: 0.48, variance: 0.3, frequency: 'daily' },
+  { name: 'Storage', baseCost: 0.02, variance: 0.1, frequency: 'daily' },
+  { name: 'Azure Cosmos DB', baseCost: 0.25, variance: 0.5, frequency: 'daily' },
+  { name: 'Azure App Service', baseCost: 0.10, variance: 0.3, frequency: 'daily' }
+];
+
+const gcpServices: CloudService[] = [
+  { name: 'Compute Engine', baseCost: 0.47, variance: 0.3, frequency: 'daily' },
+  { name: 'Cloud Storage', baseCost: 0.02, variance: 0.1, frequency: 'daily' },
+  { name: 'BigQuery', baseCost: 0.35, variance: 0.8, frequency: 'daily' },
+  { name: 'Cloud Run', baseCost: 0.12, variance: 0.6, frequency: 'daily' }
+];
+
+/**
+ * Services, regions, accounts (subscriptions, projects) and usage types per provider
+ */
+interface ProviderCatalog {
+  services: CloudService[];
+  regions: string[];
+  accountIds: string[];
+  usageTypes: Record<string, string[]>;
+}
+
+const providerCatalogs: Record<CloudProvider, ProviderCatalog> = {
+  aws: {
+    services: awsServices,
+    regions,
+    accountIds,
+    usageTypes: {
+      'EC2': ['BoxUsage', 'DataTransfer', 'EBSOptimization'],
+      'S3': ['StorageUsage', 'DataTransfer', 'Requests'],
+      'Lambda': ['Requests', 'Duration', 'DataTransfer'],
+      'RDS': ['InstanceUsage', 'StorageUsage', 'DataTransfer'],
+      'CloudFront': ['DataTransfer', 'Requests'],
+      'DynamoDB': ['ReadCapacityUnits', 'WriteCapacityUnits', 'StorageUsage'],
+      'ElastiCache': ['NodeUsage', 'DataTransfer'],
+      'API Gateway': ['Requests', 'DataTransfer'],
+      'ECS': ['FargateUsage', 'DataTransfer'],
+      'CloudWatch': ['Metrics', 'Logs', 'Alarms']
+    }
+  },
+  azure: {
+    services: azureServices,
+    regions: ['eastus', 'westeurope', 'northeurope'],
+    accountIds: ['8f2c1c9e-4a7b-4d3e-9b1a-2c5d6e7f8a9b'],
+    usageTypes: {
+      'Virtual Machines': ['D2s v3', 'D4s v3'],
+      'Storage': ['Hot LRS Data Stored', 'Read Operations'],
+      'Azure Cosmos DB': ['100 RU/s', 'Data Stored'],
+      'Azure App Service': ['P1 v3 App']
+    }
+  },
+  gcp: {
+    services: gcpServices,
+    regions: ['us-central1', 'europe-west1'],
+    accountIds: ['analytics-prod-4821'],
+    usageTypes: {
+      'Compute Engine': ['N2 Instance Core running in Americas', 'N2 Instance Ram running in Americas'],
+      'Cloud Storage': ['Standard Storage US Multi-region'],
+      'BigQuery': ['Analysis', 'Active Storage'],
+      'Cloud Run': ['CPU Allocation Time', 'Memory Allocation Time']
+    }
+  }
+};
+
+// Most spend is on AWS, with smaller Azure and GCP footprints
+const providerWeights: Array<[CloudProvider, number]> = [['aws', 0.7], ['azure', 0.15], ['gcp', 0.15]];
+
+function pickProvider(): CloudProvider {
+  let roll = Math.random();
+  for (const [provider, weight] of providerWeights) {
+    roll -= weight;
+    if (roll < 0) {
+      return provider;
+    }
+  }
+  return 'aws';
+}
+
+
 /**
  * Cost Generation Functions
  * Generate realistic cost data based on service patterns
  */
-function generateCost(service: AwsService): number {
+function generateCost(service: CloudService): number {
   const baseCost = service.baseCost;
   const variance = service.variance;
   const randomFactor = 0.5 + Math.random(); // 0.5 to 1.5
@@ -75,18 +156,10 @@ async function generateCostData(): Promise<CostRecordCreationAttributes[]> {
   const startDate = new Date('2025-01-01');
   const endDate = new Date('2025-07-05');
 
-  const usageTypes: Record<string, string[]> = {
-    'EC2': ['BoxUsage', 'DataTransfer', 'EBSOptimization'],
-    'S3': ['StorageUsage', 'DataTransfer', 'Requests'],
-    'Lambda': ['Requests', 'Duration', 'DataTransfer'],
-    'RDS': ['InstanceUsage', 'StorageUsage', 'DataTransfer'],
-    'CloudFront': ['DataTransfer', 'Requests'],
-    'DynamoDB': ['ReadCapacityUnits', 'WriteCapacityUnits', 'StorageUsage'],
-    'ElastiCache': ['NodeUsage', 'DataTransfer'],
-    'API Gateway': ['Requests', 'DataTransfer'],
-    'ECS': ['FargateUsage', 'DataTransfer'],
-    'CloudWatch': ['Metrics', 'Logs', 'Alarms']
-  };
+
+  // Cost allocation tags
+  const teams = ['payments', 'platform', 'search', 'data'];
+  const environments = ['production', 'staging', 'development'];
 
   // To ensure all months are represented, generate at least 1 record per month first
   const months = [0,1,2,3,4,5,6]; // Jan to July (0-indexed)
@@ -94,42 +167,56 @@ async function generateCostData(): Promise<CostRecordCreationAttributes[]> {
     const year = 2025;
     const day = Math.floor(Math.random() * 28) + 1; // Safe for all months
     const date = new Date(year, month, day);
-    const service = awsServices[Math.floor(Math.random() * awsServices.length)]!;
+    const provider = pickProvider();
+    const catalog = providerCatalogs[provider];
+    const service = catalog.services[Math.floor(Math.random() * catalog.services.length)]!;
     const costAmount = generateCost(service);
-    const region = regions[Math.floor(Math.random() * regions.length)] || 'us-east-1';
-    const accountId = accountIds[Math.floor(Math.random() * accountIds.length)] || '123456789012';
-    const serviceUsageTypes = usageTypes[service.name] || ['Usage'];
+    const region = catalog.regions[Math.floor(Math.random() * catalog.regions.length)] || 'global';
+    const accountId = catalog.accountIds[Math.floor(Math.random() * catalog.accountIds.length)] || '123456789012';
+    const serviceUsageTypes = catalog.usageTypes[service.name] || ['Usage'];
     const usageType = serviceUsageTypes[Math.floor(Math.random() * serviceUsageTypes.length)] || 'Usage';
     costRecords.push({
+      provider: provider,
       date: date,
       serviceName: service.name,
       costAmount: costAmount,
       region: region,
       accountId: accountId,
-      resourceId: `${service.name.toLowerCase()}-${Math.random().toString(36).substr(2, 8)}`,
+      resourceId: `${service.name.toLowerCase().replace(/\s+/g, '-')}-${Math.random().toString(36).substr(2, 8)}`,
       usageType: usageType,
-      description: `${service.name} ${usageType} usage in ${region}`
+      description: `${service.name} ${usageType} usage in ${region}`,
+      tags: {
+        team: teams[Math.floor(Math.random() * teams.length)] || 'platform',
+        environment: environments[Math.floor(Math.random() * environments.length)] || 'production'
+      }
     });
   }
 
   // Generate the rest randomly
   for (let i = costRecords.length; i < recordCount; i++) {
     const date = getRandomDateInRange(startDate, endDate);
-    const service = awsServices[Math.floor(Math.random() * awsServices.length)]!;
+    const provider = pickProvider();
+    const catalog = providerCatalogs[provider];
+    const service = catalog.services[Math.floor(Math.random() * catalog.services.length)]!;
     const costAmount = generateCost(service);
-    const region = regions[Math.floor(Math.random() * regions.length)] || 'us-east-1';
-    const accountId = accountIds[Math.floor(Math.random() * accountIds.length)] || '123456789012';
-    const serviceUsageTypes = usageTypes[service.name] || ['Usage'];
+    const region = catalog.regions[Math.floor(Math.random() * catalog.regions.length)] || 'global';
+    const accountId = catalog.accountIds[Math.floor(Math.random() * catalog.accountIds.length)] || '123456789012';
+    const serviceUsageTypes = catalog.usageTypes[service.name] || ['Usage'];
     const usageType = serviceUsageTypes[Math.floor(Math.random() * serviceUsageTypes.length)] || 'Usage';
     costRecords.push({
+      provider: provider,
       date: date,
       serviceName: service.name,
       costAmount: costAmount,
       region: region,
       accountId: accountId,
-      resourceId: `${service.name.toLowerCase()}-${Math.random().toString(36).substr(2, 8)}`,
+      resourceId: `${service.name.toLowerCase().replace(/\s+/g, '-')}-${Math.random().toString(36).substr(2, 8)}`,
       usageType: usageType,
-      description: `${service.name} ${usageType} usage in ${region}`
+      description: `${service.name} ${usageType} usage in ${region}`,
+      tags: {
+        team: teams[Math.floor(Math.random() * teams.length)] || 'platform',
+        environment: environments[Math.floor(Math.random() * environments.length)] || 'production'
+      }
     });
   }
 
@@ -0,0 +1,274 @@
+import { Response, NextFunction } from 'express';
+import Alert from '../models/Alert';
+import AlertRule from '../models/AlertRule';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  AlertRuleCreationAttributes,
+  ApiResponse,
+  PaginatedResponse,
+  PaginationQuery,
+} from '../types';
+import { log } from '../utils/logger';
+import {
+  NotFoundError,
+  ValidationError,
+  AuthorizationError,
+  DatabaseError,
+} from '../utils/errors';
+import { assertAccountReadAccess } from '../utils/accountAccess';
+import { isDateString, parseDateString } from '../utils/dates';
+import { evaluateAlerts, AlertEvaluationResult } from '../jobs/alertEvaluator';
+
+type AlertRuleInput = Partial<Omit<AlertRuleCreationAttributes, 'id' | 'userId'>>;
+
+const ALERT_RULE_FIELDS: Array<keyof AlertRuleInput> = ['name', 'dailyThreshold', 'accountId', 'serviceName', 'region', 'enabled'];
+
+/**
+ * Validate an alert rule payload
+ * On create every required field must be present; on update only provided fields are checked
+ */
+const validateAlertRuleInput = (body: AlertRuleInput, isUpdate: boolean): AlertRuleInput => {
+  const errors: Array<{ field: string; message: string }> = [];
+
+  if (!isUpdate || body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      errors.push({ field: 'name', message: 'Name is required' });
+    }
+  }
+
+  if (!isUpdate || body.dailyThreshold !== undefined) {
+    if (!Number.isFinite(Number(body.dailyThreshold)) || Number(body.dailyThreshold) <= 0) {
+      errors.push({ field: 'dailyThreshold', message: 'Daily threshold must be a positive number' });
+    }
+  }
+
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    errors.push({ field: 'enabled', message: 'Enabled must be a boolean' });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid alert rule', errors);
+  }
+
+  const input: Record<string, unknown> = {};
+  ALERT_RULE_FIELDS.forEach((field) => {
+    if (body[field] !== undefined) {
+      input[field] = body[field] === '' ? null : body[field];
+    }
+  });
+  return input as AlertRuleInput;
+};
+
+/**
+ * Load an alert rule the caller may access
+ * Rules belong to their creator; admins can access every rule
+ */
+const findAccessibleRule = async (id: string, user: NonNullable<AuthenticatedRequest['user']>): Promise<AlertRule> => {
+  const rule = await AlertRule.findByPk(id);
+  if (!rule || (rule.userId !== user.id && user.role !== 'admin')) {
+    throw new NotFoundError('Alert rule not found');
+  }
+  return rule;
+};
+
+/**
+ * Alert Controller
+ * Fired alerts, daily spend rules and on-demand evaluation
+ */
+const alertController = {
+  /**
+   * GET /api/alerts
+   * List fired alerts for the caller's budgets and rules, newest first
+   */
+  async getAlerts(req: AuthenticatedRequest<object, object, object, PaginationQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page = '1', limit = '50' } = req.query;
+      const offset = (parseInt(page, 10) - 1) * parseInt(limit, 10);
+
+      const { count, rows } = await Alert.findAndCountAll({
+        where: { userId: req.user!.id },
+        order: [['createdAt', 'DESC']],
+        limit: parseInt(limit, 10),
+        offset,
+      });
+
+      const response: PaginatedResponse<Alert> = {
+        success: true,
+        data: rows,
+        pagination: {
+          currentPage: parseInt(page, 10),
+          totalPages: Math.ceil(count / parseInt(limit, 10)),
+          totalRecords: count,
+          recordsPerPage: parseInt(limit, 10),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      log.error('Error fetching alerts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to fetch alerts'));
+    }
+  },
+
+  /**
+   * POST /api/alerts/evaluate
+   * Run alert evaluation immediately instead of waiting for the scheduler
+   * Accepts an optional `asOf` date (YYYY-MM-DD) in the body
+   */
+  async runEvaluation(req: AuthenticatedRequest<object, object, { asOf?: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { asOf } = req.body;
+      if (asOf !== undefined && !isDateString(asOf)) {
+        throw new ValidationError('asOf must be a date in YYYY-MM-DD format');
+      }
+
+      const result = await evaluateAlerts(asOf ? parseDateString(asOf) : new Date());
+
+      const response: ApiResponse<AlertEvaluationResult> = {
+        success: true,
+        data: result,
+        message: 'Alert evaluation completed',
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error running alert evaluation', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to run alert evaluation'));
+    }
+  },
+
+  /**
+   * GET /api/alerts/rules
+   * List the caller's daily spend rules
+   */
+  async getAlertRules(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await AlertRule.findAll({
+        where: { userId: req.user!.id },
+        order: [['name', 'ASC']],
+      });
+
+      const response: ApiResponse<AlertRule[]> = {
+        success: true,
+        data: rules,
+      };
+
+      res.json(response);
+    } catch (error) {
+      log.error('Error fetching alert rules', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to fetch alert rules'));
+    }
+  },
+
+  /**
+   * POST /api/alerts/rules
+   * Create a daily spend rule owned by the caller
+   */
+  async createAlertRule(req: AuthenticatedRequest<object, object, AlertRuleInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const input = validateAlertRuleInput(req.body, false);
+      await assertAccountReadAccess(req.user!.id, input.accountId);
+
+      const rule = await AlertRule.create({
+        ...input,
+        userId: req.user!.id,
+      } as AlertRuleCreationAttributes);
+
+      const response: ApiResponse<AlertRule> = {
+        success: true,
+        data: rule,
+        message: 'Alert rule created successfully',
+      };
+
+      log.info('Alert rule created successfully', { ruleId: rule.id, userId: req.user!.id });
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof AuthorizationError) {
+        return next(error);
+      }
+
+      log.error('Error creating alert rule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        data: req.body,
+      });
+      return next(new DatabaseError('Failed to create alert rule'));
+    }
+  },
+
+  /**
+   * PUT /api/alerts/rules/:id
+   * Update a daily spend rule
+   */
+  async updateAlertRule(req: AuthenticatedRequest<{ id: string }, object, AlertRuleInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const input = validateAlertRuleInput(req.body, true);
+      const rule = await findAccessibleRule(req.params.id, req.user!);
+      await assertAccountReadAccess(req.user!.id, input.accountId);
+
+      await rule.update(input);
+
+      const response: ApiResponse<AlertRule> = {
+        success: true,
+        data: rule,
+        message: 'Alert rule updated successfully',
+      };
+
+      log.info('Alert rule updated successfully', { ruleId: rule.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError || error instanceof AuthorizationError) {
+        return next(error);
+      }
+
+      log.error('Error updating alert rule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ruleId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to update alert rule'));
+    }
+  },
+
+  /**
+   * DELETE /api/alerts/rules/:id
+   * Delete a daily spend rule
+   */
+  async deleteAlertRule(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await findAccessibleRule(req.params.id, req.user!);
+      await rule.destroy();
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Alert rule deleted successfully',
+      };
+
+      log.info('Alert rule deleted successfully', { ruleId: rule.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error deleting alert rule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ruleId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to delete alert rule'));
+    }
+  },
+};
+
+export default alertController;
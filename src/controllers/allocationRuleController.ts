@@ -0,0 +1,218 @@
+import { Response, NextFunction } from 'express';
+import AllocationRule from '../models/AllocationRule';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  AllocationMethod,
+  AllocationRuleCreationAttributes,
+  ALLOCATION_METHODS,
+  ApiResponse,
+} from '../types';
+import { log } from '../utils/logger';
+import { NotFoundError, ValidationError, DatabaseError } from '../utils/errors';
+import { isValidTagKey } from '../utils/costTags';
+
+type AllocationRuleInput = Partial<Omit<AllocationRuleCreationAttributes, 'id'>>;
+
+const ALLOCATION_RULE_FIELDS: Array<keyof AllocationRuleInput> = [
+  'name', 'priority', 'serviceName', 'accountId', 'usageType', 'tagKey', 'tagValue', 'method', 'splits', 'basisServiceName', 'enabled',
+];
+
+const MATCH_FIELDS: Array<keyof AllocationRuleInput> = ['serviceName', 'accountId', 'usageType', 'tagKey'];
+
+/**
+ * Validate an allocation rule payload
+ * Fields are checked together with the existing rule on update, since the
+ * splits that are required depend on the method
+ */
+const validateAllocationRuleInput = (body: AllocationRuleInput, existing?: AllocationRule): AllocationRuleInput => {
+  const errors: Array<{ field: string; message: string }> = [];
+
+  const input: Record<string, unknown> = {};
+  ALLOCATION_RULE_FIELDS.forEach((field) => {
+    if (body[field] !== undefined) {
+      input[field] = body[field] === '' ? null : body[field];
+    }
+  });
+
+  const merged = { ...existing?.get({ plain: true }), ...input } as AllocationRuleInput;
+
+  if (typeof merged.name !== 'string' || merged.name.trim() === '') {
+    errors.push({ field: 'name', message: 'Name is required' });
+  }
+
+  if (merged.priority !== undefined && !Number.isInteger(merged.priority)) {
+    errors.push({ field: 'priority', message: 'Priority must be a whole number' });
+  }
+
+  if (!MATCH_FIELDS.some((field) => merged[field])) {
+    errors.push({ field: 'serviceName', message: 'Rule must match on at least one of serviceName, accountId, usageType or tagKey' });
+  }
+
+  if (merged.tagKey && !isValidTagKey(merged.tagKey)) {
+    errors.push({ field: 'tagKey', message: 'Invalid tag key' });
+  }
+  if (merged.tagValue && !merged.tagKey) {
+    errors.push({ field: 'tagValue', message: 'tagValue requires tagKey' });
+  }
+
+  if (!merged.method || !ALLOCATION_METHODS.includes(merged.method as AllocationMethod)) {
+    errors.push({ field: 'method', message: `Method must be one of: ${ALLOCATION_METHODS.join(', ')}` });
+  } else if (merged.method === 'fixed') {
+    const splits = merged.splits ?? [];
+    const validSplits = Array.isArray(splits) && splits.length > 0 && splits.every((split) => typeof split?.target === 'string'
+      && split.target.trim() !== ''
+      && Number.isFinite(split.percent)
+      && split.percent > 0);
+    if (!validSplits) {
+      errors.push({ field: 'splits', message: 'Fixed rules need splits of { target, percent } with positive percentages' });
+    } else if (Math.abs(splits.reduce((total, split) => total + split.percent, 0) - 100) > 0.01) {
+      errors.push({ field: 'splits', message: 'Split percentages must add up to 100' });
+    }
+  } else if (merged.splits && merged.splits.length > 0) {
+    errors.push({ field: 'splits', message: 'Proportional rules split by team spend and take no splits' });
+  }
+
+  if (merged.enabled !== undefined && typeof merged.enabled !== 'boolean') {
+    errors.push({ field: 'enabled', message: 'Enabled must be a boolean' });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid allocation rule', errors);
+  }
+
+  return input as AllocationRuleInput;
+};
+
+const findRule = async (id: string): Promise<AllocationRule> => {
+  const rule = await AllocationRule.findByPk(id);
+  if (!rule) {
+    throw new NotFoundError('Allocation rule not found');
+  }
+  return rule;
+};
+
+/**
+ * Allocation Rule Controller
+ * Rules that share costs such as CloudWatch or NAT data transfer between teams
+ */
+const allocationRuleController = {
+  /**
+   * GET /api/allocation-rules
+   * List allocation rules in the order they are applied
+   */
+  async getAllocationRules(_req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await AllocationRule.findAll({
+        order: [['priority', 'ASC'], ['id', 'ASC']],
+      });
+
+      const response: ApiResponse<AllocationRule[]> = {
+        success: true,
+        data: rules,
+      };
+
+      res.json(response);
+    } catch (error) {
+      log.error('Error fetching allocation rules', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to fetch allocation rules'));
+    }
+  },
+
+  /**
+   * POST /api/allocation-rules
+   * Create an allocation rule
+   */
+  async createAllocationRule(req: AuthenticatedRequest<object, object, AllocationRuleInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const input = validateAllocationRuleInput(req.body);
+      const rule = await AllocationRule.create(input as AllocationRuleCreationAttributes);
+
+      const response: ApiResponse<AllocationRule> = {
+        success: true,
+        data: rule,
+        message: 'Allocation rule created successfully',
+      };
+
+      log.info('Allocation rule created successfully', { ruleId: rule.id, userId: req.user!.id });
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error creating allocation rule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        data: req.body,
+      });
+      return next(new DatabaseError('Failed to create allocation rule'));
+    }
+  },
+
+  /**
+   * PUT /api/allocation-rules/:id
+   * Update an allocation rule
+   */
+  async updateAllocationRule(req: AuthenticatedRequest<{ id: string }, object, AllocationRuleInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await findRule(req.params.id);
+      const input = validateAllocationRuleInput(req.body, rule);
+
+      await rule.update(input);
+
+      const response: ApiResponse<AllocationRule> = {
+        success: true,
+        data: rule,
+        message: 'Allocation rule updated successfully',
+      };
+
+      log.info('Allocation rule updated successfully', { ruleId: rule.id, userId: req.user!.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error updating allocation rule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ruleId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to update allocation rule'));
+    }
+  },
+
+  /**
+   * DELETE /api/allocation-rules/:id
+   * Delete an allocation rule
+   */
+  async deleteAllocationRule(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await findRule(req.params.id);
+      await rule.destroy();
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Allocation rule deleted successfully',
+      };
+
+      log.info('Allocation rule deleted successfully', { ruleId: rule.id, userId: req.user!.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error deleting allocation rule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ruleId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to delete allocation rule'));
+    }
+  },
+};
+
+export default allocationRuleController;
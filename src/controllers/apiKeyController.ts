@@ -0,0 +1,192 @@
+import { Response, NextFunction } from 'express';
+import ApiKey from '../models/ApiKey';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ApiResponse, ApiKeyScope, API_KEY_SCOPES } from '../types';
+import { canGrantScope, generateApiKey } from '../utils/apiKeys';
+import { recordAuditEvent } from '../utils/auditLog';
+import { log } from '../utils/logger';
+import { NotFoundError, ValidationError, DatabaseError } from '../utils/errors';
+
+interface ApiKeyInput {
+  name?: string;
+  scope?: ApiKeyScope;
+  expiresAt?: string | null;
+}
+
+/**
+ * Columns returned for API keys; the hash stays in the database
+ */
+const API_KEY_ATTRIBUTES = ['id', 'userId', 'name', 'scope', 'prefix', 'expiresAt', 'lastUsedAt', 'lastUsedIp', 'revokedAt', 'createdAt', 'updatedAt'];
+
+/**
+ * API Key Controller
+ * Named, scoped keys that let scripts and pipelines call the API without logging in
+ * Users manage their own keys; admins can also list and revoke anyone's
+ */
+const apiKeyController = {
+  /**
+   * GET /api/api-keys
+   * List the caller's API keys, newest first; admins can pass userId to list another user's
+   */
+  async getApiKeys(req: AuthenticatedRequest<object, object, object, { userId?: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.role === 'admin' && req.query.userId ? parseInt(req.query.userId, 10) : req.user!.id;
+      if (Number.isNaN(userId)) {
+        throw new ValidationError('userId must be a number');
+      }
+
+      const apiKeys = await ApiKey.findAll({
+        where: { userId },
+        attributes: API_KEY_ATTRIBUTES,
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+      });
+
+      const response: ApiResponse<ApiKey[]> = {
+        success: true,
+        data: apiKeys,
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error fetching API keys', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to fetch API keys'));
+    }
+  },
+
+  /**
+   * POST /api/api-keys
+   * Mint an API key for the caller; the key is only returned in this response
+   * The scope cannot grant more than the caller's role
+   */
+  async createApiKey(req: AuthenticatedRequest<object, object, ApiKeyInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { name, scope, expiresAt } = req.body;
+      const errors: Array<{ field: string; message: string }> = [];
+
+      if (typeof name !== 'string' || name.trim() === '' || name.length > 100) {
+        errors.push({ field: 'name', message: 'Name is required and must be at most 100 characters' });
+      }
+
+      if (!scope || !API_KEY_SCOPES.includes(scope)) {
+        errors.push({ field: 'scope', message: `scope must be one of: ${API_KEY_SCOPES.join(', ')}` });
+      } else if (!canGrantScope(scope, req.user!.role)) {
+        errors.push({ field: 'scope', message: `Your role cannot create ${scope} keys` });
+      }
+
+      let expiry: Date | null = null;
+      if (expiresAt !== undefined && expiresAt !== null) {
+        expiry = new Date(expiresAt);
+        if (typeof expiresAt !== 'string' || Number.isNaN(expiry.getTime()) || expiry <= new Date()) {
+          errors.push({ field: 'expiresAt', message: 'expiresAt must be a future date' });
+        }
+      }
+
+      if (errors.length > 0) {
+        throw new ValidationError('Invalid API key', errors);
+      }
+
+      const { key, prefix, keyHash } = generateApiKey();
+      const apiKey = await ApiKey.create({
+        userId: req.user!.id,
+        name: (name as string).trim(),
+        scope: scope as ApiKeyScope,
+        prefix,
+        keyHash,
+        expiresAt: expiry,
+      });
+
+      await recordAuditEvent({
+        action: 'api_key_created',
+        userId: req.user!.id,
+        actorId: req.user!.id,
+        ipAddress: req.ip ?? null,
+        details: { apiKeyId: apiKey.id, name: apiKey.name, scope: apiKey.scope },
+      });
+
+      const response: ApiResponse<{
+        id: number;
+        name: string;
+        scope: ApiKeyScope;
+        prefix: string;
+        expiresAt: Date | null;
+        createdAt: Date;
+        key: string;
+      }> = {
+        success: true,
+        data: {
+          id: apiKey.id,
+          name: apiKey.name,
+          scope: apiKey.scope,
+          prefix: apiKey.prefix,
+          expiresAt: apiKey.expiresAt,
+          createdAt: apiKey.createdAt,
+          key,
+        },
+        message: 'API key created successfully. Store the key now; it cannot be shown again.',
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error creating API key', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to create API key'));
+    }
+  },
+
+  /**
+   * DELETE /api/api-keys/:id
+   * Revoke one of the caller's API keys; admins can revoke anyone's
+   */
+  async revokeApiKey(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const apiKey = /^\d+$/.test(id) ? await ApiKey.findOne({
+        where: req.user!.role === 'admin' ? { id } : { id, userId: req.user!.id },
+      }) : null;
+      if (!apiKey) {
+        throw new NotFoundError('API key not found');
+      }
+
+      if (!apiKey.revokedAt) {
+        await apiKey.update({ revokedAt: new Date() });
+        await recordAuditEvent({
+          action: 'api_key_revoked',
+          userId: apiKey.userId,
+          actorId: req.user!.id,
+          ipAddress: req.ip ?? null,
+          details: { apiKeyId: apiKey.id, name: apiKey.name },
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'API key revoked successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error revoking API key', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        apiKeyId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to revoke API key'));
+    }
+  },
+};
+
+export default apiKeyController;
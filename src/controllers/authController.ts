@@ -1,13 +1,44 @@
 import { Request, Response, NextFunction } from 'express';
+import sequelize from '../config/database';
 import User from '../models/User';
-import { generateTokens, verifyRefreshToken } from '../utils/jwt';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  issueTokens,
+  listActiveSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from '../utils/refreshTokens';
 import { log } from '../utils/logger';
 import {
   AuthenticationError,
+  AuthorizationError,
+  AccountLockedError,
   ValidationError,
   NotFoundError,
   ConflictError,
 } from '../utils/errors';
+import { consumeUserToken, createUserToken } from '../utils/userTokens';
+import {
+  getActiveLockout,
+  recordFailedLogin,
+  resetFailedLogins,
+  unlockAccount,
+} from '../utils/loginAttempts';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../utils/authEmails';
+import { generateMfaChallengeToken, TokenResponse, verifyMfaChallengeToken } from '../utils/jwt';
+import { buildOtpauthUri, generateTotpSecret } from '../utils/totp';
+import {
+  countRemainingRecoveryCodes,
+  disableUserMfa,
+  generateRecoveryCodes,
+  verifyMfaCode,
+  verifyUserTotp,
+} from '../utils/mfa';
+import { recordAuditEvent } from '../utils/auditLog';
+import { completeAuthorization, createAuthorizationRequest, getOidcConfig } from '../utils/oidc';
+import { resolveOidcUser } from '../utils/oidcUsers';
+import { ActiveSession, ApiResponse, SessionContext } from '../types';
 
 interface RegisterRequest extends Request {
   body: {
@@ -23,8 +54,136 @@ interface LoginRequest extends Request {
   };
 }
 
+interface TokenRequest extends Request {
+  body: {
+    token?: string;
+  };
+}
+
+interface EmailRequest extends Request {
+  body: {
+    email?: string;
+  };
+}
+
+interface ResetPasswordRequest extends Request {
+  body: {
+    token?: string;
+    password?: string;
+  };
+}
+
+interface MfaCodeRequest extends AuthenticatedRequest {
+  body: {
+    code?: string;
+  };
+}
+
+interface DisableMfaRequest extends AuthenticatedRequest {
+  body: {
+    password?: string;
+    code?: string;
+  };
+}
+
+interface OidcCallbackRequest extends Request {
+  body: {
+    code?: string;
+    state?: string;
+  };
+}
+
+interface VerifyMfaRequest extends Request {
+  body: {
+    mfaToken?: string;
+    code?: string;
+  };
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Client address and user agent recorded on the session
+ */
+const getSessionContext = (req: Request): SessionContext => ({
+  ipAddress: req.ip ?? null,
+  userAgent: req.get('User-Agent') ?? null,
+});
+
+/**
+ * Response data of a completed login
+ */
+const buildLoginData = (user: User, tokens: TokenResponse) => ({
+  user: { id: user.id, email: user.email, role: user.role },
+  tokens: {
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresIn: tokens.expiresIn,
+  },
+});
+
+/**
+ * Finish a login whose first factor succeeded: ask for an MFA code when the user has MFA,
+ * otherwise start a session and return its tokens
+ */
+const sendLoginResponse = async (req: Request, res: Response, user: User): Promise<void> => {
+  if (user.mfaEnabledAt) {
+    log.info('First factor accepted, MFA code required', { userId: user.id });
+
+    res.status(200).json({
+      success: true,
+      message: 'MFA code required',
+      data: {
+        mfaRequired: true,
+        mfaToken: generateMfaChallengeToken(user.id),
+      },
+    });
+    return;
+  }
+
+  const tokens = await issueTokens(user, getSessionContext(req));
+
+  log.info('User logged in successfully', { email: user.email });
+
+  res.status(200).json({
+    success: true,
+    message: 'Login successful',
+    data: buildLoginData(user, tokens),
+  });
+};
+
+/**
+ * Email a verification link to a user
+ * Delivery failures are logged rather than thrown; the user can ask for a new link
+ */
+const requestEmailVerification = async (user: User): Promise<void> => {
+  try {
+    const token = await createUserToken(user.id, 'email_verification');
+    await sendVerificationEmail(user, token);
+  } catch (error) {
+    log.error('Failed to send verification email', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId: user.id,
+    });
+  }
+};
+
+/**
+ * Reject a wrong password or MFA code given to confirm an account change
+ * The failure counts toward the login lockout, so these endpoints cannot be used to guess either
+ */
+const rejectConfirmation = async (user: User, ipAddress: string | null, error: ValidationError): Promise<never> => {
+  const lockedUntil = await recordFailedLogin(user.id, ipAddress);
+  if (lockedUntil) {
+    log.warn('Account locked after failed confirmations', { userId: user.id, lockedUntil });
+    throw new AccountLockedError(lockedUntil);
+  }
+  throw error;
+};
+
 /**
  * Register a new user
+ * The account cannot log in until the emailed verification link is used
  */
 export const register = async (req: RegisterRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -40,12 +199,13 @@ export const register = async (req: RegisterRequest, res: Response, next: NextFu
     }
 
     const user = await User.create({ email, password });
+    await requestEmailVerification(user);
 
     log.info('User registered successfully', { email: user.email });
 
     res.status(201).json({
       success: true,
-      message: 'Registration successful. You can now log in.',
+      message: 'Registration successful. Check your email to verify your address before logging in.',
       data: { email: user.email },
     });
   } catch (error) {
@@ -77,35 +237,319 @@ export const login = async (req: LoginRequest, res: Response, next: NextFunction
       throw new AuthenticationError('Invalid email or password');
     }
 
+    // A locked account is rejected before the password is checked, so guessing is pointless
+    const activeLockout = getActiveLockout(user);
+    if (activeLockout) {
+      throw new AccountLockedError(activeLockout);
+    }
+
     const isPasswordValid = await user.comparePassword(password);
     if (!isPasswordValid) {
+      const lockedUntil = await recordFailedLogin(user.id, req.ip ?? null);
+      if (lockedUntil) {
+        log.warn('Account locked after failed logins', { userId: user.id, lockedUntil });
+        throw new AccountLockedError(lockedUntil);
+      }
       throw new AuthenticationError('Invalid email or password');
     }
 
-    const tokens = generateTokens(user.id, user.email);
+    if (!user.emailVerifiedAt) {
+      throw new AuthorizationError('Email address has not been verified');
+    }
+
+    // With MFA the failed login count is only reset once the code is verified, so
+    // alternating password and code guesses cannot avoid the lockout
+    if (!user.mfaEnabledAt) {
+      await resetFailedLogins(user);
+    }
+
+    await sendLoginResponse(req, res, user);
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof AuthorizationError || error instanceof AccountLockedError) {
+      return next(error);
+    }
+
+    log.error('Login error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      email: req.body.email,
+    });
+    return next(error);
+  }
+};
+
+/**
+ * Start a single sign-on login through the OIDC identity provider
+ * The client sends the user to `authorizationUrl`, keeps `state` to compare with the one the
+ * provider redirects back with, and then posts the code to the callback endpoint
+ */
+export const startOidcLogin = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const config = getOidcConfig();
+    if (!config) {
+      throw new NotFoundError('Single sign-on is not configured');
+    }
+
+    const { authorizationUrl, state } = await createAuthorizationRequest(config);
+
+    res.status(200).json({
+      success: true,
+      data: { authorizationUrl, state },
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return next(error);
+    }
+
+    log.error('Single sign-on start error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(new AuthenticationError('Single sign-on is unavailable'));
+  }
+};
+
+/**
+ * Finish a single sign-on login with the code and state the provider redirected back with
+ * The user is found by their provider identity, linked by verified email or created,
+ * and then logged in like after a password login
+ */
+export const completeOidcLogin = async (req: OidcCallbackRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code, state } = req.body;
+    if (!code || typeof code !== 'string' || !state || typeof state !== 'string') {
+      throw new ValidationError('code and state are required');
+    }
+
+    const config = getOidcConfig();
+    if (!config) {
+      throw new NotFoundError('Single sign-on is not configured');
+    }
+
+    const identity = await completeAuthorization(config, code, state);
+    const user = await resolveOidcUser(identity, req.ip ?? null);
 
-    log.info('User logged in successfully', { email: user.email });
+    await sendLoginResponse(req, res, user);
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError || error instanceof AuthenticationError || error instanceof AuthorizationError || error instanceof ConflictError) {
+      return next(error);
+    }
+
+    log.error('Single sign-on callback error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(error);
+  }
+};
+
+/**
+ * Second login step for users with MFA: exchange the challenge token from `login`
+ * and a TOTP or recovery code for an access and refresh token pair
+ * Wrong codes count towards the account lockout
+ */
+export const verifyMfa = async (req: VerifyMfaRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { mfaToken, code } = req.body;
+    if (!mfaToken || typeof mfaToken !== 'string' || !code || typeof code !== 'string') {
+      throw new ValidationError('mfaToken and code are required');
+    }
+
+    let userId: number;
+    try {
+      ({ userId } = verifyMfaChallengeToken(mfaToken));
+    } catch {
+      throw new AuthenticationError('Invalid or expired MFA token');
+    }
+
+    const user = await User.findByPk(userId);
+    if (!user || !user.mfaEnabledAt) {
+      throw new AuthenticationError('Invalid or expired MFA token');
+    }
+
+    const activeLockout = getActiveLockout(user);
+    if (activeLockout) {
+      throw new AccountLockedError(activeLockout);
+    }
+
+    const method = await verifyMfaCode(user, code, req.ip ?? null);
+    if (!method) {
+      const lockedUntil = await recordFailedLogin(user.id, req.ip ?? null);
+      if (lockedUntil) {
+        log.warn('Account locked after failed MFA codes', { userId: user.id, lockedUntil });
+        throw new AccountLockedError(lockedUntil);
+      }
+      throw new AuthenticationError('Invalid MFA code');
+    }
+
+    await resetFailedLogins(user);
+    const tokens = await issueTokens(user, getSessionContext(req));
+
+    log.info('User logged in successfully', { email: user.email, mfaMethod: method });
 
     res.status(200).json({
       success: true,
       message: 'Login successful',
       data: {
-        user: { id: user.id, email: user.email },
-        tokens: {
-          accessToken: tokens.accessToken,
-          refreshToken: tokens.refreshToken,
-          expiresIn: tokens.expiresIn,
-        },
+        ...buildLoginData(user, tokens),
+        ...(method === 'recovery_code' ? { remainingRecoveryCodes: await countRemainingRecoveryCodes(user.id) } : {}),
       },
     });
   } catch (error) {
-    if (error instanceof ValidationError || error instanceof AuthenticationError) {
+    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof AccountLockedError) {
       return next(error);
     }
 
-    log.error('Login error', {
+    log.error('MFA verification error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(error);
+  }
+};
+
+/**
+ * Verify a user's email address with the token from the verification email
+ */
+export const verifyEmail = async (req: TokenRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token } = req.body;
+    if (!token || typeof token !== 'string') {
+      throw new ValidationError('Token is required');
+    }
+
+    const userId = await consumeUserToken(token, 'email_verification');
+    await User.update({ emailVerifiedAt: new Date() }, { where: { id: userId, emailVerifiedAt: null } });
+
+    log.info('Email verified successfully', { userId });
+
+    res.status(200).json({
+      success: true,
+      message: 'Email verified successfully. You can now log in.',
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return next(error);
+    }
+
+    log.error('Email verification error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(error);
+  }
+};
+
+/**
+ * Send a new verification email
+ * Responds the same whether or not the address is registered or already verified
+ */
+export const resendVerification = async (req: EmailRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+    if (!email || typeof email !== 'string') {
+      throw new ValidationError('Email is required');
+    }
+
+    const user = await User.findOne({ where: { email } });
+    if (user && !user.emailVerifiedAt) {
+      await requestEmailVerification(user);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'If the address is registered and not yet verified, a verification email has been sent.',
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return next(error);
+    }
+
+    log.error('Resend verification error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(error);
+  }
+};
+
+/**
+ * Email a password reset link
+ * Responds the same whether or not the address is registered
+ */
+export const forgotPassword = async (req: EmailRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+    if (!email || typeof email !== 'string') {
+      throw new ValidationError('Email is required');
+    }
+
+    const user = await User.findOne({ where: { email } });
+    if (user) {
+      try {
+        const token = await createUserToken(user.id, 'password_reset');
+        await sendPasswordResetEmail(user, token);
+        log.info('Password reset requested', { userId: user.id });
+      } catch (error) {
+        log.error('Failed to send password reset email', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          userId: user.id,
+        });
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'If the address is registered, a password reset email has been sent.',
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return next(error);
+    }
+
+    log.error('Forgot password error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(error);
+  }
+};
+
+/**
+ * Set a new password with the token from the password reset email
+ * Every session of the user is revoked; since the reset link proves ownership
+ * of the address, it also verifies it and lifts a lockout
+ */
+export const resetPassword = async (req: ResetPasswordRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+    if (!token || typeof token !== 'string') {
+      throw new ValidationError('Token is required');
+    }
+    if (typeof password !== 'string' || password.length < 6 || password.length > 255) {
+      throw new ValidationError('Password must be between 6 and 255 characters');
+    }
+
+    const userId = await consumeUserToken(token, 'password_reset');
+    const user = await User.findByPk(userId);
+    if (!user) {
+      throw new ValidationError('Invalid or expired token');
+    }
+
+    user.password = password;
+    if (!user.emailVerifiedAt) {
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+    await revokeAllSessions(user.id, 'password_reset');
+    await unlockAccount(user, { actorId: user.id, ipAddress: req.ip ?? null, reason: 'password_reset' });
+
+    log.info('Password reset successfully', { userId: user.id });
+
+    res.status(200).json({
+      success: true,
+      message: 'Password reset successfully. You can now log in with your new password.',
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return next(error);
+    }
+
+    log.error('Reset password error', {
       error: error instanceof Error ? error.message : 'Unknown error',
-      email: req.body.email,
     });
     return next(error);
   }
@@ -113,6 +557,7 @@ export const login = async (req: LoginRequest, res: Response, next: NextFunction
 
 /**
  * Refresh access token
+ * Rotates the refresh token: the presented token is revoked and a new one issued in the same session
  */
 export const refreshToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -122,17 +567,7 @@ export const refreshToken = async (req: Request, res: Response, next: NextFuncti
       throw new ValidationError('Refresh token is required');
     }
 
-    // Verify the refresh token
-    const decoded = verifyRefreshToken(refreshToken);
-
-    // Check if user exists
-    const user = await User.findByPk(decoded.userId);
-    if (!user) {
-      throw new NotFoundError('User not found');
-    }
-
-    // Generate new tokens
-    const tokens = generateTokens(user.id, user.email);
+    const { user, tokens } = await rotateRefreshToken(refreshToken, getSessionContext(req));
 
     log.info('Token refreshed successfully', { userId: user.id });
 
@@ -140,7 +575,7 @@ export const refreshToken = async (req: Request, res: Response, next: NextFuncti
       success: true,
       message: 'Token refreshed successfully',
       data: {
-        user: { id: user.id, email: user.email },
+        user: { id: user.id, email: user.email, role: user.role },
         tokens: {
           accessToken: tokens.accessToken,
           refreshToken: tokens.refreshToken,
@@ -149,7 +584,7 @@ export const refreshToken = async (req: Request, res: Response, next: NextFuncti
       },
     });
   } catch (error) {
-    if (error instanceof ValidationError || error instanceof NotFoundError) {
+    if (error instanceof ValidationError || error instanceof AuthenticationError) {
       return next(error);
     }
 
@@ -162,12 +597,16 @@ export const refreshToken = async (req: Request, res: Response, next: NextFuncti
 
 /**
  * Logout user
+ * Revokes the session the access token belongs to, with its refresh tokens
  */
-export const logout = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const logout = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    // In a more sophisticated implementation, you might want to blacklist the refresh token
-    // For now, we'll just return a success response
-    log.info('User logged out successfully');
+    const { id: userId, sessionId } = req.user!;
+    if (sessionId) {
+      await revokeSession(userId, sessionId, 'logout');
+    }
+
+    log.info('User logged out successfully', { userId, sessionId });
 
     res.status(200).json({
       success: true,
@@ -181,6 +620,282 @@ export const logout = async (_req: Request, res: Response, next: NextFunction):
   }
 };
 
+/**
+ * Logout user from all devices
+ * Revokes every session of the user, including the current one
+ */
+export const logoutAll = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+    const sessionsRevoked = await revokeAllSessions(userId, 'logout_all');
+
+    log.info('User logged out of all sessions', { userId, sessionsRevoked });
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out of all sessions',
+      data: { sessionsRevoked },
+    });
+  } catch (error) {
+    log.error('Logout all error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(error);
+  }
+};
+
+/**
+ * List the user's active sessions
+ */
+export const getSessions = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const sessions = await listActiveSessions(req.user!.id, req.user!.sessionId);
+
+    const response: ApiResponse<ActiveSession[]> = {
+      success: true,
+      data: sessions,
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    log.error('Get sessions error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(error);
+  }
+};
+
+/**
+ * Revoke one of the user's sessions, logging that device out
+ */
+export const deleteSession = async (req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+    const sessionId = req.params.id;
+
+    const revoked = UUID_PATTERN.test(sessionId) && await revokeSession(userId, sessionId, 'logout');
+    if (!revoked) {
+      throw new NotFoundError('Session not found');
+    }
+
+    log.info('Session revoked successfully', { userId, sessionId });
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return next(error);
+    }
+
+    log.error('Revoke session error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      sessionId: req.params.id,
+    });
+    return next(error);
+  }
+};
+
+/**
+ * Start TOTP enrollment: generate a secret and the otpauth URI for authenticator apps
+ * MFA is only enabled once a code from the app is confirmed; starting again replaces the secret
+ */
+export const setupMfa = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = await User.findByPk(req.user!.id);
+    if (!user) {
+      throw new AuthenticationError('Unauthorized');
+    }
+    if (user.mfaEnabledAt) {
+      throw new ConflictError('MFA is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await user.update({ mfaSecret: secret, mfaLastUsedStep: null });
+
+    log.info('MFA enrollment started', { userId: user.id });
+
+    res.status(200).json({
+      success: true,
+      message: 'Add the secret to your authenticator app, then confirm with a code from it',
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, process.env['MFA_ISSUER'] || 'Cost Monitoring'),
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthenticationError || error instanceof ConflictError) {
+      return next(error);
+    }
+
+    log.error('MFA setup error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(error);
+  }
+};
+
+/**
+ * Finish TOTP enrollment with a code from the authenticator app
+ * Returns the recovery codes, which are not shown again
+ */
+export const confirmMfa = async (req: MfaCodeRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      throw new ValidationError('Code is required');
+    }
+
+    const user = await User.findByPk(req.user!.id);
+    if (!user) {
+      throw new AuthenticationError('Unauthorized');
+    }
+    if (user.mfaEnabledAt) {
+      throw new ConflictError('MFA is already enabled');
+    }
+    if (!user.mfaSecret) {
+      throw new ConflictError('MFA setup has not been started');
+    }
+    const activeLockout = getActiveLockout(user);
+    if (activeLockout) {
+      throw new AccountLockedError(activeLockout);
+    }
+    if (!await verifyUserTotp(user, code)) {
+      await rejectConfirmation(user, req.ip ?? null, new ValidationError('Invalid MFA code', [{ field: 'code', message: 'Code does not match the authenticator' }]));
+    }
+
+    const recoveryCodes = await sequelize.transaction(async (transaction) => {
+      await user.update({ mfaEnabledAt: new Date() }, { transaction });
+      await recordAuditEvent({
+        action: 'mfa_enabled',
+        userId: user.id,
+        actorId: user.id,
+        ipAddress: req.ip ?? null,
+      }, transaction);
+      return generateRecoveryCodes(user.id, transaction);
+    });
+
+    log.info('MFA enabled', { userId: user.id });
+
+    res.status(200).json({
+      success: true,
+      message: 'MFA enabled. Store the recovery codes somewhere safe; each can be used once instead of a code.',
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof ConflictError || error instanceof AccountLockedError) {
+      return next(error);
+    }
+
+    log.error('MFA confirmation error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(error);
+  }
+};
+
+/**
+ * Turn MFA off; needs the password and a TOTP or recovery code
+ */
+export const disableMfa = async (req: DisableMfaRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { password, code } = req.body;
+    if (!password || typeof password !== 'string' || !code || typeof code !== 'string') {
+      throw new ValidationError('Password and code are required');
+    }
+
+    const user = await User.findByPk(req.user!.id);
+    if (!user) {
+      throw new AuthenticationError('Unauthorized');
+    }
+    if (!user.mfaEnabledAt) {
+      throw new ConflictError('MFA is not enabled');
+    }
+    const activeLockout = getActiveLockout(user);
+    if (activeLockout) {
+      throw new AccountLockedError(activeLockout);
+    }
+    if (!await user.comparePassword(password)) {
+      await rejectConfirmation(user, req.ip ?? null, new ValidationError('Invalid password', [{ field: 'password', message: 'Password is incorrect' }]));
+    }
+    if (!await verifyMfaCode(user, code, req.ip ?? null)) {
+      await rejectConfirmation(user, req.ip ?? null, new ValidationError('Invalid MFA code', [{ field: 'code', message: 'Code is not a valid TOTP or recovery code' }]));
+    }
+    await resetFailedLogins(user);
+
+    await disableUserMfa(user, { actorId: user.id, ipAddress: req.ip ?? null, reason: 'user' });
+
+    log.info('MFA disabled', { userId: user.id });
+
+    res.status(200).json({
+      success: true,
+      message: 'MFA disabled',
+    });
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof ConflictError || error instanceof AccountLockedError) {
+      return next(error);
+    }
+
+    log.error('MFA disable error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(error);
+  }
+};
+
+/**
+ * Replace the recovery codes with a new set; needs a TOTP code
+ */
+export const regenerateRecoveryCodes = async (req: MfaCodeRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      throw new ValidationError('Code is required');
+    }
+
+    const user = await User.findByPk(req.user!.id);
+    if (!user) {
+      throw new AuthenticationError('Unauthorized');
+    }
+    if (!user.mfaEnabledAt) {
+      throw new ConflictError('MFA is not enabled');
+    }
+    const activeLockout = getActiveLockout(user);
+    if (activeLockout) {
+      throw new AccountLockedError(activeLockout);
+    }
+    if (!await verifyUserTotp(user, code)) {
+      await rejectConfirmation(user, req.ip ?? null, new ValidationError('Invalid MFA code', [{ field: 'code', message: 'Code does not match the authenticator' }]));
+    }
+
+    const recoveryCodes = await sequelize.transaction(async (transaction) => {
+      await recordAuditEvent({
+        action: 'mfa_recovery_codes_regenerated',
+        userId: user.id,
+        actorId: user.id,
+        ipAddress: req.ip ?? null,
+      }, transaction);
+      return generateRecoveryCodes(user.id, transaction);
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Recovery codes regenerated. The previous codes no longer work.',
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof AuthenticationError || error instanceof ConflictError || error instanceof AccountLockedError) {
+      return next(error);
+    }
+
+    log.error('Recovery code regeneration error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(error);
+  }
+};
+
 /**
  * Get current user profile
  */
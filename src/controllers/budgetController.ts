@@ -0,0 +1,284 @@
+import { Response, NextFunction } from 'express';
+import Budget from '../models/Budget';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  ApiResponse,
+  BudgetCreationAttributes,
+  BudgetStatus,
+  BUDGET_PERIODS,
+} from '../types';
+import { log } from '../utils/logger';
+import {
+  NotFoundError,
+  ValidationError,
+  AuthorizationError,
+  DatabaseError,
+} from '../utils/errors';
+import { assertAccountReadAccess } from '../utils/accountAccess';
+import { computeBudgetStatus } from '../utils/budgetStatus';
+import { isDateString, parseDateString } from '../utils/dates';
+
+type BudgetInput = Partial<Omit<BudgetCreationAttributes, 'id' | 'userId'>>;
+
+const BUDGET_FIELDS: Array<keyof BudgetInput> = ['name', 'amount', 'period', 'accountId', 'serviceName', 'region', 'alertThresholds'];
+
+/**
+ * Validate a budget payload
+ * On create every required field must be present; on update only provided fields are checked
+ */
+const validateBudgetInput = (body: BudgetInput, isUpdate: boolean): BudgetInput => {
+  const errors: Array<{ field: string; message: string }> = [];
+
+  if (!isUpdate || body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      errors.push({ field: 'name', message: 'Name is required' });
+    }
+  }
+
+  if (!isUpdate || body.amount !== undefined) {
+    if (!Number.isFinite(Number(body.amount)) || Number(body.amount) <= 0) {
+      errors.push({ field: 'amount', message: 'Amount must be a positive number' });
+    }
+  }
+
+  if (!isUpdate || body.period !== undefined) {
+    if (!body.period || !BUDGET_PERIODS.includes(body.period)) {
+      errors.push({ field: 'period', message: `Period must be one of: ${BUDGET_PERIODS.join(', ')}` });
+    }
+  }
+
+  if (body.alertThresholds !== undefined) {
+    if (!Array.isArray(body.alertThresholds)
+      || !body.alertThresholds.every((threshold) => Number.isInteger(threshold) && threshold > 0 && threshold <= 1000)) {
+      errors.push({ field: 'alertThresholds', message: 'Alert thresholds must be whole percentages between 1 and 1000' });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid budget', errors);
+  }
+
+  const input: Record<string, unknown> = {};
+  BUDGET_FIELDS.forEach((field) => {
+    if (body[field] !== undefined) {
+      input[field] = body[field] === '' ? null : body[field];
+    }
+  });
+  return input as BudgetInput;
+};
+
+/**
+ * Load a budget the caller may access
+ * Budgets belong to their creator; admins can access every budget
+ */
+const findAccessibleBudget = async (id: string, user: NonNullable<AuthenticatedRequest['user']>): Promise<Budget> => {
+  const budget = await Budget.findByPk(id);
+  if (!budget || (budget.userId !== user.id && user.role !== 'admin')) {
+    throw new NotFoundError('Budget not found');
+  }
+  return budget;
+};
+
+/**
+ * Budget Controller
+ * Handles budget CRUD and actual-vs-budget reporting
+ */
+const budgetController = {
+  /**
+   * GET /api/budgets
+   * List the caller's budgets (all budgets for admins)
+   */
+  async getBudgets(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const whereClause = req.user!.role === 'admin' ? {} : { userId: req.user!.id };
+      const budgets = await Budget.findAll({
+        where: whereClause,
+        order: [['name', 'ASC']],
+      });
+
+      const response: ApiResponse<Budget[]> = {
+        success: true,
+        data: budgets,
+      };
+
+      log.info('Budgets fetched successfully', { count: budgets.length, userId: req.user!.id });
+
+      res.json(response);
+    } catch (error) {
+      log.error('Error fetching budgets', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to fetch budgets'));
+    }
+  },
+
+  /**
+   * GET /api/budgets/:id
+   * Get a single budget
+   */
+  async getBudget(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const budget = await findAccessibleBudget(req.params.id, req.user!);
+
+      const response: ApiResponse<Budget> = {
+        success: true,
+        data: budget,
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error fetching budget', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        budgetId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to fetch budget'));
+    }
+  },
+
+  /**
+   * GET /api/budgets/:id/status
+   * Actual spend to date, percentage consumed and forecast end-of-period spend
+   * Accepts an optional `asOf` date (YYYY-MM-DD) to report on a past period
+   */
+  async getBudgetStatus(req: AuthenticatedRequest<{ id: string }, object, object, { asOf?: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { asOf } = req.query;
+      if (asOf !== undefined && !isDateString(asOf)) {
+        throw new ValidationError('asOf must be a date in YYYY-MM-DD format');
+      }
+
+      const budget = await findAccessibleBudget(req.params.id, req.user!);
+      const status = await computeBudgetStatus(budget, asOf ? parseDateString(asOf) : new Date());
+
+      const response: ApiResponse<BudgetStatus> = {
+        success: true,
+        data: status,
+      };
+
+      log.info('Budget status computed successfully', {
+        budgetId: budget.id,
+        actualSpend: status.actualSpend,
+        percentConsumed: status.percentConsumed,
+      });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error computing budget status', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        budgetId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to compute budget status'));
+    }
+  },
+
+  /**
+   * POST /api/budgets
+   * Create a budget owned by the caller
+   */
+  async createBudget(req: AuthenticatedRequest<object, object, BudgetInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const input = validateBudgetInput(req.body, false);
+      await assertAccountReadAccess(req.user!.id, input.accountId);
+
+      const budget = await Budget.create({
+        ...input,
+        userId: req.user!.id,
+      } as BudgetCreationAttributes);
+
+      const response: ApiResponse<Budget> = {
+        success: true,
+        data: budget,
+        message: 'Budget created successfully',
+      };
+
+      log.info('Budget created successfully', { budgetId: budget.id, userId: req.user!.id });
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof AuthorizationError) {
+        return next(error);
+      }
+
+      log.error('Error creating budget', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        data: req.body,
+      });
+      return next(new DatabaseError('Failed to create budget'));
+    }
+  },
+
+  /**
+   * PUT /api/budgets/:id
+   * Update a budget
+   */
+  async updateBudget(req: AuthenticatedRequest<{ id: string }, object, BudgetInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const input = validateBudgetInput(req.body, true);
+      const budget = await findAccessibleBudget(req.params.id, req.user!);
+      await assertAccountReadAccess(req.user!.id, input.accountId);
+
+      await budget.update(input);
+
+      const response: ApiResponse<Budget> = {
+        success: true,
+        data: budget,
+        message: 'Budget updated successfully',
+      };
+
+      log.info('Budget updated successfully', { budgetId: budget.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError || error instanceof AuthorizationError) {
+        return next(error);
+      }
+
+      log.error('Error updating budget', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        budgetId: req.params.id,
+        data: req.body,
+      });
+      return next(new DatabaseError('Failed to update budget'));
+    }
+  },
+
+  /**
+   * DELETE /api/budgets/:id
+   * Delete a budget
+   */
+  async deleteBudget(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const budget = await findAccessibleBudget(req.params.id, req.user!);
+      await budget.destroy();
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Budget deleted successfully',
+      };
+
+      log.info('Budget deleted successfully', { budgetId: budget.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error deleting budget', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        budgetId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to delete budget'));
+    }
+  },
+};
+
+export default budgetController;
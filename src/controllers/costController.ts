@@ -1,17 +1,414 @@
-import { Op, fn, col } from 'sequelize';
-import { Request, Response, NextFunction } from 'express';
+import {
+  fn, col, cast, UniqueConstraintError,
+} from 'sequelize';
+import { Response, NextFunction } from 'express';
+import sequelize from '../config/database';
 import CostRecord from '../models/CostRecord';
+import AllocationRule from '../models/AllocationRule';
+import { AuthenticatedRequest } from '../middleware/auth';
 import {
   FilterQuery,
+  ExportQuery,
   CostSummaryItem,
+  ProviderCostSummaryItem,
+  SummaryQuery,
+  TagCostSummaryItem,
   CostTrendItem,
+  CostTrendBucketItem,
+  CostTrendSeriesResponse,
+  TrendGranularity,
+  TREND_GRANULARITIES,
+  TrendQuery,
+  ExportTrendQuery,
+  AllocationQuery,
+  CostAllocationReport,
+  AggregateQuery,
+  AggregateDimension,
+  AGGREGATE_DIMENSIONS,
+  AggregateFunction,
+  AGGREGATE_FUNCTIONS,
+  CostAggregation,
+  CompareQuery,
+  CompareDimension,
+  COMPARE_DIMENSIONS,
+  ComparePreset,
+  COMPARE_PRESETS,
+  CostComparison,
+  AnomalyQuery,
+  AnomalyMethod,
+  CostDimension,
+  COST_DIMENSIONS,
+  ANOMALY_METHODS,
+  CostAnomalyItem,
+  ForecastQuery,
+  ForecastMethod,
+  FORECAST_METHODS,
+  CostForecast,
   AvailableFilters,
   ApiResponse,
   PaginatedResponse,
   CostRecordCreationAttributes,
+  CloudProvider,
+  CLOUD_PROVIDERS,
+  ImportReport,
+  ImportRowError,
 } from '../types';
 import { log } from '../utils/logger';
-import { NotFoundError, DatabaseError } from '../utils/errors';
+import {
+  NotFoundError, DatabaseError, AuthorizationError, ValidationError,
+} from '../utils/errors';
+import { getAccessibleAccountIds, scopeAccountFilter, assertAccountWriteAccess } from '../utils/accountAccess';
+import { parseCurCsv, ParsedCostFile, ParsedCostRow } from '../utils/costImport';
+import { parseAzureCostCsv } from '../utils/azureCostImport';
+import { parseGcpBillingExport } from '../utils/gcpBillingImport';
+import {
+  isCostAmountInRange,
+  mergeByNaturalKey,
+  upsertCostRecords,
+  wasInserted,
+} from '../utils/costIngestion';
+import {
+  COST_DIMENSION_ATTRIBUTES,
+  COMPARE_DIMENSION_ATTRIBUTES,
+  buildCostWhereClause,
+  fetchCostAggregateGroups,
+  fetchAvailableTags,
+  fetchCostByDimension,
+  fetchCostSummaryByService,
+  fetchCostSummaryByProvider,
+  fetchCostSummaryByTag,
+  fetchCostTrendBuckets,
+  fetchDailyCostTrends,
+  fetchDailyCostByDimension,
+  forEachCostRecordBatch,
+} from '../utils/costQueries';
+import { rankAggregateGroups } from '../utils/costAggregation';
+import { getTagKey, isValidTagKey } from '../utils/costTags';
+import { allocateCosts, getAllocationDimensions } from '../utils/costAllocation';
+import { buildCostComparison, getBaselineRange } from '../utils/costComparison';
+import { detectCostAnomalies, AnomalyDetectionOptions } from '../utils/anomalyDetection';
+import {
+  FORECAST_CONFIDENCE_LEVELS,
+  MIN_LINEAR_HISTORY_DAYS,
+  forecastDailyCosts,
+  projectPeriodSpend,
+  sumForecastPoints,
+  toContinuousSeries,
+} from '../utils/costForecast';
+import { getPeriodBounds } from '../utils/budgetStatus';
+import {
+  addDays, daysInclusive, isDateString, parseDateString, toDateString,
+} from '../utils/dates';
+import { ExportAbortedError, ExportWriter, resolveExportFormat } from '../utils/exportFormat';
+import {
+  assertExchangeRatesAvailable,
+  costAmountColumn,
+  getReportingCurrency,
+  parseCurrencyParam,
+} from '../utils/exchangeRates';
+
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * Billing export parser for each provider's import format
+ */
+const COST_FILE_PARSERS: Record<CloudProvider, (content: Buffer) => Promise<ParsedCostFile>> = {
+  aws: parseCurCsv,
+  azure: parseAzureCostCsv,
+  gcp: parseGcpBillingExport,
+};
+
+const EXPORT_RECORD_COLUMNS = ['id', 'provider', 'date', 'serviceName', 'costAmount', 'region', 'accountId', 'resourceId', 'usageType', 'description', 'currency', 'tags'];
+
+/**
+ * Parse and validate the trend `granularity` and `groupBy` parameters
+ * Returns null when neither is given so the original daily response is kept
+ */
+const parseTrendOptions = (query: TrendQuery): { granularity: TrendGranularity; groupBy: CostDimension | null } | null => {
+  const { granularity, groupBy } = query;
+  if (granularity === undefined && groupBy === undefined) {
+    return null;
+  }
+
+  const errors: Array<{ field: string; message: string }> = [];
+  if (granularity !== undefined && !TREND_GRANULARITIES.includes(granularity as TrendGranularity)) {
+    errors.push({ field: 'granularity', message: `granularity must be one of: ${TREND_GRANULARITIES.join(', ')}` });
+  }
+  if (groupBy !== undefined && !COST_DIMENSIONS.includes(groupBy as CostDimension)) {
+    errors.push({ field: 'groupBy', message: `groupBy must be one of: ${COST_DIMENSIONS.join(', ')}` });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid trend parameters', errors);
+  }
+
+  return {
+    granularity: (granularity ?? 'day') as TrendGranularity,
+    groupBy: (groupBy ?? null) as CostDimension | null,
+  };
+};
+
+/**
+ * Shape trend buckets into one series per group, each with a point for every period
+ * so the series can be stacked directly; series are ordered by total cost
+ */
+const toTrendSeries = (
+  buckets: CostTrendBucketItem[],
+  granularity: TrendGranularity,
+  groupBy: CostDimension | null,
+): CostTrendSeriesResponse => {
+  const periods = Array.from(new Set(buckets.map((bucket) => bucket.period))).sort();
+  const costsByGroup = new Map<string, Map<string, number>>();
+
+  buckets.forEach((bucket) => {
+    const name = bucket.group ?? 'Total';
+    const costs = costsByGroup.get(name) ?? new Map<string, number>();
+    costs.set(bucket.period, bucket.cost);
+    costsByGroup.set(name, costs);
+  });
+
+  const series = Array.from(costsByGroup.entries()).map(([name, costs]) => {
+    const points = periods.map((period) => ({ period, cost: costs.get(period) ?? 0 }));
+    const totalCost = points.reduce((total, point) => total + point.cost, 0);
+    return { name, totalCost: Math.round(totalCost * 100) / 100, points };
+  });
+
+  return {
+    granularity,
+    groupBy,
+    periods,
+    series: series.sort((a, b) => b.totalCost - a.totalCost),
+  };
+};
+
+/**
+ * Read a list parameter given either repeated (a=x&a=y) or comma-separated (a=x,y)
+ */
+const toList = (value: string | string[] | undefined): string[] => (Array.isArray(value) ? value : [value ?? ''])
+  .flatMap((item) => item.split(','))
+  .map((item) => item.trim())
+  .filter((item) => item !== '');
+
+/**
+ * Parse and validate the aggregation parameters, applying defaults
+ */
+const parseAggregateOptions = (query: AggregateQuery): Omit<CostAggregation, 'currency' | 'totalGroups' | 'rows'> => {
+  const groupBy = toList(query.groupBy);
+  const aggregateList = toList(query.aggregate);
+  const aggregates = aggregateList.length > 0 ? aggregateList : ['sum'];
+  const sortBy = query.sortBy ?? aggregates[0];
+  const { granularity, top } = query;
+  const errors: Array<{ field: string; message: string }> = [];
+
+  if (groupBy.length === 0) {
+    errors.push({ field: 'groupBy', message: 'At least one groupBy dimension is required' });
+  }
+  if (groupBy.some((dimension) => !AGGREGATE_DIMENSIONS.includes(dimension as AggregateDimension) && !getTagKey(dimension))) {
+    errors.push({ field: 'groupBy', message: `groupBy dimensions must be from: ${AGGREGATE_DIMENSIONS.join(', ')}, tag:<key>` });
+  }
+  if (new Set(groupBy).size !== groupBy.length) {
+    errors.push({ field: 'groupBy', message: 'groupBy dimensions must not repeat' });
+  }
+  if (aggregates.some((aggregate) => !AGGREGATE_FUNCTIONS.includes(aggregate as AggregateFunction))) {
+    errors.push({ field: 'aggregate', message: `aggregate must be from: ${AGGREGATE_FUNCTIONS.join(', ')}` });
+  }
+  if (!AGGREGATE_FUNCTIONS.includes(sortBy as AggregateFunction)) {
+    errors.push({ field: 'sortBy', message: `sortBy must be one of: ${AGGREGATE_FUNCTIONS.join(', ')}` });
+  }
+  if (granularity !== undefined && !TREND_GRANULARITIES.includes(granularity as TrendGranularity)) {
+    errors.push({ field: 'granularity', message: `granularity must be one of: ${TREND_GRANULARITIES.join(', ')}` });
+  }
+  if (top !== undefined && (!Number.isInteger(Number(top)) || Number(top) < 1 || Number(top) > 1000)) {
+    errors.push({ field: 'top', message: 'top must be a whole number between 1 and 1000' });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid aggregation parameters', errors);
+  }
+
+  return {
+    groupBy: groupBy as AggregateDimension[],
+    granularity: groupBy.includes('date') ? (granularity ?? 'day') as TrendGranularity : null,
+    aggregates: Array.from(new Set(aggregates)) as AggregateFunction[],
+    sortBy: sortBy as AggregateFunction,
+    top: top !== undefined ? Number(top) : null,
+  };
+};
+
+/**
+ * Parse and validate the comparison parameters
+ * The baseline is either an explicit compareStartDate/compareEndDate range or
+ * a `compareTo` preset relative to startDate/endDate (previous period by default)
+ */
+const parseCompareOptions = (query: CompareQuery): {
+  groupBy: CompareDimension;
+  current: { startDate: string; endDate: string };
+  baseline: { startDate: string; endDate: string };
+} => {
+  const {
+    startDate, endDate, compareStartDate, compareEndDate, compareTo, groupBy = 'service',
+  } = query;
+  const errors: Array<{ field: string; message: string }> = [];
+  const hasExplicitBaseline = compareStartDate !== undefined || compareEndDate !== undefined;
+
+  if (!isDateString(startDate) || !isDateString(endDate)) {
+    errors.push({ field: 'startDate', message: 'startDate and endDate are required in YYYY-MM-DD format' });
+  } else if (startDate > endDate) {
+    errors.push({ field: 'endDate', message: 'endDate must not be before startDate' });
+  }
+
+  if (hasExplicitBaseline) {
+    if (compareTo !== undefined) {
+      errors.push({ field: 'compareTo', message: 'Use either compareTo or compareStartDate/compareEndDate, not both' });
+    }
+    if (!isDateString(compareStartDate) || !isDateString(compareEndDate)) {
+      errors.push({ field: 'compareStartDate', message: 'compareStartDate and compareEndDate are required together in YYYY-MM-DD format' });
+    } else if (compareStartDate > compareEndDate) {
+      errors.push({ field: 'compareEndDate', message: 'compareEndDate must not be before compareStartDate' });
+    }
+  } else if (compareTo !== undefined && !COMPARE_PRESETS.includes(compareTo as ComparePreset)) {
+    errors.push({ field: 'compareTo', message: `compareTo must be one of: ${COMPARE_PRESETS.join(', ')}` });
+  }
+
+  if (!COMPARE_DIMENSIONS.includes(groupBy as CompareDimension)) {
+    errors.push({ field: 'groupBy', message: `groupBy must be one of: ${COMPARE_DIMENSIONS.join(', ')}` });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid comparison parameters', errors);
+  }
+
+  const current = { startDate: startDate!, endDate: endDate! };
+  return {
+    groupBy: groupBy as CompareDimension,
+    current,
+    baseline: hasExplicitBaseline
+      ? { startDate: compareStartDate!, endDate: compareEndDate! }
+      : getBaselineRange(current.startDate, current.endDate, (compareTo ?? 'previous_period') as ComparePreset),
+  };
+};
+
+/**
+ * Parse and validate the anomaly detection query parameters, applying defaults
+ */
+const parseAnomalyOptions = (query: AnomalyQuery): AnomalyDetectionOptions => {
+  const {
+    groupBy = 'service', method = 'mad', window = '14', sensitivity = '3', startDate, endDate,
+  } = query;
+  const errors: Array<{ field: string; message: string }> = [];
+  const windowDays = Number(window);
+  const sensitivityValue = Number(sensitivity);
+
+  if (!COST_DIMENSIONS.includes(groupBy as CostDimension)) {
+    errors.push({ field: 'groupBy', message: `groupBy must be one of: ${COST_DIMENSIONS.join(', ')}` });
+  }
+  if (!ANOMALY_METHODS.includes(method as AnomalyMethod)) {
+    errors.push({ field: 'method', message: `method must be one of: ${ANOMALY_METHODS.join(', ')}` });
+  }
+  if (!Number.isInteger(windowDays) || windowDays < 3 || windowDays > 90) {
+    errors.push({ field: 'window', message: 'window must be a whole number of days between 3 and 90' });
+  }
+  if (!Number.isFinite(sensitivityValue) || sensitivityValue <= 0) {
+    errors.push({ field: 'sensitivity', message: 'sensitivity must be a positive number' });
+  }
+  if (startDate !== undefined && !isDateString(startDate)) {
+    errors.push({ field: 'startDate', message: 'startDate must be a date in YYYY-MM-DD format' });
+  }
+  if (endDate !== undefined && !isDateString(endDate)) {
+    errors.push({ field: 'endDate', message: 'endDate must be a date in YYYY-MM-DD format' });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid anomaly detection parameters', errors);
+  }
+
+  const options: AnomalyDetectionOptions = {
+    dimension: groupBy as CostDimension,
+    method: method as AnomalyMethod,
+    window: windowDays,
+    sensitivity: sensitivityValue,
+  };
+  if (startDate) {
+    options.reportFrom = startDate;
+  }
+  return options;
+};
+
+const DEFAULT_FORECAST_HISTORY_DAYS = 90;
+
+/**
+ * Parse and validate the forecast query parameters, applying defaults
+ * History defaults to the 90 days ending yesterday, the last complete day
+ */
+const parseForecastOptions = (query: ForecastQuery): {
+  method: ForecastMethod; horizon: number; confidence: number; historyStart: string; historyEnd: string;
+} => {
+  const {
+    days = '30', method = 'seasonal', confidence = '0.95', startDate, endDate,
+  } = query;
+  const errors: Array<{ field: string; message: string }> = [];
+  const horizon = Number(days);
+  // Accept both 0.95 and 95
+  const confidenceLevel = Number(confidence) > 1 ? Number(confidence) / 100 : Number(confidence);
+
+  if (!Number.isInteger(horizon) || horizon < 1 || horizon > 365) {
+    errors.push({ field: 'days', message: 'days must be a whole number between 1 and 365' });
+  }
+  if (!FORECAST_METHODS.includes(method as ForecastMethod)) {
+    errors.push({ field: 'method', message: `method must be one of: ${FORECAST_METHODS.join(', ')}` });
+  }
+  if (!FORECAST_CONFIDENCE_LEVELS.includes(confidenceLevel)) {
+    errors.push({ field: 'confidence', message: `confidence must be one of: ${FORECAST_CONFIDENCE_LEVELS.join(', ')}` });
+  }
+  if (startDate !== undefined && !isDateString(startDate)) {
+    errors.push({ field: 'startDate', message: 'startDate must be a date in YYYY-MM-DD format' });
+  }
+  if (endDate !== undefined && !isDateString(endDate)) {
+    errors.push({ field: 'endDate', message: 'endDate must be a date in YYYY-MM-DD format' });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid forecast parameters', errors);
+  }
+
+  const historyEnd = endDate ?? toDateString(addDays(parseDateString(toDateString(new Date())), -1));
+  const historyStart = startDate ?? toDateString(addDays(parseDateString(historyEnd), 1 - DEFAULT_FORECAST_HISTORY_DAYS));
+
+  return {
+    method: method as ForecastMethod,
+    horizon,
+    confidence: confidenceLevel,
+    historyStart,
+    historyEnd,
+  };
+};
+
+const exportFileName = (name: string): string => `${name}-${new Date().toISOString().substring(0, 10)}`;
+
+/**
+ * Finish a failed export
+ * Once streaming has started the status line is already sent, so the connection is cut instead
+ */
+const failExport = (res: Response, next: NextFunction, message: string): void => {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  next(new DatabaseError(message));
+};
+
+/**
+ * Load a cost record in one of the caller's accounts
+ * Records in other accounts are reported as missing, so their ids cannot be probed
+ */
+const findAccessibleCostRecord = async (id: string, userId: number): Promise<CostRecord> => {
+  const allowedAccountIds = await getAccessibleAccountIds(userId);
+  const costRecord = /^\d+$/.test(id) ? await CostRecord.findOne({ where: { id, accountId: allowedAccountIds } }) : null;
+  if (!costRecord) {
+    throw new NotFoundError('Cost record not found');
+  }
+  return costRecord;
+};
 
 /**
  * Cost Controller
@@ -23,7 +420,7 @@ const costController = {
    * Get all cost records with pagination and filtering
    * Supports filtering by date range, service, region, and account
    */
-  async getCostRecords(req: Request<object, object, object, FilterQuery>, res: Response, next: NextFunction): Promise<void> {
+  async getCostRecords(req: AuthenticatedRequest<object, object, object, FilterQuery>, res: Response, next: NextFunction): Promise<void> {
     try {
       const {
         page = '1',
@@ -36,58 +433,20 @@ const costController = {
       } = req.query;
 
       const offset = (parseInt(page, 10) - 1) * parseInt(limit, 10);
-      const whereClause: Record<string, unknown> = {};
-
-      // Build date filter
-      if (startDate && endDate) {
-        whereClause['date'] = {
-          [Op.between]: [startDate, endDate],
-        };
-      } else if (startDate) {
-        whereClause['date'] = {
-          [Op.gte]: startDate,
-        };
-      } else if (endDate) {
-        whereClause['date'] = {
-          [Op.lte]: endDate,
-        };
-      }
-
-      // Add service filter - support multiple values
-      if (serviceName) {
-        if (Array.isArray(serviceName)) {
-          whereClause['serviceName'] = {
-            [Op.in]: serviceName,
-          };
-        } else {
-          whereClause['serviceName'] = serviceName;
-        }
-      }
-
-      // Add region filter - support multiple values
-      if (region) {
-        if (Array.isArray(region)) {
-          whereClause['region'] = {
-            [Op.in]: region,
-          };
-        } else {
-          whereClause['region'] = region;
-        }
-      }
-
-      // Add account filter - support multiple values
-      if (accountId) {
-        if (Array.isArray(accountId)) {
-          whereClause['accountId'] = {
-            [Op.in]: accountId,
-          };
-        } else {
-          whereClause['accountId'] = accountId;
-        }
+      const currency = parseCurrencyParam(req.query.currency);
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+      const whereClause = buildCostWhereClause(req.query, allowedAccountIds);
+      if (currency) {
+        await assertExchangeRatesAvailable(whereClause, currency);
       }
 
       const { count, rows } = await CostRecord.findAndCountAll({
         where: whereClause,
+        ...(currency && {
+          attributes: {
+            include: [[cast(fn('ROUND', costAmountColumn(currency), 2), 'double precision'), 'convertedCostAmount']],
+          },
+        }),
         order: [['date', 'DESC']],
         limit: parseInt(limit, 10),
         offset,
@@ -107,6 +466,7 @@ const costController = {
       log.info('Cost records fetched successfully', {
         count: rows.length,
         totalRecords: count,
+        currency,
         filters: {
           startDate, endDate, serviceName, region, accountId,
         },
@@ -114,6 +474,10 @@ const costController = {
 
       res.json(response);
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
       log.error('Error fetching cost records', {
         error: error instanceof Error ? error.message : 'Unknown error',
         filters: req.query,
@@ -125,81 +489,42 @@ const costController = {
   /**
    * GET /api/costs/summary
    * Get cost summary aggregated by service
-   * Returns total cost and record count per service
+   * Returns total cost and record count per service, per provider with `groupBy=provider`,
+   * or per tag value with `groupBy=tag:<key>`
    */
-  async getCostSummaryByService(req: Request<object, object, object, FilterQuery>, res: Response, next: NextFunction): Promise<void> {
+  async getCostSummaryByService(req: AuthenticatedRequest<object, object, object, SummaryQuery>, res: Response, next: NextFunction): Promise<void> {
     try {
       const {
-        startDate, endDate, region, accountId, serviceName,
+        startDate, endDate, region, accountId, serviceName, groupBy = 'service',
       } = req.query;
-      const whereClause: Record<string, unknown> = {};
-
-      if (startDate && endDate) {
-        whereClause['date'] = {
-          [Op.between]: [startDate, endDate],
-        };
+      const tagKey = getTagKey(groupBy);
+      if (groupBy !== 'service' && groupBy !== 'provider' && !tagKey) {
+        throw new ValidationError('groupBy must be "service", "provider" or "tag:<key>"');
       }
+      const currency = parseCurrencyParam(req.query.currency) ?? getReportingCurrency();
 
-      // Add region filter - support multiple values
-      if (region) {
-        if (Array.isArray(region)) {
-          whereClause['region'] = {
-            [Op.in]: region,
-          };
-        } else {
-          whereClause['region'] = region;
-        }
-      }
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+      const whereClause = buildCostWhereClause(req.query, allowedAccountIds);
+      await assertExchangeRatesAvailable(whereClause, currency);
 
-      // Add account filter - support multiple values
-      if (accountId) {
-        if (Array.isArray(accountId)) {
-          whereClause['accountId'] = {
-            [Op.in]: accountId,
-          };
-        } else {
-          whereClause['accountId'] = accountId;
-        }
+      let formattedSummary: CostSummaryItem[] | ProviderCostSummaryItem[] | TagCostSummaryItem[];
+      if (tagKey) {
+        formattedSummary = await fetchCostSummaryByTag(whereClause, tagKey, currency);
+      } else if (groupBy === 'provider') {
+        formattedSummary = await fetchCostSummaryByProvider(whereClause, currency);
+      } else {
+        formattedSummary = await fetchCostSummaryByService(whereClause, currency);
       }
 
-      // Add service filter - support multiple values
-      if (serviceName) {
-        if (Array.isArray(serviceName)) {
-          whereClause['serviceName'] = {
-            [Op.in]: serviceName,
-          };
-        } else {
-          whereClause['serviceName'] = serviceName;
-        }
-      }
-
-      const summary = await CostRecord.findAll({
-        where: whereClause,
-        attributes: [
-          'serviceName',
-          [fn('SUM', col('cost_amount')), 'totalCost'],
-          [fn('COUNT', col('id')), 'recordCount'],
-        ],
-        group: ['serviceName'],
-        order: [[fn('SUM', col('cost_amount')), 'DESC']],
-      });
-
-      const formattedSummary: CostSummaryItem[] = summary.map((item) => {
-        const dataValues = item.dataValues as unknown as Record<string, unknown>;
-        return {
-          serviceName: dataValues['serviceName'] as string,
-          totalCost: parseFloat(dataValues['totalCost'] as string || '0'),
-          recordCount: parseInt(dataValues['recordCount'] as string || '0', 10),
-        };
-      });
-
-      const response: ApiResponse<CostSummaryItem[]> = {
+      const response: ApiResponse<CostSummaryItem[] | ProviderCostSummaryItem[] | TagCostSummaryItem[]> = {
         success: true,
         data: formattedSummary,
       };
 
       log.info('Cost summary fetched successfully', {
         summaryCount: formattedSummary.length,
+        groupBy,
+        currency,
         filters: {
           startDate, endDate, region, accountId, serviceName,
         },
@@ -207,6 +532,10 @@ const costController = {
 
       res.json(response);
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
       log.error('Error fetching cost summary', {
         error: error instanceof Error ? error.message : 'Unknown error',
         filters: req.query,
@@ -217,72 +546,44 @@ const costController = {
 
   /**
    * GET /api/costs/trends
-   * Get cost trends over time (daily aggregation)
-   * Returns daily cost totals for trend analysis
+   * Get cost trends over time
+   * Returns daily cost totals by default; `granularity` (day, week, month, quarter)
+   * and `groupBy` (service, account, region) return stacked series instead
    */
-  async getCostTrends(req: Request<object, object, object, FilterQuery>, res: Response, next: NextFunction): Promise<void> {
+  async getCostTrends(req: AuthenticatedRequest<object, object, object, TrendQuery>, res: Response, next: NextFunction): Promise<void> {
     try {
       const {
         startDate, endDate, serviceName, region, accountId,
       } = req.query;
-      const whereClause: Record<string, unknown> = {};
+      const trendOptions = parseTrendOptions(req.query);
+      const currency = parseCurrencyParam(req.query.currency) ?? getReportingCurrency();
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+      const whereClause = buildCostWhereClause(req.query, allowedAccountIds);
+      await assertExchangeRatesAvailable(whereClause, currency);
 
-      if (startDate && endDate) {
-        whereClause['date'] = {
-          [Op.between]: [startDate, endDate],
+      if (trendOptions) {
+        const { granularity, groupBy } = trendOptions;
+        const buckets = await fetchCostTrendBuckets(whereClause, granularity, groupBy && COST_DIMENSION_ATTRIBUTES[groupBy], currency);
+        const seriesResponse: ApiResponse<CostTrendSeriesResponse> = {
+          success: true,
+          data: toTrendSeries(buckets, granularity, groupBy),
         };
-      }
 
-      // Add service filter - support multiple values
-      if (serviceName) {
-        if (Array.isArray(serviceName)) {
-          whereClause['serviceName'] = {
-            [Op.in]: serviceName,
-          };
-        } else {
-          whereClause['serviceName'] = serviceName;
-        }
-      }
+        log.info('Cost trends fetched successfully', {
+          bucketCount: buckets.length,
+          granularity,
+          groupBy,
+          currency,
+          filters: {
+            startDate, endDate, serviceName, region, accountId,
+          },
+        });
 
-      // Add region filter - support multiple values
-      if (region) {
-        if (Array.isArray(region)) {
-          whereClause['region'] = {
-            [Op.in]: region,
-          };
-        } else {
-          whereClause['region'] = region;
-        }
+        res.json(seriesResponse);
+        return;
       }
 
-      // Add account filter - support multiple values
-      if (accountId) {
-        if (Array.isArray(accountId)) {
-          whereClause['accountId'] = {
-            [Op.in]: accountId,
-          };
-        } else {
-          whereClause['accountId'] = accountId;
-        }
-      }
-
-      const trends = await CostRecord.findAll({
-        where: whereClause,
-        attributes: [
-          'date',
-          [fn('SUM', col('cost_amount')), 'dailyCost'],
-        ],
-        group: ['date'],
-        order: [['date', 'ASC']],
-      });
-
-      const formattedTrends: CostTrendItem[] = trends.map((item) => {
-        const dataValues = item.dataValues as unknown as Record<string, unknown>;
-        return {
-          date: new Date(dataValues['date'] as string),
-          dailyCost: parseFloat(dataValues['dailyCost'] as string || '0'),
-        };
-      });
+      const formattedTrends = await fetchDailyCostTrends(whereClause, currency);
 
       const response: ApiResponse<CostTrendItem[]> = {
         success: true,
@@ -291,6 +592,7 @@ const costController = {
 
       log.info('Cost trends fetched successfully', {
         trendsCount: formattedTrends.length,
+        currency,
         filters: {
           startDate, endDate, serviceName, region, accountId,
         },
@@ -298,6 +600,10 @@ const costController = {
 
       res.json(response);
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
       log.error('Error fetching cost trends', {
         error: error instanceof Error ? error.message : 'Unknown error',
         filters: req.query,
@@ -306,32 +612,484 @@ const costController = {
     }
   },
 
+  /**
+   * GET /api/costs/aggregate
+   * Aggregate costs over any combination of dimensions
+   * Supports sum, avg, min, max and count, with optional top-N and an "Other" bucket
+   * Amounts are converted to `currency`, the reporting currency by default
+   */
+  async getCostAggregation(req: AuthenticatedRequest<object, object, object, AggregateQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const options = parseAggregateOptions(req.query);
+      const currency = parseCurrencyParam(req.query.currency) ?? getReportingCurrency();
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+      const whereClause = buildCostWhereClause(req.query, allowedAccountIds);
+      await assertExchangeRatesAvailable(whereClause, currency);
+
+      const groups = await fetchCostAggregateGroups(whereClause, options.groupBy, currency, options.granularity ?? 'day');
+      const rows = rankAggregateGroups(groups, {
+        dimensions: options.groupBy,
+        aggregates: options.aggregates,
+        sortBy: options.sortBy,
+        top: options.top,
+      });
+
+      const response: ApiResponse<CostAggregation> = {
+        success: true,
+        data: {
+          currency,
+          ...options,
+          totalGroups: groups.length,
+          rows,
+        },
+      };
+
+      log.info('Cost aggregation computed successfully', {
+        groupBy: options.groupBy,
+        aggregates: options.aggregates,
+        totalGroups: groups.length,
+      });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error aggregating costs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters: req.query,
+      });
+      return next(new DatabaseError('Failed to aggregate costs'));
+    }
+  },
+
+  /**
+   * GET /api/costs/allocation
+   * Showback report: each team's direct cost plus its share of costs matched by allocation rules
+   * Teams are the values of the `tagKey` tag (default `team`); the period defaults to the current month
+   * Amounts are converted to `currency`, the reporting currency by default
+   */
+  async getCostAllocation(req: AuthenticatedRequest<object, object, object, AllocationQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { tagKey = 'team' } = req.query;
+      if (!isValidTagKey(tagKey)) {
+        throw new ValidationError('Invalid tag key');
+      }
+      const currency = parseCurrencyParam(req.query.currency) ?? getReportingCurrency();
+      if ((req.query.startDate !== undefined && !isDateString(req.query.startDate))
+        || (req.query.endDate !== undefined && !isDateString(req.query.endDate))) {
+        throw new ValidationError('startDate and endDate must be dates in YYYY-MM-DD format');
+      }
+
+      const currentMonth = getPeriodBounds('monthly', new Date());
+      const startDate = req.query.startDate ?? toDateString(currentMonth.start);
+      const endDate = req.query.endDate ?? toDateString(currentMonth.end);
+
+      const rules = await AllocationRule.findAll({
+        where: { enabled: true },
+        order: [['priority', 'ASC'], ['id', 'ASC']],
+      });
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+      const whereClause = buildCostWhereClause({ ...req.query, startDate, endDate }, allowedAccountIds);
+      await assertExchangeRatesAvailable(whereClause, currency);
+      const groups = await fetchCostAggregateGroups(whereClause, getAllocationDimensions(rules, tagKey), currency);
+
+      const report: CostAllocationReport = {
+        startDate,
+        endDate,
+        currency,
+        ...allocateCosts(groups, rules, tagKey),
+      };
+
+      const response: ApiResponse<CostAllocationReport> = {
+        success: true,
+        data: report,
+      };
+
+      log.info('Cost allocation computed successfully', {
+        startDate,
+        endDate,
+        tagKey,
+        teamsCount: report.teams.length,
+        rulesCount: rules.length,
+      });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error computing cost allocation', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters: req.query,
+      });
+      return next(new DatabaseError('Failed to compute cost allocation'));
+    }
+  },
+
+  /**
+   * GET /api/costs/compare
+   * Compare costs between two date ranges, broken down by service, region, account or usage type
+   * Returns absolute and percentage deltas ordered by contribution to the overall change
+   * Costs are converted to `currency`, the reporting currency by default
+   */
+  async compareCosts(req: AuthenticatedRequest<object, object, object, CompareQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { groupBy, current, baseline } = parseCompareOptions(req.query);
+      const currency = parseCurrencyParam(req.query.currency) ?? getReportingCurrency();
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+      const attribute = COMPARE_DIMENSION_ATTRIBUTES[groupBy];
+      const currentWhere = buildCostWhereClause({ ...req.query, ...current }, allowedAccountIds);
+      const baselineWhere = buildCostWhereClause({ ...req.query, ...baseline }, allowedAccountIds);
+      await Promise.all([
+        assertExchangeRatesAvailable(currentWhere, currency),
+        assertExchangeRatesAvailable(baselineWhere, currency),
+      ]);
+
+      const [currentItems, baselineItems] = await Promise.all([
+        fetchCostByDimension(currentWhere, attribute, currency),
+        fetchCostByDimension(baselineWhere, attribute, currency),
+      ]);
+
+      const comparison = buildCostComparison(
+        groupBy,
+        { ...current, items: currentItems },
+        { ...baseline, items: baselineItems },
+      );
+
+      const response: ApiResponse<CostComparison> = {
+        success: true,
+        data: comparison,
+      };
+
+      log.info('Cost comparison computed successfully', {
+        groupBy,
+        currency,
+        current,
+        baseline,
+        change: comparison.change,
+      });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error comparing costs', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters: req.query,
+      });
+      return next(new DatabaseError('Failed to compare costs'));
+    }
+  },
+
+  /**
+   * GET /api/costs/anomalies
+   * Days whose cost per service, account or region deviates from its rolling baseline
+   * Tunable via `groupBy`, `method` (zscore or mad), `window` (days) and `sensitivity`
+   * Costs are converted to `currency`, the reporting currency by default
+   */
+  async getCostAnomalies(req: AuthenticatedRequest<object, object, object, AnomalyQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const options = parseAnomalyOptions(req.query);
+      const currency = parseCurrencyParam(req.query.currency) ?? getReportingCurrency();
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+
+      // Load the window of history before startDate so its first days have a baseline
+      const filters = options.reportFrom
+        ? { ...req.query, startDate: toDateString(addDays(parseDateString(options.reportFrom), -options.window)) }
+        : req.query;
+      const whereClause = buildCostWhereClause(filters, allowedAccountIds);
+      await assertExchangeRatesAvailable(whereClause, currency);
+
+      const dailyCosts = await fetchDailyCostByDimension(whereClause, COST_DIMENSION_ATTRIBUTES[options.dimension], currency);
+      const anomalies = detectCostAnomalies(dailyCosts, options);
+
+      const response: ApiResponse<CostAnomalyItem[]> = {
+        success: true,
+        data: anomalies,
+      };
+
+      log.info('Cost anomalies detected successfully', {
+        anomalyCount: anomalies.length,
+        options,
+        filters: req.query,
+      });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error detecting cost anomalies', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters: req.query,
+      });
+      return next(new DatabaseError('Failed to detect cost anomalies'));
+    }
+  },
+
+  /**
+   * GET /api/costs/forecast
+   * Project daily cost forward `days` days from the cost history, with confidence bounds
+   * Also projects where the current month and quarter will land, in `currency` (the reporting currency by default)
+   */
+  async getCostForecast(req: AuthenticatedRequest<object, object, object, ForecastQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const {
+        method, horizon, confidence, historyStart, historyEnd,
+      } = parseForecastOptions(req.query);
+      const currency = parseCurrencyParam(req.query.currency) ?? getReportingCurrency();
+      const firstForecastDay = addDays(parseDateString(historyEnd), 1);
+      const month = getPeriodBounds('monthly', firstForecastDay);
+      const quarter = getPeriodBounds('quarterly', firstForecastDay);
+
+      // Load enough history for both the model and the quarter-to-date actuals
+      const queryStart = historyStart < toDateString(quarter.start) ? historyStart : toDateString(quarter.start);
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+      const whereClause = buildCostWhereClause({ ...req.query, startDate: queryStart, endDate: historyEnd }, allowedAccountIds);
+      await assertExchangeRatesAvailable(whereClause, currency);
+      const dailyCosts = await fetchDailyCostTrends(whereClause, currency);
+
+      const history = toContinuousSeries(dailyCosts.filter((item) => toDateString(item.date) >= historyStart), historyEnd);
+      if (history.length < MIN_LINEAR_HISTORY_DAYS) {
+        throw new ValidationError(`At least ${MIN_LINEAR_HISTORY_DAYS} days of cost history are required to forecast`);
+      }
+
+      // Forecast through quarter end even when fewer days were requested, for the projections
+      const forecast = forecastDailyCosts(history, {
+        method,
+        confidence,
+        horizon: Math.max(horizon, daysInclusive(firstForecastDay, quarter.end)),
+      });
+      const actuals = toContinuousSeries(dailyCosts, historyEnd);
+      const points = forecast.points.slice(0, horizon);
+
+      const result: CostForecast = {
+        method: forecast.method,
+        confidence,
+        historyStart: history[0]!.date,
+        historyEnd,
+        historyDays: history.length,
+        slopePerDay: forecast.slopePerDay,
+        horizonDays: horizon,
+        ...sumForecastPoints(points),
+        points,
+        projections: [
+          projectPeriodSpend('month', month, actuals, forecast.points),
+          projectPeriodSpend('quarter', quarter, actuals, forecast.points),
+        ],
+      };
+
+      const response: ApiResponse<CostForecast> = {
+        success: true,
+        data: result,
+      };
+
+      log.info('Cost forecast computed successfully', {
+        method: result.method,
+        currency,
+        historyDays: result.historyDays,
+        horizonDays: horizon,
+        filters: req.query,
+      });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error computing cost forecast', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters: req.query,
+      });
+      return next(new DatabaseError('Failed to compute cost forecast'));
+    }
+  },
+
+  /**
+   * GET /api/costs/export
+   * Export every cost record matching the filters, without pagination
+   * Streams CSV, spreadsheet-friendly CSV or NDJSON chosen via `format` or the Accept header
+   */
+  async exportCostRecords(req: AuthenticatedRequest<object, object, object, ExportQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const format = resolveExportFormat(req, req.query.format);
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+      const whereClause = buildCostWhereClause(req.query, allowedAccountIds);
+
+      const writer = new ExportWriter(res, format, EXPORT_RECORD_COLUMNS, exportFileName('cost-records'));
+      let exportedCount = 0;
+
+      await forEachCostRecordBatch(whereClause, async (batch) => {
+        await writer.write(batch.map((costRecord) => ({
+          ...costRecord.get({ plain: true }),
+          costAmount: Number(costRecord.costAmount),
+        })));
+        exportedCount += batch.length;
+      });
+      writer.end();
+
+      log.info('Cost records exported successfully', {
+        format,
+        exportedCount,
+        filters: req.query,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      if (error instanceof ExportAbortedError) {
+        log.info('Cost record export aborted', { error: error.message, filters: req.query });
+      } else {
+        log.error('Error exporting cost records', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          filters: req.query,
+        });
+      }
+      return failExport(res, next, 'Failed to export cost records');
+    }
+  },
+
+  /**
+   * GET /api/costs/summary/export
+   * Export the cost summary by service in the requested format
+   */
+  async exportCostSummary(req: AuthenticatedRequest<object, object, object, ExportQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const format = resolveExportFormat(req, req.query.format);
+      const currency = parseCurrencyParam(req.query.currency) ?? getReportingCurrency();
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+      const whereClause = buildCostWhereClause(req.query, allowedAccountIds);
+      await assertExchangeRatesAvailable(whereClause, currency);
+      const summary = await fetchCostSummaryByService(whereClause, currency);
+
+      const writer = new ExportWriter(res, format, ['serviceName', 'totalCost', 'recordCount'], exportFileName('cost-summary'));
+      await writer.write(summary.map((item) => ({ ...item })));
+      writer.end();
+
+      log.info('Cost summary exported successfully', {
+        format,
+        summaryCount: summary.length,
+        filters: req.query,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error exporting cost summary', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters: req.query,
+      });
+      return failExport(res, next, 'Failed to export cost summary');
+    }
+  },
+
+  /**
+   * GET /api/costs/trends/export
+   * Export daily cost trends in the requested format
+   */
+  async exportCostTrends(req: AuthenticatedRequest<object, object, object, ExportTrendQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const format = resolveExportFormat(req, req.query.format);
+      const trendOptions = parseTrendOptions(req.query);
+      const currency = parseCurrencyParam(req.query.currency) ?? getReportingCurrency();
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+      const whereClause = buildCostWhereClause(req.query, allowedAccountIds);
+      await assertExchangeRatesAvailable(whereClause, currency);
+
+      let trendsCount: number;
+      if (trendOptions) {
+        const { granularity, groupBy } = trendOptions;
+        const groupAttribute = groupBy && COST_DIMENSION_ATTRIBUTES[groupBy];
+        const buckets = await fetchCostTrendBuckets(whereClause, granularity, groupAttribute, currency);
+
+        const columns = groupAttribute ? ['period', groupAttribute, 'cost'] : ['period', 'cost'];
+        const writer = new ExportWriter(res, format, columns, exportFileName('cost-trends'));
+        await writer.write(buckets.map((bucket) => ({
+          period: bucket.period,
+          ...(groupAttribute ? { [groupAttribute]: bucket.group } : {}),
+          cost: bucket.cost,
+        })));
+        writer.end();
+        trendsCount = buckets.length;
+      } else {
+        const trends = await fetchDailyCostTrends(whereClause, currency);
+
+        const writer = new ExportWriter(res, format, ['date', 'dailyCost'], exportFileName('cost-trends'));
+        await writer.write(trends.map((item) => ({
+          date: item.date.toISOString().substring(0, 10),
+          dailyCost: item.dailyCost,
+        })));
+        writer.end();
+        trendsCount = trends.length;
+      }
+
+      log.info('Cost trends exported successfully', {
+        format,
+        trendsCount,
+        filters: req.query,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error exporting cost trends', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters: req.query,
+      });
+      return failExport(res, next, 'Failed to export cost trends');
+    }
+  },
+
   /**
    * GET /api/costs/filters
    * Get available filter options for the frontend
-   * Returns distinct values for services, regions, and accounts
+   * Returns distinct values for providers, services, regions, accounts and tags the caller can access
    */
-  async getAvailableFilters(_req: Request, res: Response, next: NextFunction): Promise<void> {
+  async getAvailableFilters(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const [services, regions, accounts] = await Promise.all([
+      const allowedAccountIds = await getAccessibleAccountIds(req.user!.id);
+      const whereClause = { accountId: scopeAccountFilter(undefined, allowedAccountIds) };
+
+      const [providers, services, regions, accounts, tags] = await Promise.all([
         CostRecord.findAll({
+          where: whereClause,
+          attributes: [[fn('DISTINCT', col('provider')), 'provider']],
+          raw: true,
+        }),
+        CostRecord.findAll({
+          where: whereClause,
           attributes: [[fn('DISTINCT', col('service_name')), 'serviceName']],
           raw: true,
         }),
         CostRecord.findAll({
+          where: whereClause,
           attributes: [[fn('DISTINCT', col('region')), 'region']],
           raw: true,
         }),
         CostRecord.findAll({
+          where: whereClause,
           attributes: [[fn('DISTINCT', col('account_id')), 'accountId']],
           raw: true,
         }),
+        fetchAvailableTags(allowedAccountIds),
       ]);
 
       const filters: AvailableFilters = {
+        providers: providers.map((item) => item.provider),
         services: services.map((item) => item.serviceName as string),
         regions: regions.map((item) => item.region as string),
         accounts: accounts.map((item) => item.accountId as string),
+        tags,
       };
 
       const response: ApiResponse<AvailableFilters> = {
@@ -340,9 +1098,11 @@ const costController = {
       };
 
       log.info('Available filters fetched successfully', {
+        providersCount: filters.providers.length,
         servicesCount: filters.services.length,
         regionsCount: filters.regions.length,
         accountsCount: filters.accounts.length,
+        tagKeysCount: Object.keys(filters.tags).length,
       });
 
       res.json(response);
@@ -357,26 +1117,35 @@ const costController = {
   /**
    * POST /api/costs
    * Create a new cost record
-   * Validates required fields and creates the record
+   * Re-sending a record with the same natural key updates its cost instead of duplicating it,
+   * answering 200 instead of 201
+   * Requires write access to the record's account
    */
-  async createCostRecord(req: Request<object, object, CostRecordCreationAttributes>, res: Response, next: NextFunction): Promise<void> {
+  async createCostRecord(req: AuthenticatedRequest<object, object, CostRecordCreationAttributes>, res: Response, next: NextFunction): Promise<void> {
     try {
-      const costRecord = await CostRecord.create(req.body);
+      await assertAccountWriteAccess(req.user!.id, req.body.accountId);
+
+      const [costRecord] = await upsertCostRecords([req.body]);
+      const created = wasInserted(costRecord!);
 
       const response: ApiResponse<CostRecord> = {
         success: true,
-        data: costRecord,
-        message: 'Cost record created successfully',
+        data: costRecord!,
+        message: created ? 'Cost record created successfully' : 'Existing cost record updated successfully',
       };
 
-      log.info('Cost record created successfully', {
-        recordId: costRecord.id,
-        serviceName: costRecord.serviceName,
-        costAmount: costRecord.costAmount,
+      log.info(created ? 'Cost record created successfully' : 'Cost record updated successfully', {
+        recordId: costRecord!.id,
+        serviceName: costRecord!.serviceName,
+        costAmount: costRecord!.costAmount,
       });
 
-      res.status(201).json(response);
+      res.status(created ? 201 : 200).json(response);
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return next(error);
+      }
+
       log.error('Error creating cost record', {
         error: error instanceof Error ? error.message : 'Unknown error',
         data: req.body,
@@ -385,18 +1154,118 @@ const costController = {
     }
   },
 
+  /**
+   * POST /api/costs/import
+   * Bulk import cost records from an AWS Cost and Usage Report CSV, an Azure cost export CSV
+   * or a GCP BigQuery billing export (JSON or CSV), chosen by the `provider` field (aws by default)
+   * Rows sharing a natural key are summed, then upserted in batches inside a single
+   * transaction so re-importing a file updates costs instead of duplicating them;
+   * rows that fail validation or target accounts without write access are reported, not inserted
+   */
+  async importCostRecords(req: AuthenticatedRequest<object, object, { provider?: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.file) {
+        throw new ValidationError('A billing export file is required in the "file" field');
+      }
+
+      const provider = req.body.provider || 'aws';
+      if (!CLOUD_PROVIDERS.includes(provider as CloudProvider)) {
+        throw new ValidationError(`provider must be one of: ${CLOUD_PROVIDERS.join(', ')}`);
+      }
+
+      const parsed = await COST_FILE_PARSERS[provider as CloudProvider](req.file.buffer);
+      const writableAccountIds = await getAccessibleAccountIds(req.user!.id, 'write');
+
+      const rejected: ImportRowError[] = [...parsed.rejected];
+      const rows: ParsedCostRow[] = [];
+      parsed.rows.forEach((row) => {
+        if (writableAccountIds.includes(row.record.accountId)) {
+          rows.push(row);
+        } else {
+          rejected.push({ line: row.line, reason: `No write access to account ${row.record.accountId}` });
+        }
+      });
+
+      // Rows can each fit the cost column while their sum does not
+      const grouped = mergeByNaturalKey(rows);
+      rejected.push(...grouped.rejected);
+      const merged = grouped.merged.filter((item) => {
+        if (isCostAmountInRange(Number(item.record.costAmount))) {
+          return true;
+        }
+        item.lines.forEach((line) => rejected.push({ line, reason: 'Combined cost of the rows sharing this record is outside the supported range' }));
+        return false;
+      });
+
+      const batches = Array.from(
+        { length: Math.ceil(merged.length / IMPORT_BATCH_SIZE) },
+        (_, index) => merged.slice(index * IMPORT_BATCH_SIZE, (index + 1) * IMPORT_BATCH_SIZE),
+      );
+      const accepted = await sequelize.transaction(async (transaction) => {
+        const saved: ImportReport['accepted'] = [];
+        for (let batchIndex = 0; batchIndex < batches.length; batchIndex += 1) {
+          const batch = batches[batchIndex]!;
+          // eslint-disable-next-line no-await-in-loop -- the batches share one transaction, so they run one after another
+          const costRecords = await upsertCostRecords(batch.map((item) => item.record), transaction);
+          costRecords.forEach((costRecord, index) => {
+            batch[index]!.lines.forEach((line) => saved.push({ line, id: costRecord.id }));
+          });
+        }
+        return saved;
+      });
+
+      accepted.sort((a, b) => a.line - b.line);
+      rejected.sort((a, b) => a.line - b.line);
+
+      const report: ImportReport = {
+        totalRows: parsed.totalRows,
+        acceptedCount: accepted.length,
+        rejectedCount: rejected.length,
+        accepted,
+        rejected,
+      };
+
+      const response: ApiResponse<ImportReport> = {
+        success: true,
+        data: report,
+        message: `Imported ${report.acceptedCount} of ${report.totalRows} cost records`,
+      };
+
+      log.info('Cost records imported successfully', {
+        provider,
+        fileName: req.file.originalname,
+        totalRows: report.totalRows,
+        acceptedCount: report.acceptedCount,
+        rejectedCount: report.rejectedCount,
+      });
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error importing cost records', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        fileName: req.file?.originalname,
+      });
+      return next(new DatabaseError('Failed to import cost records'));
+    }
+  },
+
   /**
    * PUT /api/costs/:id
    * Update an existing cost record
-   * Validates the record exists before updating
+   * Records outside the caller's accounts are not found
+   * Requires write access to both the current and the new account
    */
-  async updateCostRecord(req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+  async updateCostRecord(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { id } = req.params;
-      const costRecord = await CostRecord.findByPk(id);
+      const costRecord = await findAccessibleCostRecord(req.params.id, req.user!.id);
 
-      if (!costRecord) {
-        return next(new NotFoundError('Cost record not found'));
+      await assertAccountWriteAccess(req.user!.id, costRecord.accountId);
+      if (req.body.accountId && req.body.accountId !== costRecord.accountId) {
+        await assertAccountWriteAccess(req.user!.id, req.body.accountId);
       }
 
       await costRecord.update(req.body);
@@ -414,6 +1283,10 @@ const costController = {
 
       res.json(response);
     } catch (error) {
+      if (error instanceof NotFoundError || error instanceof AuthorizationError || error instanceof UniqueConstraintError) {
+        return next(error);
+      }
+
       log.error('Error updating cost record', {
         error: error instanceof Error ? error.message : 'Unknown error',
         recordId: req.params.id,
@@ -426,16 +1299,14 @@ const costController = {
   /**
    * DELETE /api/costs/:id
    * Delete a cost record
-   * Validates the record exists before deletion
+   * Records outside the caller's accounts are not found
+   * Requires write access to the record's account
    */
-  async deleteCostRecord(req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+  async deleteCostRecord(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { id } = req.params;
-      const costRecord = await CostRecord.findByPk(id);
+      const costRecord = await findAccessibleCostRecord(req.params.id, req.user!.id);
 
-      if (!costRecord) {
-        return next(new NotFoundError('Cost record not found'));
-      }
+      await assertAccountWriteAccess(req.user!.id, costRecord.accountId);
 
       await costRecord.destroy();
 
@@ -451,6 +1322,10 @@ const costController = {
 
       res.json(response);
     } catch (error) {
+      if (error instanceof NotFoundError || error instanceof AuthorizationError) {
+        return next(error);
+      }
+
       log.error('Error deleting cost record', {
         error: error instanceof Error ? error.message : 'Unknown error',
         recordId: req.params.id,
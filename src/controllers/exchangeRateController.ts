@@ -0,0 +1,275 @@
+import { Op } from 'sequelize';
+import { Response, NextFunction } from 'express';
+import sequelize from '../config/database';
+import ExchangeRate from '../models/ExchangeRate';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  ApiResponse,
+  ExchangeRateCreationAttributes,
+  ExchangeRateQuery,
+  ImportReport,
+  PaginatedResponse,
+} from '../types';
+import { log } from '../utils/logger';
+import { NotFoundError, ValidationError, DatabaseError } from '../utils/errors';
+import { isDateString } from '../utils/dates';
+import { parseCurrencyParam, parseExchangeRateCsv, validateExchangeRate } from '../utils/exchangeRates';
+
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * Insert exchange rates, replacing the rate of any pair that already has one on that date
+ * Later entries win when the same pair and date appear more than once
+ */
+const upsertExchangeRates = async (
+  entries: Array<{ line: number; rate: ExchangeRateCreationAttributes }>,
+): Promise<ImportReport['accepted']> => {
+  const latest = new Map<string, { lines: number[]; rate: ExchangeRateCreationAttributes }>();
+  entries.forEach(({ line, rate }) => {
+    const key = `${rate.fromCurrency}|${rate.toCurrency}|${rate.date}`;
+    const existing = latest.get(key);
+    latest.set(key, { lines: [...(existing?.lines ?? []), line], rate });
+  });
+  const merged = Array.from(latest.values());
+
+  const batches = Array.from(
+    { length: Math.ceil(merged.length / IMPORT_BATCH_SIZE) },
+    (_, index) => merged.slice(index * IMPORT_BATCH_SIZE, (index + 1) * IMPORT_BATCH_SIZE),
+  );
+
+  return sequelize.transaction(async (transaction) => {
+    const accepted: ImportReport['accepted'] = [];
+    for (let batchIndex = 0; batchIndex < batches.length; batchIndex += 1) {
+      const batch = batches[batchIndex]!;
+      // eslint-disable-next-line no-await-in-loop -- the batches share one transaction, so they run one after another
+      const rates = await ExchangeRate.bulkCreate(batch.map((item) => item.rate), {
+        transaction,
+        validate: true,
+        returning: true,
+        conflictAttributes: ['fromCurrency', 'toCurrency', 'date'],
+        updateOnDuplicate: ['rate', 'updatedAt'],
+      });
+      rates.forEach((rate, index) => {
+        batch[index]!.lines.forEach((line) => accepted.push({ line, id: rate.id }));
+      });
+    }
+    return accepted.sort((a, b) => a.line - b.line);
+  });
+};
+
+/**
+ * Exchange Rate Controller
+ * Daily rates used to report costs recorded in other currencies
+ */
+const exchangeRateController = {
+  /**
+   * GET /api/exchange-rates
+   * List exchange rates, newest first
+   * Supports filtering by currency pair and date range
+   */
+  async getExchangeRates(req: AuthenticatedRequest<object, object, object, ExchangeRateQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const {
+        page = '1', limit = '50', startDate, endDate,
+      } = req.query;
+      const fromCurrency = parseCurrencyParam(req.query.fromCurrency);
+      const toCurrency = parseCurrencyParam(req.query.toCurrency);
+
+      const errors: Array<{ field: string; message: string }> = [];
+      if (startDate !== undefined && !isDateString(startDate)) {
+        errors.push({ field: 'startDate', message: 'startDate must be a valid date (YYYY-MM-DD)' });
+      }
+      if (endDate !== undefined && !isDateString(endDate)) {
+        errors.push({ field: 'endDate', message: 'endDate must be a valid date (YYYY-MM-DD)' });
+      }
+      if (errors.length > 0) {
+        throw new ValidationError('Invalid exchange rate parameters', errors);
+      }
+
+      const whereClause: Record<string, unknown> = {};
+      if (fromCurrency) {
+        whereClause['fromCurrency'] = fromCurrency;
+      }
+      if (toCurrency) {
+        whereClause['toCurrency'] = toCurrency;
+      }
+      if (startDate || endDate) {
+        whereClause['date'] = {
+          ...(startDate && { [Op.gte]: startDate }),
+          ...(endDate && { [Op.lte]: endDate }),
+        };
+      }
+
+      const offset = (parseInt(page, 10) - 1) * parseInt(limit, 10);
+      const { count, rows } = await ExchangeRate.findAndCountAll({
+        where: whereClause,
+        order: [['date', 'DESC'], ['fromCurrency', 'ASC'], ['toCurrency', 'ASC']],
+        limit: parseInt(limit, 10),
+        offset,
+      });
+
+      const response: PaginatedResponse<ExchangeRate> = {
+        success: true,
+        data: rows,
+        pagination: {
+          currentPage: parseInt(page, 10),
+          totalPages: Math.ceil(count / parseInt(limit, 10)),
+          totalRecords: count,
+          recordsPerPage: parseInt(limit, 10),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error fetching exchange rates', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters: req.query,
+      });
+      return next(new DatabaseError('Failed to fetch exchange rates'));
+    }
+  },
+
+  /**
+   * POST /api/exchange-rates
+   * Create or replace one exchange rate, or an array of them
+   * The whole request is rejected if any rate is invalid
+   */
+  async upsertExchangeRates(req: AuthenticatedRequest<object, object, unknown>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const items: unknown[] = Array.isArray(req.body) ? req.body : [req.body];
+      if (items.length === 0) {
+        throw new ValidationError('At least one exchange rate is required');
+      }
+
+      const errors: Array<{ field: string; message: string }> = [];
+      const entries: Array<{ line: number; rate: ExchangeRateCreationAttributes }> = [];
+      items.forEach((item, index) => {
+        const validated = typeof item === 'object' && item !== null
+          ? validateExchangeRate(item as Record<string, unknown>)
+          : 'Exchange rate must be an object';
+        if (typeof validated === 'string') {
+          errors.push({ field: `[${index}]`, message: validated });
+        } else {
+          entries.push({ line: index, rate: validated });
+        }
+      });
+      if (errors.length > 0) {
+        throw new ValidationError('Invalid exchange rates', errors);
+      }
+
+      const saved = await upsertExchangeRates(entries);
+      const rates = await ExchangeRate.findAll({
+        where: { id: saved.map((item) => item.id) },
+        order: [['date', 'ASC'], ['fromCurrency', 'ASC'], ['toCurrency', 'ASC']],
+      });
+
+      const response: ApiResponse<ExchangeRate[]> = {
+        success: true,
+        data: rates,
+        message: `Saved ${rates.length} exchange rates`,
+      };
+
+      log.info('Exchange rates saved successfully', { count: rates.length, userId: req.user!.id });
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error saving exchange rates', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to save exchange rates'));
+    }
+  },
+
+  /**
+   * POST /api/exchange-rates/import
+   * Bulk import exchange rates from a CSV upload with date, from, to and rate columns
+   * Existing rates for the same pair and date are replaced; invalid rows are reported, not inserted
+   */
+  async importExchangeRates(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.file) {
+        throw new ValidationError('A CSV file is required in the "file" field');
+      }
+
+      const parsed = await parseExchangeRateCsv(req.file.buffer);
+      const accepted = await upsertExchangeRates(parsed.rates);
+
+      const report: ImportReport = {
+        totalRows: parsed.totalRows,
+        acceptedCount: accepted.length,
+        rejectedCount: parsed.rejected.length,
+        accepted,
+        rejected: parsed.rejected,
+      };
+
+      const response: ApiResponse<ImportReport> = {
+        success: true,
+        data: report,
+        message: `Imported ${report.acceptedCount} of ${report.totalRows} exchange rates`,
+      };
+
+      log.info('Exchange rates imported successfully', {
+        fileName: req.file.originalname,
+        totalRows: report.totalRows,
+        acceptedCount: report.acceptedCount,
+        rejectedCount: report.rejectedCount,
+      });
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error importing exchange rates', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        fileName: req.file?.originalname,
+      });
+      return next(new DatabaseError('Failed to import exchange rates'));
+    }
+  },
+
+  /**
+   * DELETE /api/exchange-rates/:id
+   * Delete an exchange rate
+   */
+  async deleteExchangeRate(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rate = await ExchangeRate.findByPk(req.params.id);
+      if (!rate) {
+        throw new NotFoundError('Exchange rate not found');
+      }
+
+      await rate.destroy();
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Exchange rate deleted successfully',
+      };
+
+      log.info('Exchange rate deleted successfully', { rateId: rate.id, userId: req.user!.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error deleting exchange rate', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        rateId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to delete exchange rate'));
+    }
+  },
+};
+
+export default exchangeRateController;
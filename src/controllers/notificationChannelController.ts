@@ -0,0 +1,229 @@
+import { Response, NextFunction } from 'express';
+import NotificationChannel from '../models/NotificationChannel';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ApiResponse, NotificationChannelCreationAttributes } from '../types';
+import { log } from '../utils/logger';
+import { NotFoundError, ValidationError, DatabaseError } from '../utils/errors';
+import { sendToChannel, validateChannelConfig } from '../notifications';
+
+type ChannelInput = Partial<Pick<NotificationChannelCreationAttributes, 'name' | 'type' | 'config' | 'enabled'>>;
+
+/**
+ * Validate a notification channel payload
+ * On update the config is checked against the channel's existing type unless a new type is given
+ */
+const validateChannelInput = (body: ChannelInput, existing?: NotificationChannel): ChannelInput => {
+  const errors: Array<{ field: string; message: string }> = [];
+
+  if (!existing || body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      errors.push({ field: 'name', message: 'Name is required' });
+    }
+  }
+
+  if (!existing || body.type !== undefined || body.config !== undefined) {
+    const type = body.type ?? existing?.type ?? '';
+    const config = body.config ?? existing?.config;
+    validateChannelConfig(type, config).forEach((message) => errors.push({ field: 'config', message }));
+  }
+
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    errors.push({ field: 'enabled', message: 'Enabled must be a boolean' });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid notification channel', errors);
+  }
+
+  const input: Record<string, unknown> = {};
+  (['name', 'type', 'config', 'enabled'] as Array<keyof ChannelInput>).forEach((field) => {
+    if (body[field] !== undefined) {
+      input[field] = body[field];
+    }
+  });
+  return input as ChannelInput;
+};
+
+const findOwnChannel = async (id: string, userId: number): Promise<NotificationChannel> => {
+  const channel = await NotificationChannel.findOne({ where: { id, userId } });
+  if (!channel) {
+    throw new NotFoundError('Notification channel not found');
+  }
+  return channel;
+};
+
+/**
+ * Notification Channel Controller
+ * Manages where a user's alerts are delivered
+ */
+const notificationChannelController = {
+  /**
+   * GET /api/alerts/channels
+   * List the caller's notification channels
+   */
+  async getChannels(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const channels = await NotificationChannel.findAll({
+        where: { userId: req.user!.id },
+        order: [['name', 'ASC']],
+      });
+
+      const response: ApiResponse<NotificationChannel[]> = {
+        success: true,
+        data: channels,
+      };
+
+      res.json(response);
+    } catch (error) {
+      log.error('Error fetching notification channels', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to fetch notification channels'));
+    }
+  },
+
+  /**
+   * POST /api/alerts/channels
+   * Create a notification channel
+   */
+  async createChannel(req: AuthenticatedRequest<object, object, ChannelInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const input = validateChannelInput(req.body);
+
+      const channel = await NotificationChannel.create({
+        ...input,
+        userId: req.user!.id,
+      } as NotificationChannelCreationAttributes);
+
+      const response: ApiResponse<NotificationChannel> = {
+        success: true,
+        data: channel,
+        message: 'Notification channel created successfully',
+      };
+
+      log.info('Notification channel created successfully', { channelId: channel.id, type: channel.type });
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error creating notification channel', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to create notification channel'));
+    }
+  },
+
+  /**
+   * PUT /api/alerts/channels/:id
+   * Update a notification channel
+   */
+  async updateChannel(req: AuthenticatedRequest<{ id: string }, object, ChannelInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const channel = await findOwnChannel(req.params.id, req.user!.id);
+      const input = validateChannelInput(req.body, channel);
+
+      await channel.update(input);
+
+      const response: ApiResponse<NotificationChannel> = {
+        success: true,
+        data: channel,
+        message: 'Notification channel updated successfully',
+      };
+
+      log.info('Notification channel updated successfully', { channelId: channel.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error updating notification channel', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        channelId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to update notification channel'));
+    }
+  },
+
+  /**
+   * DELETE /api/alerts/channels/:id
+   * Delete a notification channel
+   */
+  async deleteChannel(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const channel = await findOwnChannel(req.params.id, req.user!.id);
+      await channel.destroy();
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Notification channel deleted successfully',
+      };
+
+      log.info('Notification channel deleted successfully', { channelId: channel.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error deleting notification channel', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        channelId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to delete notification channel'));
+    }
+  },
+
+  /**
+   * POST /api/alerts/channels/:id/test
+   * Send a test notification through a channel
+   * Delivery failures are reported in the response rather than as errors; details are only logged
+   */
+  async testChannel(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const channel = await findOwnChannel(req.params.id, req.user!.id);
+
+      let deliveryError: string | null = null;
+      try {
+        await sendToChannel(channel, {
+          subject: '[Cost Monitoring] Test notification',
+          text: `This is a test notification for channel "${channel.name}".`,
+          data: { test: true, channelId: channel.id },
+        });
+      } catch (error) {
+        log.warn('Test notification failed', {
+          channelId: channel.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        deliveryError = 'Delivery failed';
+      }
+
+      log.info('Notification channel tested', { channelId: channel.id, delivered: !deliveryError });
+
+      const response: ApiResponse<{ delivered: boolean; error: string | null }> = {
+        success: true,
+        data: { delivered: !deliveryError, error: deliveryError },
+        message: deliveryError ? 'Test notification failed' : 'Test notification sent',
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error testing notification channel', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        channelId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to test notification channel'));
+    }
+  },
+};
+
+export default notificationChannelController;
@@ -0,0 +1,342 @@
+import { Response, NextFunction } from 'express';
+import NotificationChannel from '../models/NotificationChannel';
+import ReportDelivery from '../models/ReportDelivery';
+import ReportSchedule from '../models/ReportSchedule';
+import SavedView from '../models/SavedView';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  ApiResponse,
+  PaginatedResponse,
+  PaginationQuery,
+  RelativeDateRange,
+  RELATIVE_DATE_RANGES,
+  ReportFormat,
+  REPORT_FORMATS,
+  ReportScheduleCreationAttributes,
+} from '../types';
+import { deliverReport, getNextReportRun } from '../jobs/reportScheduler';
+import { log } from '../utils/logger';
+import { NotFoundError, ValidationError, DatabaseError } from '../utils/errors';
+import { isValidTimeZone, parseCronExpression } from '../utils/cron';
+
+type ReportScheduleInput = Partial<Omit<ReportScheduleCreationAttributes, 'id' | 'userId' | 'lastRunAt' | 'nextRunAt'>>;
+
+const REPORT_SCHEDULE_FIELDS: Array<keyof ReportScheduleInput> = ['name', 'cronExpression', 'timezone', 'savedViewId', 'dateRange', 'format', 'channelIds', 'enabled'];
+
+/**
+ * Validate a report schedule payload
+ * The saved view must be owned by or shared with the caller, and every channel must be one of the caller's
+ */
+const validateReportScheduleInput = async (
+  body: ReportScheduleInput,
+  userId: number,
+  existing?: ReportSchedule,
+): Promise<ReportScheduleInput & { nextRunAt: Date | null }> => {
+  const errors: Array<{ field: string; message: string }> = [];
+
+  const input: Record<string, unknown> = {};
+  REPORT_SCHEDULE_FIELDS.forEach((field) => {
+    if (body[field] !== undefined) {
+      input[field] = body[field];
+    }
+  });
+
+  const merged = { ...existing?.get({ plain: true }), ...input } as ReportScheduleInput;
+  const timezone = merged.timezone ?? 'UTC';
+
+  if (typeof merged.name !== 'string' || merged.name.trim() === '') {
+    errors.push({ field: 'name', message: 'Name is required' });
+  }
+
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+    errors.push({ field: 'timezone', message: 'timezone must be an IANA time zone such as "Europe/Berlin"' });
+  } else if (typeof merged.cronExpression !== 'string') {
+    errors.push({ field: 'cronExpression', message: 'cronExpression is required' });
+  } else {
+    const cron = parseCronExpression(merged.cronExpression);
+    if (typeof cron === 'string') {
+      errors.push({ field: 'cronExpression', message: `Invalid cron expression: ${cron}` });
+    } else if (!getNextReportRun(merged.cronExpression, timezone)) {
+      errors.push({ field: 'cronExpression', message: 'cronExpression never fires' });
+    }
+  }
+
+  if (merged.dateRange !== undefined && !RELATIVE_DATE_RANGES.includes(merged.dateRange as RelativeDateRange)) {
+    errors.push({ field: 'dateRange', message: `dateRange must be one of: ${RELATIVE_DATE_RANGES.join(', ')}` });
+  }
+
+  if (merged.format !== undefined && !REPORT_FORMATS.includes(merged.format as ReportFormat)) {
+    errors.push({ field: 'format', message: `format must be one of: ${REPORT_FORMATS.join(', ')}` });
+  }
+
+  if (merged.enabled !== undefined && typeof merged.enabled !== 'boolean') {
+    errors.push({ field: 'enabled', message: 'enabled must be a boolean' });
+  }
+
+  if (input['savedViewId'] !== undefined && input['savedViewId'] !== null) {
+    const { savedViewId } = input;
+    const view = Number.isInteger(savedViewId) ? await SavedView.findByPk(savedViewId as number) : null;
+    if (!view || (view.userId !== userId && !view.sharedWith.includes(userId))) {
+      errors.push({ field: 'savedViewId', message: 'Saved view not found' });
+    }
+  }
+
+  if (input['channelIds'] !== undefined || !existing) {
+    const { channelIds } = input;
+    if (!Array.isArray(channelIds) || channelIds.length === 0 || !channelIds.every((id) => Number.isInteger(id) && id > 0)) {
+      errors.push({ field: 'channelIds', message: 'channelIds must be a non-empty list of notification channel ids' });
+    } else {
+      const ids = Array.from(new Set<number>(channelIds));
+      const channelCount = await NotificationChannel.count({ where: { id: ids, userId } });
+      if (channelCount !== ids.length) {
+        errors.push({ field: 'channelIds', message: 'channelIds contains unknown notification channels' });
+      }
+      input['channelIds'] = ids;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid report schedule', errors);
+  }
+
+  // Start counting from now whenever the schedule is saved, so re-enabling does not fire stale runs
+  return { ...input, nextRunAt: getNextReportRun(merged.cronExpression as string, timezone) } as ReportScheduleInput & { nextRunAt: Date | null };
+};
+
+const findOwnSchedule = async (id: string, userId: number): Promise<ReportSchedule> => {
+  const schedule = await ReportSchedule.findOne({ where: { id, userId } });
+  if (!schedule) {
+    throw new NotFoundError('Report schedule not found');
+  }
+  return schedule;
+};
+
+/**
+ * Report Schedule Controller
+ * Cost reports delivered to the caller's notification channels on a cron schedule,
+ * with a history of every delivery
+ */
+const reportScheduleController = {
+  /**
+   * GET /api/report-schedules
+   * List the caller's report schedules
+   */
+  async getReportSchedules(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedules = await ReportSchedule.findAll({
+        where: { userId: req.user!.id },
+        order: [['name', 'ASC'], ['id', 'ASC']],
+      });
+
+      const response: ApiResponse<ReportSchedule[]> = {
+        success: true,
+        data: schedules,
+      };
+
+      res.json(response);
+    } catch (error) {
+      log.error('Error fetching report schedules', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to fetch report schedules'));
+    }
+  },
+
+  /**
+   * GET /api/report-schedules/:id
+   * Get a report schedule
+   */
+  async getReportSchedule(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await findOwnSchedule(req.params.id, req.user!.id);
+
+      const response: ApiResponse<ReportSchedule> = {
+        success: true,
+        data: schedule,
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error fetching report schedule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        scheduleId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to fetch report schedule'));
+    }
+  },
+
+  /**
+   * POST /api/report-schedules
+   * Create a report schedule owned by the caller
+   */
+  async createReportSchedule(req: AuthenticatedRequest<object, object, ReportScheduleInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const input = await validateReportScheduleInput(req.body, req.user!.id);
+      const schedule = await ReportSchedule.create({
+        ...input,
+        userId: req.user!.id,
+      } as ReportScheduleCreationAttributes);
+
+      const response: ApiResponse<ReportSchedule> = {
+        success: true,
+        data: schedule,
+        message: 'Report schedule created successfully',
+      };
+
+      log.info('Report schedule created successfully', { scheduleId: schedule.id, userId: req.user!.id });
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error creating report schedule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        data: req.body,
+      });
+      return next(new DatabaseError('Failed to create report schedule'));
+    }
+  },
+
+  /**
+   * PUT /api/report-schedules/:id
+   * Update a report schedule; the next run is recomputed from now
+   */
+  async updateReportSchedule(req: AuthenticatedRequest<{ id: string }, object, ReportScheduleInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await findOwnSchedule(req.params.id, req.user!.id);
+      const input = await validateReportScheduleInput(req.body, req.user!.id, schedule);
+
+      await schedule.update(input);
+
+      const response: ApiResponse<ReportSchedule> = {
+        success: true,
+        data: schedule,
+        message: 'Report schedule updated successfully',
+      };
+
+      log.info('Report schedule updated successfully', { scheduleId: schedule.id, userId: req.user!.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error updating report schedule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        scheduleId: req.params.id,
+        data: req.body,
+      });
+      return next(new DatabaseError('Failed to update report schedule'));
+    }
+  },
+
+  /**
+   * DELETE /api/report-schedules/:id
+   * Delete a report schedule and its delivery history
+   */
+  async deleteReportSchedule(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await findOwnSchedule(req.params.id, req.user!.id);
+      await schedule.destroy();
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Report schedule deleted successfully',
+      };
+
+      log.info('Report schedule deleted successfully', { scheduleId: schedule.id, userId: req.user!.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error deleting report schedule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        scheduleId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to delete report schedule'));
+    }
+  },
+
+  /**
+   * POST /api/report-schedules/:id/run
+   * Build and deliver the report now, without changing the schedule's next run
+   */
+  async runReportSchedule(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await findOwnSchedule(req.params.id, req.user!.id);
+      const delivery = await deliverReport(schedule, 'manual');
+
+      const response: ApiResponse<ReportDelivery> = {
+        success: true,
+        data: delivery,
+        message: delivery.status === 'failed' ? 'Report delivery failed' : 'Report delivered',
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error running report schedule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        scheduleId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to run report schedule'));
+    }
+  },
+
+  /**
+   * GET /api/report-schedules/:id/deliveries
+   * Delivery history of a report schedule, newest first
+   */
+  async getReportDeliveries(req: AuthenticatedRequest<{ id: string }, object, object, PaginationQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await findOwnSchedule(req.params.id, req.user!.id);
+      const { page = '1', limit = '50' } = req.query;
+      const offset = (parseInt(page, 10) - 1) * parseInt(limit, 10);
+
+      const { count, rows } = await ReportDelivery.findAndCountAll({
+        where: { scheduleId: schedule.id },
+        order: [['createdAt', 'DESC']],
+        limit: parseInt(limit, 10),
+        offset,
+      });
+
+      const response: PaginatedResponse<ReportDelivery> = {
+        success: true,
+        data: rows,
+        pagination: {
+          currentPage: parseInt(page, 10),
+          totalPages: Math.ceil(count / parseInt(limit, 10)),
+          totalRecords: count,
+          recordsPerPage: parseInt(limit, 10),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error fetching report deliveries', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        scheduleId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to fetch report deliveries'));
+    }
+  },
+};
+
+export default reportScheduleController;
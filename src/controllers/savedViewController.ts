@@ -0,0 +1,285 @@
+import { Op } from 'sequelize';
+import { Response, NextFunction } from 'express';
+import SavedView from '../models/SavedView';
+import User from '../models/User';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  ApiResponse,
+  RelativeDateRange,
+  RELATIVE_DATE_RANGES,
+  ResolvedSavedView,
+  SavedViewCreationAttributes,
+} from '../types';
+import { log } from '../utils/logger';
+import {
+  NotFoundError,
+  ValidationError,
+  AuthorizationError,
+  DatabaseError,
+} from '../utils/errors';
+import { resolveSavedViewQuery, validateSavedViewFilters } from '../utils/savedViews';
+import { isDateString } from '../utils/dates';
+
+type SavedViewInput = Partial<Omit<SavedViewCreationAttributes, 'id' | 'userId'>>;
+
+const SAVED_VIEW_FIELDS: Array<keyof SavedViewInput> = ['name', 'description', 'filters', 'dateRange', 'startDate', 'endDate', 'sharedWith'];
+
+/**
+ * Validate a saved view payload
+ * A view has either a relative `dateRange` or absolute `startDate`/`endDate`; setting one
+ * clears the other. Views can only be shared with existing users other than the owner.
+ */
+const validateSavedViewInput = async (body: SavedViewInput, ownerId: number, existing?: SavedView): Promise<SavedViewInput> => {
+  const errors: Array<{ field: string; message: string }> = [];
+
+  const input: Record<string, unknown> = {};
+  SAVED_VIEW_FIELDS.forEach((field) => {
+    if (body[field] !== undefined) {
+      input[field] = body[field] === '' ? null : body[field];
+    }
+  });
+
+  if (input['dateRange'] && (input['startDate'] || input['endDate'])) {
+    errors.push({ field: 'dateRange', message: 'Use either dateRange or startDate/endDate, not both' });
+  } else if (input['dateRange']) {
+    input['startDate'] = null;
+    input['endDate'] = null;
+  } else if (input['startDate'] || input['endDate']) {
+    input['dateRange'] = null;
+  }
+
+  const merged = { ...existing?.get({ plain: true }), ...input } as SavedViewInput;
+
+  if (typeof merged.name !== 'string' || merged.name.trim() === '') {
+    errors.push({ field: 'name', message: 'Name is required' });
+  }
+
+  if (merged.description && typeof merged.description !== 'string') {
+    errors.push({ field: 'description', message: 'Description must be a string' });
+  }
+
+  if (input['filters'] !== undefined) {
+    errors.push(...validateSavedViewFilters(input['filters']));
+  }
+
+  if (merged.dateRange && !RELATIVE_DATE_RANGES.includes(merged.dateRange as RelativeDateRange)) {
+    errors.push({ field: 'dateRange', message: `dateRange must be one of: ${RELATIVE_DATE_RANGES.join(', ')}` });
+  }
+  if (merged.startDate && !isDateString(merged.startDate)) {
+    errors.push({ field: 'startDate', message: 'startDate must be a valid date (YYYY-MM-DD)' });
+  }
+  if (merged.endDate && !isDateString(merged.endDate)) {
+    errors.push({ field: 'endDate', message: 'endDate must be a valid date (YYYY-MM-DD)' });
+  }
+  if (isDateString(merged.startDate) && isDateString(merged.endDate) && merged.startDate > merged.endDate) {
+    errors.push({ field: 'endDate', message: 'endDate must be on or after startDate' });
+  }
+
+  if (input['sharedWith'] !== undefined) {
+    const { sharedWith } = input;
+    if (!Array.isArray(sharedWith) || !sharedWith.every((userId) => Number.isInteger(userId) && userId > 0)) {
+      errors.push({ field: 'sharedWith', message: 'sharedWith must be a list of user ids' });
+    } else {
+      const userIds = Array.from(new Set<number>(sharedWith)).filter((userId) => userId !== ownerId);
+      const userCount = userIds.length > 0 ? await User.count({ where: { id: userIds } }) : 0;
+      if (userCount !== userIds.length) {
+        errors.push({ field: 'sharedWith', message: 'sharedWith contains unknown users' });
+      }
+      input['sharedWith'] = userIds;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid saved view', errors);
+  }
+
+  return input as SavedViewInput;
+};
+
+/**
+ * Load a saved view the caller owns or that is shared with them
+ * Only the owner may change or delete a view
+ */
+const findAccessibleView = async (id: string, userId: number, forWrite: boolean = false): Promise<SavedView> => {
+  const view = await SavedView.findByPk(id);
+  if (!view || (view.userId !== userId && !view.sharedWith.includes(userId))) {
+    throw new NotFoundError('Saved view not found');
+  }
+  if (forWrite && view.userId !== userId) {
+    throw new AuthorizationError('Only the owner can change a saved view');
+  }
+  return view;
+};
+
+/**
+ * Include the view's filters as cost query parameters, with relative dates resolved as of today
+ */
+const toResolvedView = (view: SavedView, userId: number): ResolvedSavedView => ({
+  ...view.get({ plain: true }),
+  query: resolveSavedViewQuery(view),
+  isOwner: view.userId === userId,
+});
+
+/**
+ * Saved View Controller
+ * Named filter presets for the cost endpoints, owned by a user and optionally shared
+ */
+const savedViewController = {
+  /**
+   * GET /api/views
+   * List the caller's saved views and the views shared with them
+   */
+  async getSavedViews(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const views = await SavedView.findAll({
+        where: {
+          [Op.or]: [
+            { userId },
+            { sharedWith: { [Op.contains]: [userId] } },
+          ],
+        },
+        order: [['name', 'ASC'], ['id', 'ASC']],
+      });
+
+      const response: ApiResponse<ResolvedSavedView[]> = {
+        success: true,
+        data: views.map((view) => toResolvedView(view, userId)),
+      };
+
+      res.json(response);
+    } catch (error) {
+      log.error('Error fetching saved views', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to fetch saved views'));
+    }
+  },
+
+  /**
+   * GET /api/views/:id
+   * Get a saved view with its filters resolved into cost query parameters
+   */
+  async getSavedView(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const view = await findAccessibleView(req.params.id, req.user!.id);
+
+      const response: ApiResponse<ResolvedSavedView> = {
+        success: true,
+        data: toResolvedView(view, req.user!.id),
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error fetching saved view', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        viewId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to fetch saved view'));
+    }
+  },
+
+  /**
+   * POST /api/views
+   * Create a saved view owned by the caller
+   */
+  async createSavedView(req: AuthenticatedRequest<object, object, SavedViewInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const input = await validateSavedViewInput(req.body, req.user!.id);
+      const view = await SavedView.create({
+        ...input,
+        userId: req.user!.id,
+      } as SavedViewCreationAttributes);
+
+      const response: ApiResponse<ResolvedSavedView> = {
+        success: true,
+        data: toResolvedView(view, req.user!.id),
+        message: 'Saved view created successfully',
+      };
+
+      log.info('Saved view created successfully', { viewId: view.id, userId: req.user!.id });
+
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return next(error);
+      }
+
+      log.error('Error creating saved view', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        data: req.body,
+      });
+      return next(new DatabaseError('Failed to create saved view'));
+    }
+  },
+
+  /**
+   * PUT /api/views/:id
+   * Update a saved view, including who it is shared with
+   */
+  async updateSavedView(req: AuthenticatedRequest<{ id: string }, object, SavedViewInput>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const view = await findAccessibleView(req.params.id, req.user!.id, true);
+      const input = await validateSavedViewInput(req.body, view.userId, view);
+
+      await view.update(input);
+
+      const response: ApiResponse<ResolvedSavedView> = {
+        success: true,
+        data: toResolvedView(view, req.user!.id),
+        message: 'Saved view updated successfully',
+      };
+
+      log.info('Saved view updated successfully', { viewId: view.id, userId: req.user!.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError || error instanceof AuthorizationError) {
+        return next(error);
+      }
+
+      log.error('Error updating saved view', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        viewId: req.params.id,
+        data: req.body,
+      });
+      return next(new DatabaseError('Failed to update saved view'));
+    }
+  },
+
+  /**
+   * DELETE /api/views/:id
+   * Delete a saved view
+   */
+  async deleteSavedView(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const view = await findAccessibleView(req.params.id, req.user!.id, true);
+      await view.destroy();
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Saved view deleted successfully',
+      };
+
+      log.info('Saved view deleted successfully', { viewId: view.id, userId: req.user!.id });
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof AuthorizationError) {
+        return next(error);
+      }
+
+      log.error('Error deleting saved view', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        viewId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to delete saved view'));
+    }
+  },
+};
+
+export default savedViewController;
@@ -0,0 +1,400 @@
+import { Response, NextFunction } from 'express';
+import User from '../models/User';
+import AccountMembership from '../models/AccountMembership';
+import AuditLog from '../models/AuditLog';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  AccountAccessLevel,
+  ApiResponse,
+  PaginatedResponse,
+  PaginationQuery,
+  UserRole,
+  USER_ROLES,
+} from '../types';
+import { log } from '../utils/logger';
+import { unlockAccount } from '../utils/loginAttempts';
+import { disableUserMfa } from '../utils/mfa';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  DatabaseError,
+} from '../utils/errors';
+
+const ACCESS_LEVELS: AccountAccessLevel[] = ['read', 'write'];
+
+/**
+ * User Controller
+ * Admin-only user management: listing users, changing roles, granting account access
+ * and lifting login lockouts or MFA for users who lost access
+ */
+const userController = {
+  /**
+   * GET /api/users
+   * List users with pagination, optionally filtered by role
+   */
+  async getUsers(req: AuthenticatedRequest<object, object, object, PaginationQuery & { role?: UserRole }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page = '1', limit = '50', role } = req.query;
+
+      const offset = (parseInt(page, 10) - 1) * parseInt(limit, 10);
+      const whereClause: Record<string, unknown> = {};
+
+      if (role) {
+        whereClause['role'] = role;
+      }
+
+      const { count, rows } = await User.findAndCountAll({
+        where: whereClause,
+        attributes: ['id', 'email', 'role', 'emailVerifiedAt', 'failedLoginAttempts', 'lockedUntil', 'mfaEnabledAt', 'createdAt', 'updatedAt'],
+        order: [['id', 'ASC']],
+        limit: parseInt(limit, 10),
+        offset,
+      });
+
+      const response: PaginatedResponse<User> = {
+        success: true,
+        data: rows,
+        pagination: {
+          currentPage: parseInt(page, 10),
+          totalPages: Math.ceil(count / parseInt(limit, 10)),
+          totalRecords: count,
+          recordsPerPage: parseInt(limit, 10),
+        },
+      };
+
+      log.info('Users fetched successfully', { count: rows.length, totalRecords: count });
+
+      res.json(response);
+    } catch (error) {
+      log.error('Error fetching users', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next(new DatabaseError('Failed to fetch users'));
+    }
+  },
+
+  /**
+   * PATCH /api/users/:id/role
+   * Change a user's role
+   * Admins cannot demote themselves so at least one admin always remains
+   */
+  async updateUserRole(req: AuthenticatedRequest<{ id: string }, object, { role: UserRole }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { role } = req.body;
+
+      if (!role || !USER_ROLES.includes(role)) {
+        throw new ValidationError(`Role must be one of: ${USER_ROLES.join(', ')}`);
+      }
+
+      const user = await User.findByPk(id);
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      if (user.id === req.user!.id && role !== 'admin') {
+        throw new ConflictError('Admins cannot remove their own admin role');
+      }
+
+      const previousRole = user.role;
+      await user.update({ role });
+
+      log.info('User role updated successfully', {
+        userId: user.id,
+        previousRole,
+        role,
+        updatedBy: req.user!.id,
+      });
+
+      const response: ApiResponse<{ id: number; email: string; role: UserRole }> = {
+        success: true,
+        data: { id: user.id, email: user.email, role: user.role },
+        message: 'User role updated successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError || error instanceof ConflictError) {
+        return next(error);
+      }
+
+      log.error('Error updating user role', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to update user role'));
+    }
+  },
+
+  /**
+   * GET /api/users/:id/accounts
+   * List the AWS accounts a user is a member of
+   */
+  async getUserAccounts(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const user = await User.findByPk(id);
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      const memberships = await AccountMembership.findAll({
+        where: { userId: user.id },
+        order: [['accountId', 'ASC']],
+      });
+
+      const response: ApiResponse<AccountMembership[]> = {
+        success: true,
+        data: memberships,
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error fetching user accounts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to fetch user accounts'));
+    }
+  },
+
+  /**
+   * PUT /api/users/:id/accounts/:accountId
+   * Grant a user access to an AWS account, or change their access level
+   */
+  async setUserAccount(
+    req: AuthenticatedRequest<{ id: string; accountId: string }, object, { accessLevel?: AccountAccessLevel }>,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id, accountId } = req.params;
+      const { accessLevel = 'read' } = req.body;
+
+      if (!ACCESS_LEVELS.includes(accessLevel)) {
+        throw new ValidationError(`Access level must be one of: ${ACCESS_LEVELS.join(', ')}`);
+      }
+
+      const user = await User.findByPk(id);
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      const [membership, created] = await AccountMembership.findOrCreate({
+        where: { userId: user.id, accountId },
+        defaults: { userId: user.id, accountId, accessLevel },
+      });
+
+      if (!created && membership.accessLevel !== accessLevel) {
+        await membership.update({ accessLevel });
+      }
+
+      log.info('Account access granted successfully', {
+        userId: user.id,
+        accountId,
+        accessLevel,
+        grantedBy: req.user!.id,
+      });
+
+      const response: ApiResponse<AccountMembership> = {
+        success: true,
+        data: membership,
+        message: 'Account access updated successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error granting account access', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.params.id,
+        accountId: req.params.accountId,
+      });
+      return next(new DatabaseError('Failed to update account access'));
+    }
+  },
+
+  /**
+   * DELETE /api/users/:id/accounts/:accountId
+   * Revoke a user's access to an AWS account
+   */
+  async removeUserAccount(req: AuthenticatedRequest<{ id: string; accountId: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, accountId } = req.params;
+
+      const membership = await AccountMembership.findOne({
+        where: { userId: id, accountId },
+      });
+
+      if (!membership) {
+        throw new NotFoundError('Account membership not found');
+      }
+
+      await membership.destroy();
+
+      log.info('Account access revoked successfully', {
+        userId: membership.userId,
+        accountId,
+        revokedBy: req.user!.id,
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Account access revoked successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error revoking account access', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.params.id,
+        accountId: req.params.accountId,
+      });
+      return next(new DatabaseError('Failed to revoke account access'));
+    }
+  },
+
+  /**
+   * POST /api/users/:id/unlock
+   * Lift a login lockout and reset the user's failed login count
+   */
+  async unlockUser(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await User.findByPk(req.params.id);
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      const unlocked = await unlockAccount(user, {
+        actorId: req.user!.id,
+        ipAddress: req.ip ?? null,
+        reason: 'admin',
+      });
+
+      if (unlocked) {
+        log.info('User account unlocked successfully', { userId: user.id, unlockedBy: req.user!.id });
+      }
+
+      const response: ApiResponse<{ id: number; email: string; failedLoginAttempts: number; lockedUntil: Date | null }> = {
+        success: true,
+        data: {
+          id: user.id,
+          email: user.email,
+          failedLoginAttempts: user.failedLoginAttempts,
+          lockedUntil: user.lockedUntil,
+        },
+        message: unlocked ? 'User account unlocked successfully' : 'User account is not locked',
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error unlocking user account', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to unlock user account'));
+    }
+  },
+
+  /**
+   * DELETE /api/users/:id/mfa
+   * Turn off MFA for a user who lost both their authenticator and recovery codes
+   */
+  async resetUserMfa(req: AuthenticatedRequest<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await User.findByPk(req.params.id);
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+      if (!user.mfaEnabledAt && !user.mfaSecret) {
+        throw new ConflictError('MFA is not enabled for this user');
+      }
+
+      await disableUserMfa(user, { actorId: req.user!.id, ipAddress: req.ip ?? null, reason: 'admin' });
+
+      log.info('User MFA reset successfully', { userId: user.id, resetBy: req.user!.id });
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'User MFA disabled successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        return next(error);
+      }
+
+      log.error('Error resetting user MFA', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to reset user MFA'));
+    }
+  },
+
+  /**
+   * GET /api/users/:id/audit-log
+   * Audit log entries about a user, newest first
+   */
+  async getUserAuditLog(req: AuthenticatedRequest<{ id: string }, object, object, PaginationQuery>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await User.findByPk(req.params.id);
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      const { page = '1', limit = '50' } = req.query;
+      const offset = (parseInt(page, 10) - 1) * parseInt(limit, 10);
+
+      const { count, rows } = await AuditLog.findAndCountAll({
+        where: { userId: user.id },
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: parseInt(limit, 10),
+        offset,
+      });
+
+      const response: PaginatedResponse<AuditLog> = {
+        success: true,
+        data: rows,
+        pagination: {
+          currentPage: parseInt(page, 10),
+          totalPages: Math.ceil(count / parseInt(limit, 10)),
+          totalRecords: count,
+          recordsPerPage: parseInt(limit, 10),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return next(error);
+      }
+
+      log.error('Error fetching user audit log', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.params.id,
+      });
+      return next(new DatabaseError('Failed to fetch user audit log'));
+    }
+  },
+};
+
+export default userController;
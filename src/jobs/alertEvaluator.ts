@@ -0,0 +1,220 @@
+import Alert from '../models/Alert';
+import AlertRule from '../models/AlertRule';
+import Budget from '../models/Budget';
+import NotificationChannel from '../models/NotificationChannel';
+import { AlertCreationAttributes, AlertDelivery } from '../types';
+import { sendToChannels } from '../notifications';
+import { getAccessibleAccountIds } from '../utils/accountAccess';
+import { computeBudgetStatus } from '../utils/budgetStatus';
+import { buildCostWhereClause, fetchDailyCostByService } from '../utils/costQueries';
+import { addDays, parseDateString, toDateString } from '../utils/dates';
+import { assertExchangeRatesAvailable, getReportingCurrency } from '../utils/exchangeRates';
+import { log } from '../utils/logger';
+
+/**
+ * Daily spend rules re-check the last few days because billing data arrives late
+ */
+const DAILY_SPEND_LOOKBACK_DAYS = 3;
+
+export interface AlertEvaluationResult {
+  budgetsChecked: number;
+  rulesChecked: number;
+  alertsFired: number;
+}
+
+/**
+ * Deliver an alert through all of its owner's enabled channels
+ * A failing channel never prevents delivery through the others
+ */
+const dispatchAlert = async (alert: Alert): Promise<AlertDelivery[]> => {
+  const channels = await NotificationChannel.findAll({
+    where: { userId: alert.userId, enabled: true },
+  });
+
+  const message = {
+    subject: `[Cost Monitoring] ${alert.message}`,
+    text: alert.message,
+    data: {
+      alertId: alert.id,
+      sourceType: alert.sourceType,
+      sourceId: alert.sourceId,
+      threshold: Number(alert.threshold),
+      actualValue: Number(alert.actualValue),
+      periodKey: alert.periodKey,
+      dimension: alert.dimension,
+      firedAt: alert.createdAt,
+    },
+  };
+
+  return sendToChannels(channels, message, { alertId: alert.id });
+};
+
+/**
+ * Record an alert and dispatch it, unless the same alert already fired this period
+ * Returns whether a new alert was fired
+ */
+const fireAlert = async (attributes: AlertCreationAttributes): Promise<boolean> => {
+  const [alert, created] = await Alert.findOrCreate({
+    where: {
+      sourceType: attributes.sourceType,
+      sourceId: attributes.sourceId,
+      threshold: attributes.threshold,
+      periodKey: attributes.periodKey,
+      dimension: attributes.dimension || '',
+    },
+    defaults: attributes,
+  });
+
+  if (!created) {
+    return false;
+  }
+
+  const deliveries = await dispatchAlert(alert);
+  await alert.update({ deliveries });
+
+  log.info('Alert fired', {
+    alertId: alert.id,
+    userId: alert.userId,
+    message: alert.message,
+    deliveries: deliveries.length,
+  });
+  return true;
+};
+
+/**
+ * Fire an alert for every budget threshold crossed in the current period
+ */
+const evaluateBudget = async (budget: Budget, asOf: Date): Promise<number> => {
+  const status = await computeBudgetStatus(budget, asOf);
+
+  const fired = await Promise.all(status.thresholdsCrossed.map((threshold) => fireAlert({
+    userId: budget.userId,
+    sourceType: 'budget',
+    sourceId: budget.id,
+    threshold,
+    periodKey: status.periodStart,
+    actualValue: status.actualSpend,
+    message: `Budget "${budget.name}" reached ${threshold}% (${status.actualSpend.toFixed(2)} of ${status.amount.toFixed(2)} ${status.currency} for the ${budget.period} period starting ${status.periodStart})`,
+  })));
+  return fired.filter(Boolean).length;
+};
+
+/**
+ * Fire an alert for every service whose spend on a recent day exceeded the rule's threshold
+ * Spend and threshold are in the reporting currency
+ */
+const evaluateDailySpendRule = async (rule: AlertRule, asOf: Date): Promise<number> => {
+  const filters: Record<string, string> = {
+    startDate: toDateString(addDays(asOf, -(DAILY_SPEND_LOOKBACK_DAYS - 1))),
+    endDate: toDateString(asOf),
+  };
+  if (rule.accountId) {
+    filters['accountId'] = rule.accountId;
+  }
+  if (rule.serviceName) {
+    filters['serviceName'] = rule.serviceName;
+  }
+  if (rule.region) {
+    filters['region'] = rule.region;
+  }
+
+  const currency = getReportingCurrency();
+  const allowedAccountIds = await getAccessibleAccountIds(rule.userId);
+  const whereClause = buildCostWhereClause(filters, allowedAccountIds);
+  await assertExchangeRatesAvailable(whereClause, currency);
+  const dailyCosts = await fetchDailyCostByService(whereClause, currency);
+  const threshold = Number(rule.dailyThreshold);
+
+  const fired = await Promise.all(dailyCosts
+    .filter((item) => item.dailyCost > threshold)
+    .map((item) => fireAlert({
+      userId: rule.userId,
+      sourceType: 'daily_spend',
+      sourceId: rule.id,
+      threshold,
+      periodKey: item.date,
+      dimension: item.serviceName,
+      actualValue: item.dailyCost,
+      message: `${item.serviceName} spend on ${item.date} was ${item.dailyCost.toFixed(2)} ${currency}, above the ${threshold.toFixed(2)} ${currency} limit of rule "${rule.name}"`,
+    })));
+  return fired.filter(Boolean).length;
+};
+
+/**
+ * Check every budget and enabled daily spend rule and fire new alerts
+ * Each evaluation is isolated so one failing budget or rule does not stop the rest
+ */
+export const evaluateAlerts = async (asOfDate: Date = new Date()): Promise<AlertEvaluationResult> => {
+  const asOf = parseDateString(toDateString(asOfDate));
+  const [budgets, rules] = await Promise.all([
+    Budget.findAll(),
+    AlertRule.findAll({ where: { enabled: true } }),
+  ]);
+
+  let alertsFired = 0;
+  const evaluate = async (label: string, id: number, evaluation: () => Promise<number>): Promise<void> => {
+    try {
+      alertsFired += await evaluation();
+    } catch (error) {
+      log.error(`Error evaluating ${label}`, {
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  // Budgets, then rules, one at a time to keep the load on the database flat
+  const evaluations = [
+    ...budgets.map((budget) => () => evaluate('budget', budget.id, () => evaluateBudget(budget, asOf))),
+    ...rules.map((rule) => () => evaluate('alert rule', rule.id, () => evaluateDailySpendRule(rule, asOf))),
+  ];
+  for (let index = 0; index < evaluations.length; index += 1) {
+    // eslint-disable-next-line no-await-in-loop -- sequential on purpose, see above
+    await evaluations[index]!();
+  }
+
+  const result = { budgetsChecked: budgets.length, rulesChecked: rules.length, alertsFired };
+  log.info('Alert evaluation completed', result);
+  return result;
+};
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let evaluationRunning = false;
+
+/**
+ * Run alert evaluation on a fixed interval
+ * ALERT_EVALUATION_INTERVAL_MINUTES controls the interval (default 60, 0 disables)
+ */
+export const startAlertScheduler = (): void => {
+  const intervalMinutes = parseInt(process.env['ALERT_EVALUATION_INTERVAL_MINUTES'] || '60', 10);
+  if (!intervalMinutes || intervalMinutes <= 0 || schedulerTimer) {
+    return;
+  }
+
+  schedulerTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow evaluation
+    if (evaluationRunning) {
+      return;
+    }
+    evaluationRunning = true;
+    try {
+      await evaluateAlerts();
+    } catch (error) {
+      log.error('Scheduled alert evaluation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      evaluationRunning = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+  schedulerTimer.unref();
+
+  log.info('Alert scheduler started', { intervalMinutes });
+};
+
+export const stopAlertScheduler = (): void => {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+};
@@ -0,0 +1,189 @@
+import { Op } from 'sequelize';
+import NotificationChannel from '../models/NotificationChannel';
+import ReportDelivery from '../models/ReportDelivery';
+import ReportSchedule from '../models/ReportSchedule';
+import SavedView from '../models/SavedView';
+import { sendToChannels } from '../notifications';
+import {
+  AlertDelivery,
+  ReportDeliveryStatus,
+  ReportTrigger,
+  SavedViewFilters,
+} from '../types';
+import { buildCostReport, renderCostReport } from '../utils/costReport';
+import { getNextCronRun, parseCronExpression } from '../utils/cron';
+import { resolveDateRange } from '../utils/savedViews';
+import { log } from '../utils/logger';
+
+export interface ReportRunResult {
+  schedulesDue: number;
+  delivered: number;
+  failed: number;
+}
+
+/**
+ * Next time a schedule's cron expression fires in its time zone after `after`; null when it never does
+ */
+export const getNextReportRun = (cronExpression: string, timezone: string, after: Date = new Date()): Date | null => {
+  const cron = parseCronExpression(cronExpression);
+  return typeof cron === 'string' ? null : getNextCronRun(cron, after, timezone);
+};
+
+/**
+ * Filters of the schedule's saved view, which must still be owned by or shared with the schedule owner
+ */
+const loadReportFilters = async (schedule: ReportSchedule): Promise<SavedViewFilters> => {
+  if (!schedule.savedViewId) {
+    return {};
+  }
+
+  const view = await SavedView.findByPk(schedule.savedViewId);
+  if (!view || (view.userId !== schedule.userId && !view.sharedWith.includes(schedule.userId))) {
+    throw new Error('The saved view of this report is no longer shared with its owner');
+  }
+  return view.filters;
+};
+
+/**
+ * Build a schedule's report as of `asOf` and deliver it to the schedule's enabled channels
+ * Every run is recorded, including runs where the report could not be built
+ */
+export const deliverReport = async (schedule: ReportSchedule, trigger: ReportTrigger, asOf: Date = new Date()): Promise<ReportDelivery> => {
+  const range = resolveDateRange(schedule.dateRange, asOf);
+  let channels: AlertDelivery[] = [];
+  let error: string | null = null;
+
+  try {
+    const filters = await loadReportFilters(schedule);
+    const report = await buildCostReport(schedule.userId, { ...filters, ...range });
+    const message = renderCostReport(schedule.name, report, schedule.format);
+    message.data = { reportScheduleId: schedule.id, ...message.data };
+
+    const targets = await NotificationChannel.findAll({
+      where: { id: schedule.channelIds, userId: schedule.userId, enabled: true },
+    });
+    if (targets.length === 0) {
+      throw new Error('None of the report channels exist or are enabled');
+    }
+    channels = await sendToChannels(targets, message, { reportScheduleId: schedule.id });
+  } catch (reportError) {
+    error = reportError instanceof Error ? reportError.message : 'Unknown error';
+    log.error('Error building report', { reportScheduleId: schedule.id, error });
+  }
+
+  const sent = channels.filter((channel) => channel.status === 'sent').length;
+  let status: ReportDeliveryStatus = 'partial';
+  if (sent === 0) {
+    status = 'failed';
+  } else if (sent === channels.length) {
+    status = 'sent';
+  }
+
+  const delivery = await ReportDelivery.create({
+    scheduleId: schedule.id,
+    status,
+    trigger,
+    startDate: range.startDate,
+    endDate: range.endDate,
+    channels,
+    error,
+  });
+  await schedule.update({ lastRunAt: asOf });
+
+  log.info('Report delivery completed', {
+    reportScheduleId: schedule.id,
+    deliveryId: delivery.id,
+    trigger,
+    status,
+  });
+  return delivery;
+};
+
+/**
+ * Deliver every enabled schedule whose next run is due
+ * Runs missed while the scheduler was stopped are delivered once, not once per missed run
+ */
+export const runDueReports = async (now: Date = new Date()): Promise<ReportRunResult> => {
+  const schedules = await ReportSchedule.findAll({
+    where: { enabled: true, nextRunAt: { [Op.lte]: now } },
+    order: [['nextRunAt', 'ASC']],
+  });
+
+  const result: ReportRunResult = { schedulesDue: schedules.length, delivered: 0, failed: 0 };
+
+  const runSchedule = async (schedule: ReportSchedule): Promise<void> => {
+    try {
+      // Claim the run by moving nextRunAt on, so a run is delivered once even if schedulers overlap
+      const [claimed] = await ReportSchedule.update(
+        { nextRunAt: getNextReportRun(schedule.cronExpression, schedule.timezone, now) },
+        { where: { id: schedule.id, nextRunAt: schedule.nextRunAt } },
+      );
+      if (claimed > 0) {
+        const delivery = await deliverReport(schedule, 'schedule', now);
+        if (delivery.status === 'failed') {
+          result.failed += 1;
+        } else {
+          result.delivered += 1;
+        }
+      }
+    } catch (error) {
+      result.failed += 1;
+      log.error('Error running report schedule', {
+        id: schedule.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  // One schedule at a time, so a burst of due reports does not build them all at once
+  for (let index = 0; index < schedules.length; index += 1) {
+    // eslint-disable-next-line no-await-in-loop -- sequential on purpose, see above
+    await runSchedule(schedules[index]!);
+  }
+
+  if (schedules.length > 0) {
+    log.info('Scheduled reports run completed', result);
+  }
+  return result;
+};
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let runInProgress = false;
+
+/**
+ * Check for due reports on a fixed interval
+ * REPORT_SCHEDULER_INTERVAL_MINUTES controls the interval (default 1, 0 disables)
+ */
+export const startReportScheduler = (): void => {
+  const intervalMinutes = parseInt(process.env['REPORT_SCHEDULER_INTERVAL_MINUTES'] || '1', 10);
+  if (!intervalMinutes || intervalMinutes <= 0 || schedulerTimer) {
+    return;
+  }
+
+  schedulerTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow run
+    if (runInProgress) {
+      return;
+    }
+    runInProgress = true;
+    try {
+      await runDueReports();
+    } catch (error) {
+      log.error('Scheduled report run failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      runInProgress = false;
+    }
+  }, intervalMinutes * 60 * 1000);
+  schedulerTimer.unref();
+
+  log.info('Report scheduler started', { intervalMinutes });
+};
+
+export const stopReportScheduler = (): void => {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+};
@@ -1,24 +1,105 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, extractTokenFromHeader } from '../utils/jwt';
 import User from '../models/User';
+import { isSessionActive } from '../utils/refreshTokens';
+import { findActiveApiKey, getApiKeyRole } from '../utils/apiKeys';
 import { log } from '../utils/logger';
-import { AuthenticationError } from '../utils/errors';
+import { AuthenticationError, AuthorizationError } from '../utils/errors';
+import { UserRole } from '../types';
 
-export interface AuthenticatedRequest extends Request {
+export interface AuthenticatedRequest<
+  P = Request['params'],
+  ResBody = any,
+  ReqBody = any,
+  ReqQuery = Request['query'],
+> extends Request<P, ResBody, ReqBody, ReqQuery> {
   user?: {
     id: number;
     email: string;
+    role: UserRole;
+    /** Login session of the access token */
+    sessionId?: string;
+    /** API key the request was made with, instead of an access token */
+    apiKeyId?: number;
   };
 }
 
+/**
+ * Methods a read-scoped API key may use
+ */
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * The only requests an ingest-scoped API key may make: creating and importing cost records
+ */
+const INGEST_ENDPOINTS = ['POST /api/costs', 'POST /api/costs/import'];
+
+/**
+ * Method and full path of a request, matched the way Express routes (case-insensitive, optional trailing slash)
+ */
+const getEndpoint = (req: Request): string => `${req.method} ${`${req.baseUrl}${req.path}`.toLowerCase().replace(/\/+$/, '')}`;
+
+/**
+ * Authenticate a request by its X-API-Key header
+ * The request acts as the key's owner with the role allowed by the key's scope
+ */
+const authenticateApiKey = async (
+  req: AuthenticatedRequest,
+  key: string,
+  next: NextFunction,
+): Promise<void> => {
+  let found;
+  try {
+    found = await findActiveApiKey(key, req.ip ?? null);
+  } catch (error) {
+    log.error('API key lookup failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return next(new AuthenticationError('Invalid or expired API key'));
+  }
+
+  if (!found) {
+    log.warn('Authentication failed', {
+      error: 'Invalid API key',
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+    return next(new AuthenticationError('Invalid or expired API key'));
+  }
+
+  const { apiKey, user } = found;
+  if (apiKey.scope === 'read' && !READ_ONLY_METHODS.includes(req.method)) {
+    return next(new AuthorizationError('This API key is read-only'));
+  }
+  if (apiKey.scope === 'ingest' && !INGEST_ENDPOINTS.includes(getEndpoint(req))) {
+    return next(new AuthorizationError('This API key can only create and import cost records'));
+  }
+
+  req.user = {
+    id: user.id,
+    email: user.email,
+    role: getApiKeyRole(apiKey.scope, user.role),
+    apiKeyId: apiKey.id,
+  };
+
+  log.info('User authenticated successfully', { userId: user.id, email: user.email, apiKeyId: apiKey.id });
+  next();
+};
+
 /**
  * Authentication middleware to protect routes
+ * Accepts a Bearer access token, or an API key in the X-API-Key header
  */
 export const authenticate = async (
   req: AuthenticatedRequest,
   _res: Response,
   next: NextFunction,
 ): Promise<void> => {
+  const apiKey = req.get('X-API-Key');
+  if (apiKey && !req.headers.authorization) {
+    return authenticateApiKey(req, apiKey, next);
+  }
+
   try {
     const token = extractTokenFromHeader(req);
 
@@ -27,16 +108,27 @@ export const authenticate = async (
     }
 
     const decoded = verifyAccessToken(token);
+    if (!decoded.sessionId) {
+      throw new AuthenticationError('Access token has no session');
+    }
 
-    // Check if user exists
-    const user = await User.findByPk(decoded.userId);
+    // Check that the user exists and the token's session has not been revoked
+    const [user, sessionActive] = await Promise.all([
+      User.findByPk(decoded.userId),
+      isSessionActive(decoded.userId, decoded.sessionId),
+    ]);
     if (!user) {
       throw new AuthenticationError('User not found');
     }
+    if (!sessionActive) {
+      throw new AuthenticationError('Session has been revoked');
+    }
 
     req.user = {
       id: user.id,
       email: user.email,
+      role: user.role,
+      sessionId: decoded.sessionId,
     };
 
     log.info('User authenticated successfully', { userId: user.id, email: user.email });
@@ -47,6 +139,48 @@ export const authenticate = async (
       ip: req.ip,
       userAgent: req.get('User-Agent'),
     });
-    throw new AuthenticationError('Invalid or expired token');
+    next(new AuthenticationError('Invalid or expired token'));
+  }
+};
+
+/**
+ * Restrict a route to access tokens of a login session, e.g. to manage sessions,
+ * MFA or API keys; API keys are rejected
+ * Must be mounted after authenticate
+ */
+export const requireSession = (
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction,
+): void => {
+  if (req.user?.apiKeyId !== undefined) {
+    return next(new AuthorizationError('This endpoint cannot be used with an API key'));
+  }
+  next();
+};
+
+/**
+ * Authorization middleware to restrict routes to the given roles
+ * Must be mounted after authenticate
+ */
+export const authorize = (...roles: UserRole[]) => (
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction,
+): void => {
+  if (!req.user) {
+    return next(new AuthenticationError('Access token is required'));
+  }
+
+  if (!roles.includes(req.user.role)) {
+    log.warn('Authorization failed', {
+      userId: req.user.id,
+      role: req.user.role,
+      requiredRoles: roles,
+      path: req.originalUrl,
+    });
+    return next(new AuthorizationError('You do not have permission to perform this action'));
   }
+
+  next();
 };
@@ -1,14 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { ValidationError as SequelizeValidationError, UniqueConstraintError } from 'sequelize';
+import { MulterError } from 'multer';
 import { log } from '../utils/logger';
-import { AppError } from '../utils/errors';
+import { AccountLockedError, AppError } from '../utils/errors';
 
 /**
  * Global error handling middleware
  * Handles different types of errors and returns appropriate responses
  */
 const errorHandler = (
-  err: Error | SequelizeValidationError | UniqueConstraintError | AppError,
+  err: Error | SequelizeValidationError | UniqueConstraintError | MulterError | AppError,
   _req: Request,
   res: Response,
   _next: NextFunction,
@@ -38,6 +39,11 @@ const errorHandler = (
       response.errors = err.errors;
     }
 
+    if (err instanceof AccountLockedError) {
+      response.lockedUntil = err.lockedUntil.toISOString();
+      res.set('Retry-After', String(Math.max(Math.ceil((err.lockedUntil.getTime() - Date.now()) / 1000), 1)));
+    }
+
     res.status(err.statusCode).json(response);
     return;
   }
@@ -76,6 +82,16 @@ const errorHandler = (
     return;
   }
 
+  // File upload errors (size limit, unexpected field)
+  if (err instanceof MulterError) {
+    res.status(400).json({
+      success: false,
+      message: err.message,
+      errors: [{ field: err.field || 'file', message: err.message }],
+    });
+    return;
+  }
+
   // Default error
   const status = (err as any).status || 500;
   const isOperational = err instanceof AppError ? err.isOperational : false;
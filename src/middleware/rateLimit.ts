@@ -0,0 +1,37 @@
+import { Request } from 'express';
+import rateLimit from 'express-rate-limit';
+
+const AUTH_RATE_LIMIT_MESSAGE = {
+  success: false,
+  message: 'Too many attempts, please try again later.',
+};
+
+const getAuthWindowMs = (): number => parseFloat(process.env['AUTH_RATE_LIMIT_WINDOW_MINUTES'] || '15') * 60 * 1000;
+
+/**
+ * The email address a request is about, trimmed and lower-cased; empty when there is none
+ */
+const getRequestEmail = (req: Request): string => (typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '');
+
+/**
+ * Stricter rate limit for the auth endpoints, counted per IP
+ * The cap is higher than the per-email one so users sharing an IP keep room to log in,
+ * while one client still cannot spread guesses across many accounts
+ */
+export const authIpLimiter = rateLimit({
+  windowMs: getAuthWindowMs(),
+  max: parseInt(process.env['AUTH_IP_RATE_LIMIT_MAX'] || '50', 10),
+  message: AUTH_RATE_LIMIT_MESSAGE,
+});
+
+/**
+ * Rate limit for auth endpoints that take an email address, counted per address
+ * Caps the attempts against one account however many IPs they come from
+ */
+export const authEmailLimiter = rateLimit({
+  windowMs: getAuthWindowMs(),
+  max: parseInt(process.env['AUTH_RATE_LIMIT_MAX'] || '10', 10),
+  keyGenerator: (req: Request) => getRequestEmail(req),
+  skip: (req: Request) => getRequestEmail(req) === '',
+  message: AUTH_RATE_LIMIT_MESSAGE,
+});
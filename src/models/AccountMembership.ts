@@ -0,0 +1,73 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import {
+  AccountAccessLevel,
+  AccountMembershipAttributes,
+  AccountMembershipCreationAttributes,
+} from '../types';
+
+/**
+ * AccountMembership Model
+ * Grants a user read or write access to the cost records of one AWS account
+ */
+class AccountMembership extends Model<AccountMembershipAttributes, AccountMembershipCreationAttributes> implements AccountMembershipAttributes {
+  public id!: number;
+
+  public userId!: number;
+
+  public accountId!: string;
+
+  public accessLevel!: AccountAccessLevel;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+AccountMembership.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      comment: 'User granted access to the account',
+    },
+    accountId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      field: 'account_id',
+      comment: 'AWS account ID',
+    },
+    accessLevel: {
+      type: DataTypes.ENUM('read', 'write'),
+      allowNull: false,
+      defaultValue: 'read',
+      field: 'access_level',
+      comment: 'read allows viewing cost records, write also allows modifying them',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'account_memberships',
+    indexes: [
+      {
+        unique: true,
+        fields: ['user_id', 'account_id'],
+      },
+      {
+        fields: ['account_id'],
+      },
+    ],
+  },
+);
+
+User.hasMany(AccountMembership, { foreignKey: 'userId', as: 'accountMemberships', onDelete: 'CASCADE' });
+AccountMembership.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default AccountMembership;
@@ -0,0 +1,118 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import {
+  AlertAttributes,
+  AlertCreationAttributes,
+  AlertDelivery,
+  AlertSourceType,
+} from '../types';
+
+/**
+ * Alert Model
+ * A fired budget threshold or daily spend rule
+ * Unique per source, threshold, period and dimension so each alert fires once per period
+ */
+class Alert extends Model<AlertAttributes, AlertCreationAttributes> implements AlertAttributes {
+  public id!: number;
+
+  public userId!: number;
+
+  public sourceType!: AlertSourceType;
+
+  public sourceId!: number;
+
+  public threshold!: number;
+
+  public periodKey!: string;
+
+  public dimension!: string;
+
+  public actualValue!: number;
+
+  public message!: string;
+
+  public deliveries!: AlertDelivery[];
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+Alert.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      comment: 'Owner of the budget or rule that fired',
+    },
+    sourceType: {
+      type: DataTypes.ENUM('budget', 'daily_spend'),
+      allowNull: false,
+      field: 'source_type',
+    },
+    sourceId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'source_id',
+      comment: 'Budget or alert rule ID',
+    },
+    threshold: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      comment: 'Budget percentage or daily amount that was crossed',
+    },
+    periodKey: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      field: 'period_key',
+      comment: 'Budget period start or the day of the spend (YYYY-MM-DD)',
+    },
+    dimension: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: '',
+      comment: 'Service the alert is about, empty for budgets',
+    },
+    actualValue: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      field: 'actual_value',
+    },
+    message: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    deliveries: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+      comment: 'Delivery result per notification channel',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'alerts',
+    indexes: [
+      {
+        name: 'alerts_dedupe_key',
+        unique: true,
+        fields: ['source_type', 'source_id', 'threshold', 'period_key', 'dimension'],
+      },
+      {
+        fields: ['user_id'],
+      },
+    ],
+  },
+);
+
+User.hasMany(Alert, { foreignKey: 'userId', as: 'alerts', onDelete: 'CASCADE' });
+Alert.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default Alert;
@@ -0,0 +1,95 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import { AlertRuleAttributes, AlertRuleCreationAttributes } from '../types';
+
+/**
+ * AlertRule Model
+ * Fires when a service's spend on a single day exceeds an absolute amount
+ */
+class AlertRule extends Model<AlertRuleAttributes, AlertRuleCreationAttributes> implements AlertRuleAttributes {
+  public id!: number;
+
+  public userId!: number;
+
+  public name!: string;
+
+  public dailyThreshold!: number;
+
+  public accountId!: string | null;
+
+  public serviceName!: string | null;
+
+  public region!: string | null;
+
+  public enabled!: boolean;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+AlertRule.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      comment: 'Owner of the rule',
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    dailyThreshold: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      field: 'daily_threshold',
+      comment: 'Daily spend per service in USD above which the rule fires',
+    },
+    accountId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      field: 'account_id',
+      comment: 'Only count costs of this AWS account',
+    },
+    serviceName: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      field: 'service_name',
+      comment: 'Only check this service (every service when empty)',
+    },
+    region: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Only count costs in this region',
+    },
+    enabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'alert_rules',
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+    ],
+  },
+);
+
+User.hasMany(AlertRule, { foreignKey: 'userId', as: 'alertRules', onDelete: 'CASCADE' });
+AlertRule.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default AlertRule;
@@ -0,0 +1,129 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import {
+  AllocationMethod,
+  AllocationRuleAttributes,
+  AllocationRuleCreationAttributes,
+  AllocationSplit,
+  ALLOCATION_METHODS,
+} from '../types';
+
+/**
+ * AllocationRule Model
+ * Assigns shared costs matching the rule to teams, either by fixed percentages
+ * or in proportion to each team's own spend
+ */
+class AllocationRule extends Model<AllocationRuleAttributes, AllocationRuleCreationAttributes> implements AllocationRuleAttributes {
+  public id!: number;
+
+  public name!: string;
+
+  public priority!: number;
+
+  public serviceName!: string | null;
+
+  public accountId!: string | null;
+
+  public usageType!: string | null;
+
+  public tagKey!: string | null;
+
+  public tagValue!: string | null;
+
+  public method!: AllocationMethod;
+
+  public splits!: AllocationSplit[];
+
+  public basisServiceName!: string | null;
+
+  public enabled!: boolean;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+AllocationRule.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    priority: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 100,
+      comment: 'Rules are applied in ascending priority; the first match wins',
+    },
+    serviceName: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      field: 'service_name',
+      comment: 'Match costs of this service',
+    },
+    accountId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      field: 'account_id',
+      comment: 'Match costs of this AWS account',
+    },
+    usageType: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      field: 'usage_type',
+      comment: 'Match costs of this usage type',
+    },
+    tagKey: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      field: 'tag_key',
+      comment: 'Match costs carrying this tag',
+    },
+    tagValue: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      field: 'tag_value',
+      comment: 'Match costs whose tag has this value',
+    },
+    method: {
+      type: DataTypes.ENUM(...ALLOCATION_METHODS),
+      allowNull: false,
+    },
+    splits: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+      comment: 'Target teams and percentages for fixed splits',
+    },
+    basisServiceName: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      field: 'basis_service_name',
+      comment: 'Proportional splits use team spend on this service (all direct spend when empty)',
+    },
+    enabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'allocation_rules',
+    indexes: [
+      {
+        fields: ['priority'],
+      },
+    ],
+  },
+);
+
+export default AllocationRule;
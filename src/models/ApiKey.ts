@@ -0,0 +1,117 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import {
+  ApiKeyAttributes,
+  ApiKeyCreationAttributes,
+  ApiKeyScope,
+  API_KEY_SCOPES,
+} from '../types';
+
+/**
+ * ApiKey Model
+ * A named credential for scripts and pipelines, sent in the X-API-Key header
+ * It acts as its owner, limited by its scope; only a SHA-256 hash of the key is stored
+ */
+class ApiKey extends Model<ApiKeyAttributes, ApiKeyCreationAttributes> implements ApiKeyAttributes {
+  public id!: number;
+
+  public userId!: number;
+
+  public name!: string;
+
+  public scope!: ApiKeyScope;
+
+  public prefix!: string;
+
+  public keyHash!: string;
+
+  public expiresAt!: Date | null;
+
+  public lastUsedAt!: Date | null;
+
+  public lastUsedIp!: string | null;
+
+  public revokedAt!: Date | null;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+ApiKey.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    scope: {
+      type: DataTypes.ENUM(...API_KEY_SCOPES),
+      allowNull: false,
+    },
+    prefix: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      comment: 'Start of the key, shown so users can tell their keys apart',
+    },
+    keyHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      field: 'key_hash',
+      comment: 'Hex SHA-256 of the full key',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'expires_at',
+      comment: 'Null for keys that do not expire',
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'last_used_at',
+    },
+    lastUsedIp: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      field: 'last_used_ip',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'api_keys',
+    indexes: [
+      {
+        unique: true,
+        fields: ['key_hash'],
+      },
+      {
+        fields: ['user_id'],
+      },
+    ],
+  },
+);
+
+User.hasMany(ApiKey, { foreignKey: 'userId', as: 'apiKeys', onDelete: 'CASCADE' });
+ApiKey.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default ApiKey;
@@ -0,0 +1,85 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import {
+  AuditAction,
+  AUDIT_ACTIONS,
+  AuditLogAttributes,
+  AuditLogCreationAttributes,
+} from '../types';
+
+/**
+ * AuditLog Model
+ * Append-only record of security-relevant events on user accounts
+ * Entries outlive the users they mention, so both user references are set to null on delete
+ */
+class AuditLog extends Model<AuditLogAttributes, AuditLogCreationAttributes> implements AuditLogAttributes {
+  public id!: number;
+
+  public action!: AuditAction;
+
+  public userId!: number | null;
+
+  public actorId!: number | null;
+
+  public ipAddress!: string | null;
+
+  public details!: Record<string, unknown>;
+
+  public readonly createdAt!: Date;
+}
+
+AuditLog.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    action: {
+      type: DataTypes.ENUM(...AUDIT_ACTIONS),
+      allowNull: false,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'user_id',
+      comment: 'User account the event is about',
+    },
+    actorId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'actor_id',
+      comment: 'User who caused the event; null for events raised by the system',
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      field: 'ip_address',
+    },
+    details: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+    },
+  },
+  {
+    sequelize,
+    tableName: 'audit_logs',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['user_id', 'created_at'],
+      },
+      {
+        fields: ['action'],
+      },
+    ],
+  },
+);
+
+User.hasMany(AuditLog, { foreignKey: 'userId', as: 'auditLogs', onDelete: 'SET NULL' });
+AuditLog.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+AuditLog.belongsTo(User, { foreignKey: 'actorId', as: 'actor', onDelete: 'SET NULL' });
+
+export default AuditLog;
@@ -0,0 +1,108 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import {
+  BudgetAttributes,
+  BudgetCreationAttributes,
+  BudgetPeriod,
+  BUDGET_PERIODS,
+} from '../types';
+
+/**
+ * Budget Model
+ * A spend limit per period, optionally narrowed to one account, service or region
+ */
+class Budget extends Model<BudgetAttributes, BudgetCreationAttributes> implements BudgetAttributes {
+  public id!: number;
+
+  public userId!: number;
+
+  public name!: string;
+
+  public amount!: number;
+
+  public period!: BudgetPeriod;
+
+  public accountId!: string | null;
+
+  public serviceName!: string | null;
+
+  public region!: string | null;
+
+  public alertThresholds!: number[];
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+Budget.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      comment: 'Owner of the budget',
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      comment: 'Budgeted amount in the reporting currency per period',
+    },
+    period: {
+      type: DataTypes.ENUM(...BUDGET_PERIODS),
+      allowNull: false,
+      defaultValue: 'monthly',
+    },
+    accountId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      field: 'account_id',
+      comment: 'Only count costs of this AWS account',
+    },
+    serviceName: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      field: 'service_name',
+      comment: 'Only count costs of this service',
+    },
+    region: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Only count costs in this region',
+    },
+    alertThresholds: {
+      type: DataTypes.ARRAY(DataTypes.INTEGER),
+      allowNull: false,
+      defaultValue: [50, 80, 100],
+      field: 'alert_thresholds',
+      comment: 'Percentages of the amount that trigger alerts',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'budgets',
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+    ],
+  },
+);
+
+User.hasMany(Budget, { foreignKey: 'userId', as: 'budgets', onDelete: 'CASCADE' });
+Budget.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default Budget;
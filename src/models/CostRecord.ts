@@ -1,14 +1,21 @@
 import { DataTypes, Model } from 'sequelize';
 import sequelize from '../config/database';
-import { CostRecordAttributes, CostRecordCreationAttributes } from '../types';
+import {
+  CloudProvider, CLOUD_PROVIDERS, CostRecordAttributes, CostRecordCreationAttributes,
+} from '../types';
+import { isTagMap } from '../utils/costTags';
 
 /**
  * CostRecord Model
- * Represents AWS cost records with service details, amounts, and metadata
+ * Represents AWS, Azure and GCP cost records with service details, amounts, and metadata
+ * Records are unique per (provider, date, accountId, serviceName, region, resourceId, usageType)
+ * and carry cost allocation tags as a key/value map
  */
 class CostRecord extends Model<CostRecordAttributes, CostRecordCreationAttributes> implements CostRecordAttributes {
   public id!: number;
 
+  public provider!: CloudProvider;
+
   public date!: Date;
 
   public serviceName!: string;
@@ -25,6 +32,10 @@ class CostRecord extends Model<CostRecordAttributes, CostRecordCreationAttribute
 
   public description?: string;
 
+  public tags!: Record<string, string>;
+
+  public currency!: string;
+
   public readonly createdAt!: Date;
 
   public readonly updatedAt!: Date;
@@ -37,6 +48,12 @@ CostRecord.init(
       primaryKey: true,
       autoIncrement: true,
     },
+    provider: {
+      type: DataTypes.ENUM(...CLOUD_PROVIDERS),
+      allowNull: false,
+      defaultValue: 'aws',
+      comment: 'Cloud provider the cost was billed by',
+    },
     date: {
       type: DataTypes.DATEONLY,
       allowNull: false,
@@ -46,34 +63,36 @@ CostRecord.init(
       type: DataTypes.STRING,
       allowNull: false,
       field: 'service_name',
-      comment: 'AWS service name (EC2, S3, Lambda, RDS, etc.)',
+      comment: 'Service name (EC2, S3, Virtual Machines, Compute Engine, etc.)',
     },
     costAmount: {
       type: DataTypes.DECIMAL(10, 2),
       allowNull: false,
       field: 'cost_amount',
-      comment: 'Cost amount in USD',
+      comment: 'Cost amount in the record currency',
     },
     region: {
       type: DataTypes.STRING,
       allowNull: false,
-      comment: 'AWS region (us-east-1, us-west-2, etc.)',
+      comment: 'Provider region (us-east-1, westeurope, europe-west1, etc.)',
     },
     accountId: {
       type: DataTypes.STRING,
       allowNull: false,
       field: 'account_id',
-      comment: 'AWS account ID',
+      comment: 'AWS account ID, Azure subscription ID or GCP project ID',
     },
     resourceId: {
       type: DataTypes.STRING,
-      allowNull: true,
+      allowNull: false,
+      defaultValue: '',
       field: 'resource_id',
-      comment: 'AWS resource identifier',
+      comment: 'Provider resource identifier (empty when not resource-specific)',
     },
     usageType: {
       type: DataTypes.STRING,
-      allowNull: true,
+      allowNull: false,
+      defaultValue: '',
       field: 'usage_type',
       comment: 'Type of usage (e.g., BoxUsage, DataTransfer)',
     },
@@ -82,11 +101,36 @@ CostRecord.init(
       allowNull: true,
       comment: 'Additional description of the cost',
     },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      defaultValue: 'USD',
+      comment: 'ISO 4217 currency code of cost_amount',
+      validate: {
+        is: /^[A-Z]{3}$/,
+      },
+    },
+    tags: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+      comment: 'Cost allocation tags (e.g. {"team": "payments"})',
+      validate: {
+        isTagMap(value: unknown) {
+          if (!isTagMap(value)) {
+            throw new Error('Tags must map tag keys to string values');
+          }
+        },
+      },
+    },
   },
   {
     sequelize,
     tableName: 'cost_records',
     indexes: [
+      {
+        fields: ['provider'],
+      },
       {
         fields: ['date'],
       },
@@ -99,6 +143,17 @@ CostRecord.init(
       {
         fields: ['account_id'],
       },
+      {
+        name: 'cost_records_tags',
+        using: 'gin',
+        fields: ['tags'],
+      },
+      {
+        // Natural key: one row per provider, day, account, service, region, resource and usage type
+        name: 'cost_records_natural_key',
+        unique: true,
+        fields: ['provider', 'date', 'account_id', 'service_name', 'region', 'resource_id', 'usage_type'],
+      },
     ],
   },
 );
@@ -0,0 +1,75 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import { ExchangeRateAttributes, ExchangeRateCreationAttributes } from '../types';
+
+/**
+ * ExchangeRate Model
+ * Rate to convert one unit of `fromCurrency` into `toCurrency`, effective from `date`
+ * until the next rate for the same pair
+ */
+class ExchangeRate extends Model<ExchangeRateAttributes, ExchangeRateCreationAttributes> implements ExchangeRateAttributes {
+  public id!: number;
+
+  public date!: string;
+
+  public fromCurrency!: string;
+
+  public toCurrency!: string;
+
+  public rate!: number;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+ExchangeRate.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+      comment: 'First day the rate applies',
+    },
+    fromCurrency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      field: 'from_currency',
+      validate: {
+        is: /^[A-Z]{3}$/,
+      },
+    },
+    toCurrency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      field: 'to_currency',
+      validate: {
+        is: /^[A-Z]{3}$/,
+      },
+    },
+    rate: {
+      type: DataTypes.DECIMAL(18, 8),
+      allowNull: false,
+      validate: {
+        min: 0.00000001,
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'exchange_rates',
+    indexes: [
+      {
+        name: 'exchange_rates_pair_date',
+        unique: true,
+        fields: ['from_currency', 'to_currency', 'date'],
+      },
+    ],
+  },
+);
+
+export default ExchangeRate;
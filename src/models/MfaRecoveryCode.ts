@@ -0,0 +1,64 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import { MfaRecoveryCodeAttributes, MfaRecoveryCodeCreationAttributes } from '../types';
+
+/**
+ * MfaRecoveryCode Model
+ * A single-use code that stands in for a TOTP code when the authenticator is unavailable
+ * Only a SHA-256 hash of the code is stored
+ */
+class MfaRecoveryCode extends Model<MfaRecoveryCodeAttributes, MfaRecoveryCodeCreationAttributes> implements MfaRecoveryCodeAttributes {
+  public id!: number;
+
+  public userId!: number;
+
+  public codeHash!: string;
+
+  public usedAt!: Date | null;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+MfaRecoveryCode.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    codeHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      field: 'code_hash',
+      comment: 'Hex SHA-256 of the normalized recovery code',
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'used_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'mfa_recovery_codes',
+    indexes: [
+      {
+        unique: true,
+        fields: ['user_id', 'code_hash'],
+      },
+    ],
+  },
+);
+
+User.hasMany(MfaRecoveryCode, { foreignKey: 'userId', as: 'mfaRecoveryCodes', onDelete: 'CASCADE' });
+MfaRecoveryCode.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default MfaRecoveryCode;
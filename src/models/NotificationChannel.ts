@@ -0,0 +1,79 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import { NotificationChannelAttributes, NotificationChannelCreationAttributes } from '../types';
+
+/**
+ * NotificationChannel Model
+ * Where a user's alerts are delivered; config depends on the channel type
+ */
+class NotificationChannel extends Model<NotificationChannelAttributes, NotificationChannelCreationAttributes> implements NotificationChannelAttributes {
+  public id!: number;
+
+  public userId!: number;
+
+  public name!: string;
+
+  public type!: string;
+
+  public config!: Record<string, unknown>;
+
+  public enabled!: boolean;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+NotificationChannel.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      comment: 'Owner of the channel',
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    type: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      comment: 'Registered notifier type (webhook, email, ...)',
+    },
+    config: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+      comment: 'Notifier settings such as the webhook URL or email recipients',
+    },
+    enabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'notification_channels',
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+    ],
+  },
+);
+
+User.hasMany(NotificationChannel, { foreignKey: 'userId', as: 'notificationChannels', onDelete: 'CASCADE' });
+NotificationChannel.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default NotificationChannel;
@@ -0,0 +1,68 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import { OidcLoginRequestAttributes, OidcLoginRequestCreationAttributes } from '../types';
+
+/**
+ * OidcLoginRequest Model
+ * The state, nonce and PKCE code verifier of a started single sign-on login
+ * Deleted when the login completes, so each state can only be used once
+ */
+class OidcLoginRequest extends Model<OidcLoginRequestAttributes, OidcLoginRequestCreationAttributes> implements OidcLoginRequestAttributes {
+  public id!: number;
+
+  public state!: string;
+
+  public nonce!: string;
+
+  public codeVerifier!: string;
+
+  public expiresAt!: Date;
+
+  public readonly createdAt!: Date;
+}
+
+OidcLoginRequest.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    state: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    nonce: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    codeVerifier: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+      field: 'code_verifier',
+      comment: 'PKCE verifier; only its S256 challenge is sent to the identity provider',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'oidc_login_requests',
+    updatedAt: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ['state'],
+      },
+      {
+        fields: ['expires_at'],
+      },
+    ],
+  },
+);
+
+export default OidcLoginRequest;
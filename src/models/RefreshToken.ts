@@ -0,0 +1,108 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import Session from './Session';
+import {
+  RefreshTokenAttributes,
+  RefreshTokenCreationAttributes,
+  RefreshTokenRevocationReason,
+  REFRESH_TOKEN_REVOCATION_REASONS,
+} from '../types';
+
+/**
+ * RefreshToken Model
+ * An issued refresh token, identified by its jti claim
+ * Tokens of one login session form a family: each refresh revokes the presented
+ * token and issues its successor with the same session id
+ */
+class RefreshToken extends Model<RefreshTokenAttributes, RefreshTokenCreationAttributes> implements RefreshTokenAttributes {
+  public id!: number;
+
+  public jti!: string;
+
+  public userId!: number;
+
+  public sessionId!: string;
+
+  public expiresAt!: Date;
+
+  public revokedAt!: Date | null;
+
+  public revokedReason!: RefreshTokenRevocationReason | null;
+
+  public replacedBy!: string | null;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+RefreshToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    jti: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      unique: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    sessionId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      field: 'session_id',
+      comment: 'Login session (token family) the token belongs to',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+    revokedReason: {
+      type: DataTypes.ENUM(...REFRESH_TOKEN_REVOCATION_REASONS),
+      allowNull: true,
+      field: 'revoked_reason',
+    },
+    replacedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      field: 'replaced_by',
+      comment: 'jti of the token issued when this one was rotated',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'refresh_tokens',
+    indexes: [
+      {
+        unique: true,
+        fields: ['jti'],
+      },
+      {
+        fields: ['user_id'],
+      },
+      {
+        fields: ['session_id'],
+      },
+    ],
+  },
+);
+
+User.hasMany(RefreshToken, { foreignKey: 'userId', as: 'refreshTokens', onDelete: 'CASCADE' });
+RefreshToken.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+Session.hasMany(RefreshToken, { foreignKey: 'sessionId', as: 'refreshTokens', onDelete: 'CASCADE' });
+RefreshToken.belongsTo(Session, { foreignKey: 'sessionId', as: 'session' });
+
+export default RefreshToken;
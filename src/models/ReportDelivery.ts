@@ -0,0 +1,96 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import ReportSchedule from './ReportSchedule';
+import {
+  AlertDelivery,
+  ReportDeliveryAttributes,
+  ReportDeliveryCreationAttributes,
+  ReportDeliveryStatus,
+  ReportTrigger,
+} from '../types';
+
+/**
+ * ReportDelivery Model
+ * One run of a report schedule and its outcome per notification channel
+ */
+class ReportDelivery extends Model<ReportDeliveryAttributes, ReportDeliveryCreationAttributes> implements ReportDeliveryAttributes {
+  public id!: number;
+
+  public scheduleId!: number;
+
+  public status!: ReportDeliveryStatus;
+
+  public trigger!: ReportTrigger;
+
+  public startDate!: string | null;
+
+  public endDate!: string | null;
+
+  public channels!: AlertDelivery[];
+
+  public error!: string | null;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+ReportDelivery.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    scheduleId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'schedule_id',
+    },
+    status: {
+      type: DataTypes.ENUM('sent', 'partial', 'failed'),
+      allowNull: false,
+      comment: 'sent when every channel succeeded, partial when some did',
+    },
+    trigger: {
+      type: DataTypes.ENUM('schedule', 'manual'),
+      allowNull: false,
+    },
+    startDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+      field: 'start_date',
+      comment: 'Period covered by the report; null when it failed before the period was resolved',
+    },
+    endDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+      field: 'end_date',
+    },
+    channels: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+      comment: 'Delivery outcome per notification channel',
+    },
+    error: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: 'Why the report could not be built',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'report_deliveries',
+    indexes: [
+      {
+        fields: ['schedule_id', 'created_at'],
+      },
+    ],
+  },
+);
+
+ReportSchedule.hasMany(ReportDelivery, { foreignKey: 'scheduleId', as: 'deliveries', onDelete: 'CASCADE' });
+ReportDelivery.belongsTo(ReportSchedule, { foreignKey: 'scheduleId', as: 'schedule' });
+
+export default ReportDelivery;
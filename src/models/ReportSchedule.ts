@@ -0,0 +1,143 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import SavedView from './SavedView';
+import {
+  RelativeDateRange,
+  RELATIVE_DATE_RANGES,
+  ReportFormat,
+  REPORT_FORMATS,
+  ReportScheduleAttributes,
+  ReportScheduleCreationAttributes,
+} from '../types';
+
+/**
+ * ReportSchedule Model
+ * A cost report delivered to some of its owner's notification channels on a cron schedule
+ * Costs are filtered by an optional saved view and cover a relative date range resolved at each run
+ */
+class ReportSchedule extends Model<ReportScheduleAttributes, ReportScheduleCreationAttributes> implements ReportScheduleAttributes {
+  public id!: number;
+
+  public userId!: number;
+
+  public name!: string;
+
+  public cronExpression!: string;
+
+  public timezone!: string;
+
+  public savedViewId!: number | null;
+
+  public dateRange!: RelativeDateRange;
+
+  public format!: ReportFormat;
+
+  public channelIds!: number[];
+
+  public enabled!: boolean;
+
+  public lastRunAt!: Date | null;
+
+  public nextRunAt!: Date | null;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+ReportSchedule.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      comment: 'Owner of the schedule; reports only cover accounts they can access',
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    cronExpression: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      field: 'cron_expression',
+      comment: 'Five-field cron expression, evaluated in timezone',
+    },
+    timezone: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      defaultValue: 'UTC',
+      comment: 'IANA time zone the cron expression is evaluated in',
+    },
+    savedViewId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'saved_view_id',
+      comment: 'Saved view whose filters apply to the report; all costs when null',
+    },
+    dateRange: {
+      type: DataTypes.ENUM(...RELATIVE_DATE_RANGES),
+      allowNull: false,
+      defaultValue: 'last_7_days',
+      field: 'date_range',
+      comment: 'Period covered by each report, resolved at run time',
+    },
+    format: {
+      type: DataTypes.ENUM(...REPORT_FORMATS),
+      allowNull: false,
+      defaultValue: 'html',
+      comment: 'html body or csv attachments',
+    },
+    channelIds: {
+      type: DataTypes.ARRAY(DataTypes.INTEGER),
+      allowNull: false,
+      defaultValue: [],
+      field: 'channel_ids',
+      comment: 'Notification channels the report is delivered to',
+    },
+    enabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    lastRunAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'last_run_at',
+    },
+    nextRunAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'next_run_at',
+      comment: 'Next time the scheduler delivers the report',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'report_schedules',
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+      {
+        fields: ['enabled', 'next_run_at'],
+      },
+    ],
+  },
+);
+
+User.hasMany(ReportSchedule, { foreignKey: 'userId', as: 'reportSchedules', onDelete: 'CASCADE' });
+ReportSchedule.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+SavedView.hasMany(ReportSchedule, { foreignKey: 'savedViewId', as: 'reportSchedules', onDelete: 'SET NULL' });
+ReportSchedule.belongsTo(SavedView, { foreignKey: 'savedViewId', as: 'savedView' });
+
+export default ReportSchedule;
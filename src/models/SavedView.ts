@@ -0,0 +1,114 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import {
+  RelativeDateRange,
+  RELATIVE_DATE_RANGES,
+  SavedViewAttributes,
+  SavedViewCreationAttributes,
+  SavedViewFilters,
+} from '../types';
+
+/**
+ * SavedView Model
+ * A named cost filter preset owned by a user, with either a relative date range
+ * resolved on every use or a fixed start and end date, optionally shared with other users
+ */
+class SavedView extends Model<SavedViewAttributes, SavedViewCreationAttributes> implements SavedViewAttributes {
+  public id!: number;
+
+  public userId!: number;
+
+  public name!: string;
+
+  public description!: string | null;
+
+  public filters!: SavedViewFilters;
+
+  public dateRange!: RelativeDateRange | null;
+
+  public startDate!: string | null;
+
+  public endDate!: string | null;
+
+  public sharedWith!: number[];
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+SavedView.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+      comment: 'Owner of the view',
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    filters: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+      comment: 'Provider, service, region, account, tag and currency filters',
+    },
+    dateRange: {
+      type: DataTypes.ENUM(...RELATIVE_DATE_RANGES),
+      allowNull: true,
+      field: 'date_range',
+      comment: 'Relative date range resolved when the view is used',
+    },
+    startDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+      field: 'start_date',
+    },
+    endDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+      field: 'end_date',
+    },
+    sharedWith: {
+      type: DataTypes.ARRAY(DataTypes.INTEGER),
+      allowNull: false,
+      defaultValue: [],
+      field: 'shared_with',
+      comment: 'Users who can see and use the view',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'saved_views',
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+      {
+        name: 'saved_views_shared_with',
+        using: 'gin',
+        fields: ['shared_with'],
+      },
+    ],
+  },
+);
+
+User.hasMany(SavedView, { foreignKey: 'userId', as: 'savedViews', onDelete: 'CASCADE' });
+SavedView.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default SavedView;
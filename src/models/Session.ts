@@ -0,0 +1,86 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import { SessionAttributes, SessionCreationAttributes } from '../types';
+
+/**
+ * Session Model
+ * A login on one device; its id is the session id carried by the access and refresh tokens
+ * Revoking a session invalidates its refresh tokens and any access tokens still in use
+ */
+class Session extends Model<SessionAttributes, SessionCreationAttributes> implements SessionAttributes {
+  public id!: string;
+
+  public userId!: number;
+
+  public ipAddress!: string | null;
+
+  public userAgent!: string | null;
+
+  public lastUsedAt!: Date;
+
+  public expiresAt!: Date;
+
+  public revokedAt!: Date | null;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+Session.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      field: 'ip_address',
+      comment: 'Client address of the last login or refresh',
+    },
+    userAgent: {
+      type: DataTypes.STRING(512),
+      allowNull: true,
+      field: 'user_agent',
+      comment: 'User-Agent of the last login or refresh',
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'last_used_at',
+      comment: 'Time of the last login or refresh',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+      comment: 'Expiry of the latest refresh token',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'sessions',
+    indexes: [
+      {
+        fields: ['user_id'],
+      },
+    ],
+  },
+);
+
+User.hasMany(Session, { foreignKey: 'userId', as: 'sessions', onDelete: 'CASCADE' });
+Session.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default Session;
@@ -1,16 +1,31 @@
 import { Model, DataTypes } from 'sequelize';
 import bcrypt from 'bcryptjs';
 import sequelize from '../config/database';
+import { UserRole, USER_ROLES } from '../types';
 
 interface UserAttributes {
   id: number;
   email: string;
   password: string;
+  role: UserRole;
+  emailVerifiedAt?: Date | null;
+  failedLoginAttempts?: number;
+  lockedUntil?: Date | null;
+  mfaSecret?: string | null;
+  mfaEnabledAt?: Date | null;
+  mfaLastUsedStep?: number | null;
+  oidcIssuer?: string | null;
+  oidcSubject?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface UserCreationAttributes extends Omit<UserAttributes, 'id' | 'createdAt' | 'updatedAt'> {}
+interface UserCreationAttributes extends Omit<UserAttributes, 'id' | 'role' | 'emailVerifiedAt' | 'failedLoginAttempts' | 'lockedUntil' | 'mfaSecret' | 'mfaEnabledAt' | 'mfaLastUsedStep' | 'oidcIssuer' | 'oidcSubject' | 'createdAt' | 'updatedAt'> {
+  role?: UserRole;
+  emailVerifiedAt?: Date | null;
+  oidcIssuer?: string | null;
+  oidcSubject?: string | null;
+}
 
 class User extends Model<UserAttributes, UserCreationAttributes> implements UserAttributes {
   public id!: number;
@@ -19,6 +34,24 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
 
   public password!: string;
 
+  public role!: UserRole;
+
+  public emailVerifiedAt!: Date | null;
+
+  public failedLoginAttempts!: number;
+
+  public lockedUntil!: Date | null;
+
+  public mfaSecret!: string | null;
+
+  public mfaEnabledAt!: Date | null;
+
+  public mfaLastUsedStep!: number | null;
+
+  public oidcIssuer!: string | null;
+
+  public oidcSubject!: string | null;
+
   public readonly createdAt!: Date;
 
   public readonly updatedAt!: Date;
@@ -57,7 +90,61 @@ User.init(
         len: [6, 255],
       },
     },
-
+    role: {
+      type: DataTypes.ENUM(...USER_ROLES),
+      allowNull: false,
+      defaultValue: 'viewer',
+      comment: 'viewer can read costs, editor can also modify them, admin can manage users',
+    },
+    emailVerifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'email_verified_at',
+      comment: 'Users cannot log in until they have verified their email address',
+    },
+    failedLoginAttempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      field: 'failed_login_attempts',
+      comment: 'Consecutive failed logins since the last successful login or unlock',
+    },
+    lockedUntil: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'locked_until',
+      comment: 'Logins are rejected until this time',
+    },
+    mfaSecret: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      field: 'mfa_secret',
+      comment: 'Base32 TOTP secret; set on enrollment, only in use once mfaEnabledAt is set',
+    },
+    mfaEnabledAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'mfa_enabled_at',
+      comment: 'When TOTP enrollment was confirmed; logins then need a code',
+    },
+    mfaLastUsedStep: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'mfa_last_used_step',
+      comment: 'TOTP time step of the last accepted code, so a code cannot be used twice',
+    },
+    oidcIssuer: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'oidc_issuer',
+      comment: 'Identity provider the user signs in with through OIDC',
+    },
+    oidcSubject: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'oidc_subject',
+      comment: 'The user\'s `sub` claim at oidcIssuer',
+    },
   },
   {
     sequelize,
@@ -65,6 +152,12 @@ User.init(
     tableName: 'users',
     timestamps: true,
     underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['oidc_issuer', 'oidc_subject'],
+      },
+    ],
     hooks: {
       beforeCreate: async (user: User) => {
         if (user.password) {
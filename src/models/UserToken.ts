@@ -0,0 +1,87 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import {
+  UserTokenAttributes,
+  UserTokenCreationAttributes,
+  UserTokenPurpose,
+  USER_TOKEN_PURPOSES,
+} from '../types';
+
+/**
+ * UserToken Model
+ * A single-use, expiring token emailed to a user to verify their address or reset their password
+ * Only a SHA-256 hash of the token is stored
+ */
+class UserToken extends Model<UserTokenAttributes, UserTokenCreationAttributes> implements UserTokenAttributes {
+  public id!: number;
+
+  public userId!: number;
+
+  public purpose!: UserTokenPurpose;
+
+  public tokenHash!: string;
+
+  public expiresAt!: Date;
+
+  public usedAt!: Date | null;
+
+  public readonly createdAt!: Date;
+
+  public readonly updatedAt!: Date;
+}
+
+UserToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    purpose: {
+      type: DataTypes.ENUM(...USER_TOKEN_PURPOSES),
+      allowNull: false,
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      field: 'token_hash',
+      comment: 'Hex SHA-256 of the emailed token',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'used_at',
+      comment: 'Set when the token is used or superseded by a newer token',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'user_tokens',
+    indexes: [
+      {
+        unique: true,
+        fields: ['token_hash'],
+      },
+      {
+        fields: ['user_id', 'purpose'],
+      },
+    ],
+  },
+);
+
+User.hasMany(UserToken, { foreignKey: 'userId', as: 'tokens', onDelete: 'CASCADE' });
+UserToken.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default UserToken;
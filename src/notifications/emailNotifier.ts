@@ -0,0 +1,32 @@
+import { Notifier } from '../types';
+import { sendMail } from '../utils/mailer';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Email notifier
+ * Sends the message, with its HTML body and attachments, to every address in
+ * `config.recipients` through the SMTP mailer
+ */
+const emailNotifier: Notifier = {
+  validateConfig(config) {
+    const { recipients } = config;
+    if (!Array.isArray(recipients) || recipients.length === 0) {
+      return ['recipients must be a non-empty list of email addresses'];
+    }
+    const invalid = recipients.filter((recipient) => typeof recipient !== 'string' || !EMAIL_PATTERN.test(recipient));
+    return invalid.length > 0 ? [`Invalid email addresses: ${invalid.join(', ')}`] : [];
+  },
+
+  async send(config, message) {
+    await sendMail({
+      to: config['recipients'] as string[],
+      subject: message.subject,
+      text: message.text,
+      ...(message.html ? { html: message.html } : {}),
+      ...(message.attachments ? { attachments: message.attachments } : {}),
+    });
+  },
+};
+
+export default emailNotifier;
@@ -0,0 +1,75 @@
+import NotificationChannel from '../models/NotificationChannel';
+import { AlertDelivery, NotificationMessage, Notifier } from '../types';
+import { log } from '../utils/logger';
+import webhookNotifier from './webhookNotifier';
+import emailNotifier from './emailNotifier';
+
+/**
+ * Notifier registry
+ * Channel types map to notifiers; new delivery mechanisms only need to register here
+ */
+const notifiers = new Map<string, Notifier>();
+
+export const registerNotifier = (type: string, notifier: Notifier): void => {
+  notifiers.set(type, notifier);
+};
+
+export const getNotifierTypes = (): string[] => Array.from(notifiers.keys());
+
+/**
+ * Validate a channel config for the given type
+ * Returns a list of problems, empty when valid
+ */
+export const validateChannelConfig = (type: string, config: unknown): string[] => {
+  const notifier = notifiers.get(type);
+  if (!notifier) {
+    return [`Unknown channel type "${type}". Use one of: ${getNotifierTypes().join(', ')}`];
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['config must be an object'];
+  }
+  return notifier.validateConfig(config as Record<string, unknown>);
+};
+
+/**
+ * Deliver a message through a channel
+ * Throws when the channel type is unknown or delivery fails
+ */
+export const sendToChannel = async (channel: NotificationChannel, message: NotificationMessage): Promise<void> => {
+  const notifier = notifiers.get(channel.type);
+  if (!notifier) {
+    throw new Error(`Unknown channel type "${channel.type}"`);
+  }
+  await notifier.send(channel.config, message);
+};
+
+/**
+ * Deliver a message through each of the given channels and report the outcome per channel
+ * A failing channel never prevents delivery through the others; `context` is added to failure logs
+ * Error details are only logged, the stored outcome says "Delivery failed"
+ */
+export const sendToChannels = async (
+  channels: NotificationChannel[],
+  message: NotificationMessage,
+  context: Record<string, unknown> = {},
+): Promise<AlertDelivery[]> => Promise.all(channels.map(async (channel): Promise<AlertDelivery> => {
+  try {
+    await sendToChannel(channel, message);
+    return { channelId: channel.id, channelType: channel.type, status: 'sent' };
+  } catch (error) {
+    log.warn('Notification delivery failed', {
+      ...context,
+      channelId: channel.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return {
+      channelId: channel.id,
+      channelType: channel.type,
+      status: 'failed',
+      error: 'Delivery failed',
+    };
+  }
+}));
+
+registerNotifier('webhook', webhookNotifier);
+registerNotifier('email', emailNotifier);
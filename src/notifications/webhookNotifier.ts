@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import { Agent, fetch } from 'undici';
+import { Notifier } from '../types';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Address ranges webhooks may not reach: private, loopback, link-local, CGNAT, benchmarking,
+ * multicast and unspecified
+ */
+const internalAddresses = new net.BlockList();
+internalAddresses.addSubnet('0.0.0.0', 8, 'ipv4');
+internalAddresses.addSubnet('10.0.0.0', 8, 'ipv4');
+internalAddresses.addSubnet('100.64.0.0', 10, 'ipv4');
+internalAddresses.addSubnet('127.0.0.0', 8, 'ipv4');
+internalAddresses.addSubnet('169.254.0.0', 16, 'ipv4');
+internalAddresses.addSubnet('172.16.0.0', 12, 'ipv4');
+internalAddresses.addSubnet('192.168.0.0', 16, 'ipv4');
+internalAddresses.addSubnet('198.18.0.0', 15, 'ipv4');
+internalAddresses.addSubnet('224.0.0.0', 4, 'ipv4');
+internalAddresses.addAddress('::', 'ipv6');
+internalAddresses.addAddress('::1', 'ipv6');
+internalAddresses.addSubnet('fc00::', 7, 'ipv6');
+internalAddresses.addSubnet('fe80::', 10, 'ipv6');
+internalAddresses.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Hosts from WEBHOOK_ALLOWED_HOSTS (comma-separated) that may be internal, e.g. for local testing
+ */
+const getAllowedHosts = (): string[] => (process.env['WEBHOOK_ALLOWED_HOSTS'] || '')
+  .split(',')
+  .map((host) => host.trim().toLowerCase())
+  .filter((host) => host.length > 0);
+
+/**
+ * Whether an IP address is internal; BlockList also matches IPv4-mapped IPv6 addresses
+ */
+const isInternalAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  return family !== 0 && internalAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Hostname of a webhook URL, lower-cased and without IPv6 brackets; undefined when the URL is invalid
+ */
+const getWebhookHost = (url: string): string | undefined => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Whether a host is a literal internal address or a localhost name, unless it is allowlisted
+ */
+const isBlockedHost = (host: string): boolean => !getAllowedHosts().includes(host)
+  && (host === 'localhost' || host.endsWith('.localhost') || isInternalAddress(host));
+
+/**
+ * DNS lookup for webhook connections that fails when the host resolves to an internal address
+ * Runs as the socket connects, so a name cannot pass a check and then be re-resolved elsewhere
+ */
+const lookupPublicAddress = (
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void,
+): void => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error || getAllowedHosts().includes(hostname.toLowerCase())) {
+      callback(error, address, family);
+      return;
+    }
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    if (addresses.some((item) => isInternalAddress(item.address))) {
+      callback(new Error(`Webhook host ${hostname} resolves to an internal address`), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+/**
+ * Connection pool for webhook deliveries; every new connection resolves through lookupPublicAddress
+ */
+const webhookAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * Webhook notifier
+ * POSTs the message as JSON to `config.url`, with any attachments inlined as text.
+ * When `config.secret` is set the body is signed with HMAC-SHA256 in the X-Cost-Monitor-Signature header.
+ * Private, loopback and link-local targets are refused unless listed in WEBHOOK_ALLOWED_HOSTS.
+ */
+const webhookNotifier: Notifier = {
+  validateConfig(config) {
+    const { url } = config;
+    const host = typeof url === 'string' && /^https?:\/\//.test(url) ? getWebhookHost(url) : undefined;
+    if (!host) {
+      return ['url must be an http(s) URL'];
+    }
+    if (isBlockedHost(host)) {
+      return ['url must not point to a private, loopback or link-local address'];
+    }
+    if (config['secret'] !== undefined && typeof config['secret'] !== 'string') {
+      return ['secret must be a string'];
+    }
+    return [];
+  },
+
+  async send(config, message) {
+    const url = config['url'] as string;
+    const host = getWebhookHost(url);
+    if (!host) {
+      throw new Error('Webhook url is invalid');
+    }
+    // Literal addresses and localhost names are refused here; resolved names by the agent's lookup
+    if (isBlockedHost(host)) {
+      throw new Error(`Webhook host ${host} is not allowed`);
+    }
+
+    const body = JSON.stringify({
+      subject: message.subject,
+      text: message.text,
+      ...message.data,
+      ...(message.attachments ? { attachments: message.attachments } : {}),
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (typeof config['secret'] === 'string') {
+      const signature = crypto.createHmac('sha256', config['secret']).update(body).digest('hex');
+      headers['X-Cost-Monitor-Signature'] = `sha256=${signature}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      redirect: 'error',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      dispatcher: webhookAgent,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with status ${response.status}`);
+    }
+  },
+};
+
+export default webhookNotifier;
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import alertController from '../controllers/alertController';
+import notificationChannelController from '../controllers/notificationChannelController';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+/**
+ * Alert Routes
+ * Fired alerts, daily spend rules and notification channels belong to the caller
+ */
+
+router.use(authenticate);
+
+// GET /api/alerts - List fired alerts
+router.get('/', asyncHandler(alertController.getAlerts));
+
+// POST /api/alerts/evaluate - Run alert evaluation now (admin only)
+router.post('/evaluate', authorize('admin'), asyncHandler(alertController.runEvaluation));
+
+// Daily spend rules (changes need editor or admin)
+router.get('/rules', authorize('viewer', 'editor', 'admin'), asyncHandler(alertController.getAlertRules));
+router.post('/rules', authorize('editor', 'admin'), asyncHandler(alertController.createAlertRule));
+router.put('/rules/:id', authorize('editor', 'admin'), asyncHandler(alertController.updateAlertRule));
+router.delete('/rules/:id', authorize('editor', 'admin'), asyncHandler(alertController.deleteAlertRule));
+
+// Notification channels (changes and test sends need editor or admin)
+router.get('/channels', authorize('viewer', 'editor', 'admin'), asyncHandler(notificationChannelController.getChannels));
+router.post('/channels', authorize('editor', 'admin'), asyncHandler(notificationChannelController.createChannel));
+router.put('/channels/:id', authorize('editor', 'admin'), asyncHandler(notificationChannelController.updateChannel));
+router.delete('/channels/:id', authorize('editor', 'admin'), asyncHandler(notificationChannelController.deleteChannel));
+router.post('/channels/:id/test', authorize('editor', 'admin'), asyncHandler(notificationChannelController.testChannel));
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import allocationRuleController from '../controllers/allocationRuleController';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+/**
+ * Allocation Rule Routes
+ * Every route requires authentication; anyone can read the rules, only admins can change them
+ */
+
+router.use(authenticate);
+
+// GET /api/allocation-rules - List allocation rules in priority order
+router.get('/', authorize('viewer', 'editor', 'admin'), asyncHandler(allocationRuleController.getAllocationRules));
+
+// POST /api/allocation-rules - Create an allocation rule
+router.post('/', authorize('admin'), asyncHandler(allocationRuleController.createAllocationRule));
+
+// PUT /api/allocation-rules/:id - Update an allocation rule
+router.put('/:id', authorize('admin'), asyncHandler(allocationRuleController.updateAllocationRule));
+
+// DELETE /api/allocation-rules/:id - Delete an allocation rule
+router.delete('/:id', authorize('admin'), asyncHandler(allocationRuleController.deleteAllocationRule));
+
+export default router;
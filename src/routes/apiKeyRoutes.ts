@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import apiKeyController from '../controllers/apiKeyController';
+import { authenticate, authorize, requireSession } from '../middleware/auth';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+/**
+ * API Key Routes
+ * Keys are managed from a login session; an API key cannot be used to mint or revoke keys
+ */
+
+router.use(authenticate, requireSession);
+
+// GET /api/api-keys - List API keys
+router.get('/', authorize('viewer', 'editor', 'admin'), asyncHandler(apiKeyController.getApiKeys));
+
+// POST /api/api-keys - Create an API key
+router.post('/', authorize('viewer', 'editor', 'admin'), asyncHandler(apiKeyController.createApiKey));
+
+// DELETE /api/api-keys/:id - Revoke an API key
+router.delete('/:id', authorize('viewer', 'editor', 'admin'), asyncHandler(apiKeyController.revokeApiKey));
+
+export default router;
@@ -5,8 +5,23 @@ import {
   getProfile,
   refreshToken,
   logout,
+  logoutAll,
+  getSessions,
+  deleteSession,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
+  verifyMfa,
+  setupMfa,
+  confirmMfa,
+  disableMfa,
+  regenerateRecoveryCodes,
+  startOidcLogin,
+  completeOidcLogin,
 } from '../controllers/authController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requireSession } from '../middleware/auth';
+import { authEmailLimiter, authIpLimiter } from '../middleware/rateLimit';
 import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
@@ -15,13 +30,29 @@ const router = Router();
  * Authentication Routes
  */
 
-// Public routes
-router.post('/register', asyncHandler(register));
-router.post('/login', asyncHandler(login));
+// Public routes; credential and email routes have a stricter rate limit per IP,
+// and those taking an email address another one per address
+router.post('/register', authIpLimiter, authEmailLimiter, asyncHandler(register));
+router.post('/login', authIpLimiter, authEmailLimiter, asyncHandler(login));
 router.post('/refresh', asyncHandler(refreshToken));
+router.post('/verify-email', asyncHandler(verifyEmail));
+router.post('/resend-verification', authIpLimiter, authEmailLimiter, asyncHandler(resendVerification));
+router.post('/forgot-password', authIpLimiter, authEmailLimiter, asyncHandler(forgotPassword));
+router.post('/reset-password', authIpLimiter, asyncHandler(resetPassword));
+router.post('/mfa/verify', authIpLimiter, asyncHandler(verifyMfa));
+router.post('/oidc/authorize', authIpLimiter, asyncHandler(startOidcLogin));
+router.post('/oidc/callback', authIpLimiter, asyncHandler(completeOidcLogin));
 
-// Protected routes
+// Protected routes; all but the profile need a login session rather than an API key,
+// and those confirming a password or MFA code share the stricter per-IP rate limit
 router.get('/profile', authenticate, asyncHandler(getProfile));
-router.post('/logout', authenticate, asyncHandler(logout));
+router.post('/logout', authenticate, requireSession, asyncHandler(logout));
+router.post('/logout-all', authenticate, requireSession, asyncHandler(logoutAll));
+router.get('/sessions', authenticate, requireSession, asyncHandler(getSessions));
+router.delete('/sessions/:id', authenticate, requireSession, asyncHandler(deleteSession));
+router.post('/mfa/setup', authIpLimiter, authenticate, requireSession, asyncHandler(setupMfa));
+router.post('/mfa/confirm', authIpLimiter, authenticate, requireSession, asyncHandler(confirmMfa));
+router.post('/mfa/disable', authIpLimiter, authenticate, requireSession, asyncHandler(disableMfa));
+router.post('/mfa/recovery-codes', authIpLimiter, authenticate, requireSession, asyncHandler(regenerateRecoveryCodes));
 
 export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import budgetController from '../controllers/budgetController';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+/**
+ * Budget Routes
+ * Every route requires authentication; viewers can read budgets, editors and admins can manage them
+ */
+
+router.use(authenticate);
+
+// GET /api/budgets - List budgets
+router.get('/', authorize('viewer', 'editor', 'admin'), asyncHandler(budgetController.getBudgets));
+
+// GET /api/budgets/:id - Get a budget
+router.get('/:id', authorize('viewer', 'editor', 'admin'), asyncHandler(budgetController.getBudget));
+
+// GET /api/budgets/:id/status - Actual vs budget for the current period
+router.get('/:id/status', authorize('viewer', 'editor', 'admin'), asyncHandler(budgetController.getBudgetStatus));
+
+// POST /api/budgets - Create a budget
+router.post('/', authorize('editor', 'admin'), asyncHandler(budgetController.createBudget));
+
+// PUT /api/budgets/:id - Update a budget
+router.put('/:id', authorize('editor', 'admin'), asyncHandler(budgetController.updateBudget));
+
+// DELETE /api/budgets/:id - Delete a budget
+router.delete('/:id', authorize('editor', 'admin'), asyncHandler(budgetController.deleteBudget));
+
+export default router;
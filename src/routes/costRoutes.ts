@@ -1,33 +1,72 @@
 import { Router } from 'express';
+import multer from 'multer';
 import costController from '../controllers/costController';
+import { authenticate, authorize } from '../middleware/auth';
 import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
 
+// CSV uploads are kept in memory and parsed in one pass
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB
+});
+
 /**
  * Cost Routes
  * All cost-related API endpoints with proper documentation
+ * Every route requires authentication and is scoped to the caller's accounts
+ * Viewers can only read; editors and admins can also modify cost records
  */
 
+router.use(authenticate);
+
 // GET /api/costs - Get all cost records with filtering and pagination
-router.get('/', asyncHandler(costController.getCostRecords));
+router.get('/', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.getCostRecords));
 
 // GET /api/costs/summary - Get cost summary aggregated by service
-router.get('/summary', asyncHandler(costController.getCostSummaryByService));
+router.get('/summary', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.getCostSummaryByService));
 
 // GET /api/costs/trends - Get cost trends over time (daily aggregation)
-router.get('/trends', asyncHandler(costController.getCostTrends));
+router.get('/trends', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.getCostTrends));
+
+// GET /api/costs/aggregate - Aggregate costs by any combination of dimensions with top-N
+router.get('/aggregate', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.getCostAggregation));
+
+// GET /api/costs/allocation - Showback report of direct and shared cost per team
+router.get('/allocation', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.getCostAllocation));
+
+// GET /api/costs/compare - Compare costs between two periods by service, region, account or usage type
+router.get('/compare', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.compareCosts));
+
+// GET /api/costs/anomalies - Detect days whose cost deviates from the rolling baseline
+router.get('/anomalies', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.getCostAnomalies));
+
+// GET /api/costs/forecast - Forecast daily cost with confidence bounds and month/quarter-end projections
+router.get('/forecast', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.getCostForecast));
+
+// GET /api/costs/export - Export all matching cost records as CSV or NDJSON
+router.get('/export', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.exportCostRecords));
+
+// GET /api/costs/summary/export - Export the cost summary by service
+router.get('/summary/export', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.exportCostSummary));
+
+// GET /api/costs/trends/export - Export daily cost trends
+router.get('/trends/export', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.exportCostTrends));
 
 // GET /api/costs/filters - Get available filter options for frontend
-router.get('/filters', asyncHandler(costController.getAvailableFilters));
+router.get('/filters', authorize('viewer', 'editor', 'admin'), asyncHandler(costController.getAvailableFilters));
 
 // POST /api/costs - Create a new cost record
-router.post('/', asyncHandler(costController.createCostRecord));
+router.post('/', authorize('editor', 'admin'), asyncHandler(costController.createCostRecord));
+
+// POST /api/costs/import - Bulk import cost records from an AWS, Azure or GCP billing export
+router.post('/import', authorize('editor', 'admin'), upload.single('file'), asyncHandler(costController.importCostRecords));
 
 // PUT /api/costs/:id - Update an existing cost record
-router.put('/:id', asyncHandler(costController.updateCostRecord));
+router.put('/:id', authorize('editor', 'admin'), asyncHandler(costController.updateCostRecord));
 
 // DELETE /api/costs/:id - Delete a cost record
-router.delete('/:id', asyncHandler(costController.deleteCostRecord));
+router.delete('/:id', authorize('editor', 'admin'), asyncHandler(costController.deleteCostRecord));
 
 export default router;
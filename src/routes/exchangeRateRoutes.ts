@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import multer from 'multer';
+import exchangeRateController from '../controllers/exchangeRateController';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+// CSV uploads are kept in memory and parsed in one pass
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
+});
+
+/**
+ * Exchange Rate Routes
+ * Every route requires authentication; anyone can read the rates, only admins can change them
+ */
+
+router.use(authenticate);
+
+// GET /api/exchange-rates - List exchange rates with pair and date filters
+router.get('/', authorize('viewer', 'editor', 'admin'), asyncHandler(exchangeRateController.getExchangeRates));
+
+// POST /api/exchange-rates - Create or replace one or more exchange rates
+router.post('/', authorize('admin'), asyncHandler(exchangeRateController.upsertExchangeRates));
+
+// POST /api/exchange-rates/import - Bulk import exchange rates from a CSV file
+router.post('/import', authorize('admin'), upload.single('file'), asyncHandler(exchangeRateController.importExchangeRates));
+
+// DELETE /api/exchange-rates/:id - Delete an exchange rate
+router.delete('/:id', authorize('admin'), asyncHandler(exchangeRateController.deleteExchangeRate));
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import reportScheduleController from '../controllers/reportScheduleController';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+/**
+ * Report Schedule Routes
+ * Every route requires authentication; schedules and their delivery history belong to the caller
+ */
+
+router.use(authenticate);
+
+// GET /api/report-schedules - List report schedules
+router.get('/', authorize('viewer', 'editor', 'admin'), asyncHandler(reportScheduleController.getReportSchedules));
+
+// GET /api/report-schedules/:id - Get a report schedule
+router.get('/:id', authorize('viewer', 'editor', 'admin'), asyncHandler(reportScheduleController.getReportSchedule));
+
+// POST /api/report-schedules - Create a report schedule
+router.post('/', authorize('viewer', 'editor', 'admin'), asyncHandler(reportScheduleController.createReportSchedule));
+
+// PUT /api/report-schedules/:id - Update a report schedule
+router.put('/:id', authorize('viewer', 'editor', 'admin'), asyncHandler(reportScheduleController.updateReportSchedule));
+
+// DELETE /api/report-schedules/:id - Delete a report schedule
+router.delete('/:id', authorize('viewer', 'editor', 'admin'), asyncHandler(reportScheduleController.deleteReportSchedule));
+
+// POST /api/report-schedules/:id/run - Deliver the report now
+router.post('/:id/run', authorize('viewer', 'editor', 'admin'), asyncHandler(reportScheduleController.runReportSchedule));
+
+// GET /api/report-schedules/:id/deliveries - Delivery history
+router.get('/:id/deliveries', authorize('viewer', 'editor', 'admin'), asyncHandler(reportScheduleController.getReportDeliveries));
+
+export default router;
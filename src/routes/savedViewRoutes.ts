@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import savedViewController from '../controllers/savedViewController';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+/**
+ * Saved View Routes
+ * Every route requires authentication; any user can keep their own views,
+ * and only the owner of a view can change or delete it
+ */
+
+router.use(authenticate);
+
+// GET /api/views - List own and shared saved views
+router.get('/', authorize('viewer', 'editor', 'admin'), asyncHandler(savedViewController.getSavedViews));
+
+// GET /api/views/:id - Get a saved view with its resolved query
+router.get('/:id', authorize('viewer', 'editor', 'admin'), asyncHandler(savedViewController.getSavedView));
+
+// POST /api/views - Create a saved view
+router.post('/', authorize('viewer', 'editor', 'admin'), asyncHandler(savedViewController.createSavedView));
+
+// PUT /api/views/:id - Update a saved view
+router.put('/:id', authorize('viewer', 'editor', 'admin'), asyncHandler(savedViewController.updateSavedView));
+
+// DELETE /api/views/:id - Delete a saved view
+router.delete('/:id', authorize('viewer', 'editor', 'admin'), asyncHandler(savedViewController.deleteSavedView));
+
+export default router;
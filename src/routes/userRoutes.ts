@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import userController from '../controllers/userController';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+/**
+ * User Management Routes
+ * Restricted to admins
+ */
+
+router.use(authenticate, authorize('admin'));
+
+// GET /api/users - List users
+router.get('/', asyncHandler(userController.getUsers));
+
+// PATCH /api/users/:id/role - Change a user's role
+router.patch('/:id/role', asyncHandler(userController.updateUserRole));
+
+// GET /api/users/:id/accounts - List a user's account memberships
+router.get('/:id/accounts', asyncHandler(userController.getUserAccounts));
+
+// PUT /api/users/:id/accounts/:accountId - Grant or change account access
+router.put('/:id/accounts/:accountId', asyncHandler(userController.setUserAccount));
+
+// DELETE /api/users/:id/accounts/:accountId - Revoke account access
+router.delete('/:id/accounts/:accountId', asyncHandler(userController.removeUserAccount));
+
+// POST /api/users/:id/unlock - Lift a login lockout
+router.post('/:id/unlock', asyncHandler(userController.unlockUser));
+
+// DELETE /api/users/:id/mfa - Turn off a user's MFA
+router.delete('/:id/mfa', asyncHandler(userController.resetUserMfa));
+
+// GET /api/users/:id/audit-log - List audit log entries about a user
+router.get('/:id/audit-log', asyncHandler(userController.getUserAuditLog));
+
+export default router;
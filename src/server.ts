@@ -8,7 +8,17 @@ import dotenv from 'dotenv';
 import sequelize from './config/database';
 import costRoutes from './routes/costRoutes';
 import authRoutes from './routes/authRoutes';
+import userRoutes from './routes/userRoutes';
+import budgetRoutes from './routes/budgetRoutes';
+import alertRoutes from './routes/alertRoutes';
+import allocationRuleRoutes from './routes/allocationRuleRoutes';
+import exchangeRateRoutes from './routes/exchangeRateRoutes';
+import savedViewRoutes from './routes/savedViewRoutes';
+import reportScheduleRoutes from './routes/reportScheduleRoutes';
+import apiKeyRoutes from './routes/apiKeyRoutes';
 import errorHandler from './middleware/errorHandler';
+import { startAlertScheduler, stopAlertScheduler } from './jobs/alertEvaluator';
+import { startReportScheduler, stopReportScheduler } from './jobs/reportScheduler';
 import { log } from './utils/logger';
 
 // Load environment variables
@@ -65,6 +75,14 @@ app.get('/health', (_req, res) => {
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/costs', costRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/budgets', budgetRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/allocation-rules', allocationRuleRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/views', savedViewRoutes);
+app.use('/api/report-schedules', reportScheduleRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
 
 // 404 handler for undefined routes
 app.use('*', (_req, res) => {
@@ -96,6 +114,9 @@ async function startServer(): Promise<void> {
         authEndpoint: `http://localhost:${PORT}/api/auth/login`,
       });
     });
+    // Start background jobs
+    startAlertScheduler();
+    startReportScheduler();
   } catch (error) {
     log.error('Failed to start server', { error: error instanceof Error ? error.message : 'Unknown error' });
     process.exit(1);
@@ -108,6 +129,8 @@ async function startServer(): Promise<void> {
  */
 const gracefulShutdown = async (signal: string): Promise<void> => {
   console.log(`${signal} received, shutting down gracefully`);
+  stopAlertScheduler();
+  stopReportScheduler();
   await sequelize.close();
   process.exit(0);
 };
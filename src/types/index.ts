@@ -1,8 +1,183 @@
 import { Model, Optional } from 'sequelize';
 
 // Database Models
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+export type UserTokenPurpose = 'email_verification' | 'password_reset';
+
+export const USER_TOKEN_PURPOSES: UserTokenPurpose[] = ['email_verification', 'password_reset'];
+
+export interface UserTokenAttributes {
+  id: number;
+  userId: number;
+  purpose: UserTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface UserTokenCreationAttributes extends Optional<
+  UserTokenAttributes,
+  'id' | 'createdAt' | 'updatedAt'
+> {}
+
+/**
+ * What an API key may do: `read` only makes read requests, `ingest` can also write cost data
+ * like an editor, `admin` has the full rights of its owner
+ */
+export type ApiKeyScope = 'read' | 'ingest' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'ingest', 'admin'];
+
+export interface ApiKeyAttributes {
+  id: number;
+  userId: number;
+  name: string;
+  scope: ApiKeyScope;
+  prefix: string;
+  keyHash: string;
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string | null;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ApiKeyCreationAttributes extends Optional<
+  ApiKeyAttributes,
+  'id' | 'createdAt' | 'updatedAt'
+> {}
+
+export interface MfaRecoveryCodeAttributes {
+  id: number;
+  userId: number;
+  codeHash: string;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface MfaRecoveryCodeCreationAttributes extends Optional<
+  MfaRecoveryCodeAttributes,
+  'id' | 'createdAt' | 'updatedAt'
+> {}
+
+/**
+ * A started OIDC login, kept until the identity provider redirects back with its state
+ */
+export interface OidcLoginRequestAttributes {
+  id: number;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: Date;
+  createdAt?: Date;
+}
+
+export interface OidcLoginRequestCreationAttributes extends Optional<
+  OidcLoginRequestAttributes,
+  'id' | 'createdAt'
+> {}
+
+export interface SessionAttributes {
+  id: string;
+  userId: number;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface SessionCreationAttributes extends Optional<
+  SessionAttributes,
+  'createdAt' | 'updatedAt'
+> {}
+
+/**
+ * Where and how a session was last used, recorded on login and refresh
+ */
+export interface SessionContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export type RefreshTokenRevocationReason = 'rotated' | 'logout' | 'logout_all' | 'reuse_detected' | 'password_reset';
+
+export const REFRESH_TOKEN_REVOCATION_REASONS: RefreshTokenRevocationReason[] = ['rotated', 'logout', 'logout_all', 'reuse_detected', 'password_reset'];
+
+export interface RefreshTokenAttributes {
+  id: number;
+  jti: string;
+  userId: number;
+  sessionId: string;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: RefreshTokenRevocationReason | null;
+  replacedBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface RefreshTokenCreationAttributes extends Optional<
+  RefreshTokenAttributes,
+  'id' | 'createdAt' | 'updatedAt'
+> {}
+
+export type AuditAction =
+  | 'account_locked'
+  | 'account_unlocked'
+  | 'mfa_enabled'
+  | 'mfa_disabled'
+  | 'mfa_recovery_code_used'
+  | 'mfa_recovery_codes_regenerated'
+  | 'api_key_created'
+  | 'api_key_revoked'
+  | 'sso_user_provisioned'
+  | 'sso_account_linked';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'account_locked',
+  'account_unlocked',
+  'mfa_enabled',
+  'mfa_disabled',
+  'mfa_recovery_code_used',
+  'mfa_recovery_codes_regenerated',
+  'api_key_created',
+  'api_key_revoked',
+  'sso_user_provisioned',
+  'sso_account_linked',
+];
+
+export interface AuditLogAttributes {
+  id: number;
+  action: AuditAction;
+  userId?: number | null;
+  actorId?: number | null;
+  ipAddress?: string | null;
+  details: Record<string, unknown>;
+  createdAt?: Date;
+}
+
+export interface AuditLogCreationAttributes extends Optional<
+  AuditLogAttributes,
+  'id' | 'details' | 'createdAt'
+> {}
+
+export type CloudProvider = 'aws' | 'azure' | 'gcp';
+
+export const CLOUD_PROVIDERS: CloudProvider[] = ['aws', 'azure', 'gcp'];
+
 export interface CostRecordAttributes {
   id: number;
+  provider: CloudProvider;
   date: Date;
   serviceName: string;
   costAmount: number;
@@ -11,13 +186,15 @@ export interface CostRecordAttributes {
   resourceId?: string;
   usageType?: string;
   description?: string;
+  tags: Record<string, string>;
+  currency: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
 export interface CostRecordCreationAttributes extends Optional<
   CostRecordAttributes,
-  'id' | 'createdAt' | 'updatedAt'
+  'id' | 'provider' | 'tags' | 'currency' | 'createdAt' | 'updatedAt'
 > {}
 
 export interface CostRecordInstance extends Model<
@@ -25,18 +202,294 @@ export interface CostRecordInstance extends Model<
   CostRecordCreationAttributes
 >, CostRecordAttributes {}
 
+export interface ExchangeRateAttributes {
+  id: number;
+  date: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ExchangeRateCreationAttributes extends Optional<
+  ExchangeRateAttributes,
+  'id' | 'createdAt' | 'updatedAt'
+> {}
+
+export type AccountAccessLevel = 'read' | 'write';
+
+export interface AccountMembershipAttributes {
+  id: number;
+  userId: number;
+  accountId: string;
+  accessLevel: AccountAccessLevel;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface AccountMembershipCreationAttributes extends Optional<
+  AccountMembershipAttributes,
+  'id' | 'accessLevel' | 'createdAt' | 'updatedAt'
+> {}
+
+export type BudgetPeriod = 'monthly' | 'quarterly' | 'yearly';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['monthly', 'quarterly', 'yearly'];
+
+export interface BudgetAttributes {
+  id: number;
+  userId: number;
+  name: string;
+  amount: number;
+  period: BudgetPeriod;
+  accountId?: string | null;
+  serviceName?: string | null;
+  region?: string | null;
+  alertThresholds: number[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface BudgetCreationAttributes extends Optional<
+  BudgetAttributes,
+  'id' | 'alertThresholds' | 'createdAt' | 'updatedAt'
+> {}
+
+export interface AlertRuleAttributes {
+  id: number;
+  userId: number;
+  name: string;
+  dailyThreshold: number;
+  accountId?: string | null;
+  serviceName?: string | null;
+  region?: string | null;
+  enabled: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface AlertRuleCreationAttributes extends Optional<
+  AlertRuleAttributes,
+  'id' | 'enabled' | 'createdAt' | 'updatedAt'
+> {}
+
+export type AllocationMethod = 'fixed' | 'proportional';
+export const ALLOCATION_METHODS: AllocationMethod[] = ['fixed', 'proportional'];
+
+export interface AllocationSplit {
+  target: string;
+  percent: number;
+}
+
+export interface AllocationRuleAttributes {
+  id: number;
+  name: string;
+  priority: number;
+  serviceName?: string | null;
+  accountId?: string | null;
+  usageType?: string | null;
+  tagKey?: string | null;
+  tagValue?: string | null;
+  method: AllocationMethod;
+  splits: AllocationSplit[];
+  basisServiceName?: string | null;
+  enabled: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface AllocationRuleCreationAttributes extends Optional<
+  AllocationRuleAttributes,
+  'id' | 'priority' | 'splits' | 'enabled' | 'createdAt' | 'updatedAt'
+> {}
+
+export type RelativeDateRange = 'today' | 'yesterday' | 'last_7_days' | 'last_30_days' | 'last_90_days'
+  | 'month_to_date' | 'previous_month' | 'quarter_to_date' | 'previous_quarter' | 'year_to_date';
+
+export const RELATIVE_DATE_RANGES: RelativeDateRange[] = [
+  'today', 'yesterday', 'last_7_days', 'last_30_days', 'last_90_days',
+  'month_to_date', 'previous_month', 'quarter_to_date', 'previous_quarter', 'year_to_date',
+];
+
+/**
+ * Cost filters stored with a saved view; the same shape as the matching FilterQuery parameters
+ */
+export interface SavedViewFilters {
+  provider?: string | string[];
+  serviceName?: string | string[];
+  region?: string | string[];
+  accountId?: string | string[];
+  tag?: Record<string, string | string[]>;
+  currency?: string;
+}
+
+export interface SavedViewAttributes {
+  id: number;
+  userId: number;
+  name: string;
+  description?: string | null;
+  filters: SavedViewFilters;
+  dateRange?: RelativeDateRange | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  sharedWith: number[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface SavedViewCreationAttributes extends Optional<
+  SavedViewAttributes,
+  'id' | 'filters' | 'sharedWith' | 'createdAt' | 'updatedAt'
+> {}
+
+export type ReportFormat = 'html' | 'csv';
+
+export const REPORT_FORMATS: ReportFormat[] = ['html', 'csv'];
+
+export interface ReportScheduleAttributes {
+  id: number;
+  userId: number;
+  name: string;
+  cronExpression: string;
+  /** IANA time zone the cron expression is evaluated in */
+  timezone: string;
+  savedViewId?: number | null;
+  dateRange: RelativeDateRange;
+  format: ReportFormat;
+  channelIds: number[];
+  enabled: boolean;
+  lastRunAt?: Date | null;
+  nextRunAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ReportScheduleCreationAttributes extends Optional<
+  ReportScheduleAttributes,
+  'id' | 'timezone' | 'dateRange' | 'format' | 'enabled' | 'createdAt' | 'updatedAt'
+> {}
+
+export type ReportDeliveryStatus = 'sent' | 'partial' | 'failed';
+
+export type ReportTrigger = 'schedule' | 'manual';
+
+export type AlertSourceType = 'budget' | 'daily_spend';
+
+export interface AlertDelivery {
+  channelId: number;
+  channelType: string;
+  status: 'sent' | 'failed';
+  error?: string;
+}
+
+export interface AlertAttributes {
+  id: number;
+  userId: number;
+  sourceType: AlertSourceType;
+  sourceId: number;
+  threshold: number;
+  periodKey: string;
+  dimension: string;
+  actualValue: number;
+  message: string;
+  deliveries: AlertDelivery[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface AlertCreationAttributes extends Optional<
+  AlertAttributes,
+  'id' | 'dimension' | 'deliveries' | 'createdAt' | 'updatedAt'
+> {}
+
+export interface ReportDeliveryAttributes {
+  id: number;
+  scheduleId: number;
+  status: ReportDeliveryStatus;
+  trigger: ReportTrigger;
+  startDate?: string | null;
+  endDate?: string | null;
+  channels: AlertDelivery[];
+  error?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ReportDeliveryCreationAttributes extends Optional<
+  ReportDeliveryAttributes,
+  'id' | 'channels' | 'createdAt' | 'updatedAt'
+> {}
+
+export interface NotificationChannelAttributes {
+  id: number;
+  userId: number;
+  name: string;
+  type: string;
+  config: Record<string, unknown>;
+  enabled: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface NotificationChannelCreationAttributes extends Optional<
+  NotificationChannelAttributes,
+  'id' | 'enabled' | 'createdAt' | 'updatedAt'
+> {}
+
+// Notifications
+export interface NotificationAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export interface NotificationMessage {
+  subject: string;
+  text: string;
+  /** Rich body for channels that can display it, such as email */
+  html?: string;
+  attachments?: NotificationAttachment[];
+  data: Record<string, unknown>;
+}
+
+export interface Notifier {
+  /**
+   * Return a list of problems with the channel config, empty when valid
+   */
+  validateConfig(config: Record<string, unknown>): string[];
+  send(config: Record<string, unknown>, message: NotificationMessage): Promise<void>;
+}
+
 // API Request/Response Types
 export interface PaginationQuery {
   page?: string;
   limit?: string;
 }
 
+export interface ExchangeRateQuery extends PaginationQuery {
+  fromCurrency?: string;
+  toCurrency?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
 export interface FilterQuery extends PaginationQuery {
   startDate?: string;
   endDate?: string;
+  provider?: string | string[];
   serviceName?: string | string[];
   region?: string | string[];
   accountId?: string | string[];
+  tag?: Record<string, string | string[]>;
+  /** Report amounts in this currency (record list, summary and trends; aggregates default to the reporting currency) */
+  currency?: string;
+}
+
+export type ExportFormat = 'csv' | 'excel' | 'ndjson';
+
+export interface ExportQuery extends FilterQuery {
+  format?: string;
 }
 
 export interface CostSummaryItem {
@@ -45,15 +498,323 @@ export interface CostSummaryItem {
   recordCount: number;
 }
 
+export interface SummaryQuery extends FilterQuery {
+  groupBy?: string;
+}
+
+export interface ProviderCostSummaryItem {
+  provider: CloudProvider;
+  totalCost: number;
+  recordCount: number;
+}
+
+export interface TagCostSummaryItem {
+  tagKey: string;
+  tagValue: string | null;
+  totalCost: number;
+  recordCount: number;
+}
+
 export interface CostTrendItem {
   date: Date;
   dailyCost: number;
 }
 
+export interface BudgetStatus {
+  budgetId: number;
+  name: string;
+  amount: number;
+  /** Reporting currency of the amount and all spend figures */
+  currency: string;
+  period: BudgetPeriod;
+  periodStart: string;
+  periodEnd: string;
+  asOf: string;
+  daysElapsed: number;
+  daysInPeriod: number;
+  actualSpend: number;
+  remaining: number;
+  percentConsumed: number;
+  forecastSpend: number;
+  forecastPercent: number;
+  thresholdsCrossed: number[];
+  breakdown: CostSummaryItem[];
+}
+
+export interface DailyServiceCostItem {
+  date: string;
+  serviceName: string;
+  dailyCost: number;
+}
+
+export type CostDimension = 'provider' | 'service' | 'account' | 'region';
+export const COST_DIMENSIONS: CostDimension[] = ['provider', 'service', 'account', 'region'];
+
+export type CostDimensionAttribute = 'provider' | 'serviceName' | 'accountId' | 'region' | 'usageType';
+
+export type CompareDimension = CostDimension | 'usageType';
+export const COMPARE_DIMENSIONS: CompareDimension[] = ['provider', 'service', 'region', 'account', 'usageType'];
+
+export type ComparePreset = 'previous_period' | 'previous_year';
+export const COMPARE_PRESETS: ComparePreset[] = ['previous_period', 'previous_year'];
+
+export type TrendGranularity = 'day' | 'week' | 'month' | 'quarter';
+export const TREND_GRANULARITIES: TrendGranularity[] = ['day', 'week', 'month', 'quarter'];
+
+export interface TrendQuery extends FilterQuery {
+  granularity?: string;
+  groupBy?: string;
+}
+
+export interface ExportTrendQuery extends TrendQuery {
+  format?: string;
+}
+
+export interface CostTrendBucketItem {
+  period: string;
+  group: string | null;
+  cost: number;
+}
+
+export interface CostTrendSeries {
+  name: string;
+  totalCost: number;
+  points: Array<{ period: string; cost: number }>;
+}
+
+export interface CostTrendSeriesResponse {
+  granularity: TrendGranularity;
+  groupBy: CostDimension | null;
+  periods: string[];
+  series: CostTrendSeries[];
+}
+
+export type AnomalyMethod = 'zscore' | 'mad';
+export const ANOMALY_METHODS: AnomalyMethod[] = ['zscore', 'mad'];
+
+export interface AnomalyQuery extends FilterQuery {
+  groupBy?: string;
+  method?: string;
+  window?: string;
+  sensitivity?: string;
+}
+
+export interface DailyDimensionCostItem {
+  date: string;
+  dimensionValue: string;
+  dailyCost: number;
+}
+
+export interface CostAnomalyItem {
+  date: string;
+  dimension: CostDimension;
+  dimensionValue: string;
+  actualCost: number;
+  expectedCost: number;
+  deviation: number;
+  deviationPercent: number | null;
+  score: number;
+  direction: 'spike' | 'drop';
+}
+
+export type ForecastMethod = 'linear' | 'seasonal';
+export const FORECAST_METHODS: ForecastMethod[] = ['linear', 'seasonal'];
+
+export interface ForecastQuery extends FilterQuery {
+  days?: string;
+  method?: string;
+  confidence?: string;
+}
+
+export interface CostForecastPoint {
+  date: string;
+  predictedCost: number;
+  lowerBound: number;
+  upperBound: number;
+}
+
+export interface CostPeriodProjection {
+  period: 'month' | 'quarter';
+  periodStart: string;
+  periodEnd: string;
+  actualToDate: number;
+  forecastRemaining: number;
+  projectedTotal: number;
+  lowerBound: number;
+  upperBound: number;
+}
+
+export interface CostForecast {
+  method: ForecastMethod;
+  confidence: number;
+  historyStart: string;
+  historyEnd: string;
+  historyDays: number;
+  slopePerDay: number;
+  horizonDays: number;
+  totalPredicted: number;
+  totalLowerBound: number;
+  totalUpperBound: number;
+  points: CostForecastPoint[];
+  projections: CostPeriodProjection[];
+}
+
+export interface CompareQuery extends FilterQuery {
+  compareTo?: string;
+  compareStartDate?: string;
+  compareEndDate?: string;
+  groupBy?: string;
+}
+
+export interface DimensionCostItem {
+  dimensionValue: string;
+  totalCost: number;
+}
+
+export interface CostComparisonRange {
+  startDate: string;
+  endDate: string;
+  totalCost: number;
+}
+
+export interface CostComparisonItem {
+  dimensionValue: string;
+  currentCost: number;
+  baselineCost: number;
+  change: number;
+  changePercent: number | null;
+  contributionPercent: number | null;
+}
+
+export interface CostComparison {
+  groupBy: CompareDimension;
+  current: CostComparisonRange;
+  baseline: CostComparisonRange;
+  change: number;
+  changePercent: number | null;
+  items: CostComparisonItem[];
+}
+
+export type AggregateDimension = 'provider' | 'serviceName' | 'region' | 'accountId' | 'usageType' | 'resourceId' | 'date' | `tag:${string}`;
+/** Fixed dimensions; any `tag:<key>` is also accepted */
+export const AGGREGATE_DIMENSIONS: AggregateDimension[] = ['provider', 'serviceName', 'region', 'accountId', 'usageType', 'resourceId', 'date'];
+
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'count';
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'min', 'max', 'count'];
+
+export interface AggregateQuery extends FilterQuery {
+  groupBy?: string | string[];
+  aggregate?: string | string[];
+  granularity?: string;
+  sortBy?: string;
+  top?: string;
+}
+
+export interface CostAggregateGroup {
+  dimensions: Partial<Record<AggregateDimension, string | null>>;
+  sum: number;
+  count: number;
+  min: number;
+  max: number;
+}
+
+export interface CostAggregateRow {
+  dimensions: Partial<Record<AggregateDimension, string | null>>;
+  values: Partial<Record<AggregateFunction, number>>;
+  isOther: boolean;
+}
+
+export interface CostAggregation {
+  currency: string;
+  groupBy: AggregateDimension[];
+  granularity: TrendGranularity | null;
+  aggregates: AggregateFunction[];
+  sortBy: AggregateFunction;
+  top: number | null;
+  totalGroups: number;
+  rows: CostAggregateRow[];
+}
+
+export interface AllocationQuery extends FilterQuery {
+  tagKey?: string;
+}
+
+export interface TeamAllocation {
+  team: string;
+  directCost: number;
+  sharedCost: number;
+  totalCost: number;
+}
+
+export interface RuleAllocation {
+  ruleId: number;
+  name: string;
+  method: AllocationMethod;
+  matchedCost: number;
+  allocatedCost: number;
+  unallocatedCost: number;
+}
+
+export interface CostAllocationReport {
+  startDate: string;
+  endDate: string;
+  currency: string;
+  tagKey: string;
+  totalCost: number;
+  unallocatedCost: number;
+  teams: TeamAllocation[];
+  rules: RuleAllocation[];
+}
+
+export interface ActiveSession {
+  id: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  ipAddress: string | null;
+  userAgent: string | null;
+  /** Whether the session is the one the request was made with */
+  current: boolean;
+}
+
+export interface ResolvedSavedView extends SavedViewAttributes {
+  /** Filters with the date range resolved to absolute dates, usable as cost query parameters */
+  query: FilterQuery;
+  isOwner: boolean;
+}
+
+export interface CostReport {
+  current: CostComparisonRange;
+  /** The period of equal length just before the current one */
+  baseline: CostComparisonRange;
+  /** Currency amounts are converted to; the view's currency or the reporting currency */
+  currency: string;
+  change: number;
+  changePercent: number | null;
+  services: CostSummaryItem[];
+  topMovers: CostComparisonItem[];
+  dailyTrend: Array<{ date: string; dailyCost: number }>;
+}
+
 export interface AvailableFilters {
+  providers: CloudProvider[];
   services: string[];
   regions: string[];
   accounts: string[];
+  tags: Record<string, string[]>;
+}
+
+export interface ImportRowError {
+  line: number;
+  reason: string;
+}
+
+export interface ImportReport {
+  totalRows: number;
+  acceptedCount: number;
+  rejectedCount: number;
+  accepted: Array<{ line: number; id: number }>;
+  rejected: ImportRowError[];
 }
 
 export interface PaginationInfo {
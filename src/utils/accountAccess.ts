@@ -0,0 +1,75 @@
+import { Op } from 'sequelize';
+import AccountMembership from '../models/AccountMembership';
+import { AccountAccessLevel } from '../types';
+import { AuthorizationError } from './errors';
+
+/**
+ * Get the AWS account IDs a user is a member of
+ * Passing 'write' only returns accounts the user may modify
+ */
+export const getAccessibleAccountIds = async (
+  userId: number,
+  accessLevel: AccountAccessLevel = 'read',
+): Promise<string[]> => {
+  const where: Record<string, unknown> = { userId };
+  if (accessLevel === 'write') {
+    where['accessLevel'] = 'write';
+  }
+
+  const memberships = await AccountMembership.findAll({
+    where,
+    attributes: ['accountId'],
+  });
+
+  return memberships.map((membership) => membership.accountId);
+};
+
+/**
+ * Build the accountId where condition for a cost query
+ * Requested accounts are intersected with the accounts the caller may see,
+ * so an empty intersection matches no rows instead of widening the query
+ */
+export const scopeAccountFilter = (
+  requested: string | string[] | undefined,
+  allowed: string[],
+): { [Op.in]: string[] } => {
+  if (!requested) {
+    return { [Op.in]: allowed };
+  }
+
+  const requestedIds = Array.isArray(requested) ? requested : [requested];
+  return { [Op.in]: requestedIds.filter((id) => allowed.includes(id)) };
+};
+
+/**
+ * Ensure a user is a member of an AWS account, if one is given
+ * Used for budgets and rules that narrow themselves to a single account
+ */
+export const assertAccountReadAccess = async (userId: number, accountId: string | null | undefined): Promise<void> => {
+  if (!accountId) {
+    return;
+  }
+
+  const allowedAccountIds = await getAccessibleAccountIds(userId);
+  if (!allowedAccountIds.includes(accountId)) {
+    throw new AuthorizationError(`Access denied for account ${accountId}`);
+  }
+};
+
+/**
+ * Ensure a user has write access to an AWS account
+ * Throws AuthorizationError otherwise
+ */
+export const assertAccountWriteAccess = async (userId: number, accountId: string | undefined): Promise<void> => {
+  if (!accountId) {
+    throw new AuthorizationError('Access denied for this account');
+  }
+
+  const membership = await AccountMembership.findOne({
+    where: { userId, accountId, accessLevel: 'write' },
+  });
+
+  if (!membership) {
+    throw new AuthorizationError(`Access denied for account ${accountId}`);
+  }
+};
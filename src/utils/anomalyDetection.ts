@@ -0,0 +1,142 @@
+import {
+  AnomalyMethod,
+  CostAnomalyItem,
+  CostDimension,
+  DailyDimensionCostItem,
+} from '../types';
+import { addDays, parseDateString, toDateString } from './dates';
+
+/**
+ * Scale factor that makes the median absolute deviation comparable to a standard deviation
+ * for normally distributed data
+ */
+const MAD_SCALE = 1.4826;
+
+/**
+ * Lower bound for the baseline spread, as a fraction of the expected cost
+ * Without it a perfectly flat series would flag every cent of variation
+ */
+const MIN_RELATIVE_SPREAD = 0.05;
+const MIN_ABSOLUTE_SPREAD = 0.01;
+
+export interface AnomalyDetectionOptions {
+  dimension: CostDimension;
+  method: AnomalyMethod;
+  window: number;
+  sensitivity: number;
+  reportFrom?: string;
+}
+
+interface Baseline {
+  expected: number;
+  spread: number;
+}
+
+const round = (value: number, digits: number = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2
+    : sorted[middle] ?? 0;
+};
+
+/**
+ * Expected value and spread of a window of daily costs
+ * 'zscore' uses mean and standard deviation; 'mad' uses median and scaled
+ * median absolute deviation, which a single earlier spike cannot skew
+ */
+const computeBaseline = (values: number[], method: AnomalyMethod): Baseline => {
+  if (method === 'mad') {
+    const expected = median(values);
+    const spread = MAD_SCALE * median(values.map((value) => Math.abs(value - expected)));
+    return { expected, spread };
+  }
+
+  const expected = mean(values);
+  const variance = mean(values.map((value) => (value - expected) ** 2));
+  return { expected, spread: Math.sqrt(variance) };
+};
+
+/**
+ * Group daily costs by dimension value into continuous series
+ * Days without records inside a series are filled with zero cost so the
+ * rolling window always covers consecutive calendar days
+ */
+const buildDailySeries = (items: DailyDimensionCostItem[]): Map<string, Array<{ date: string; cost: number }>> => {
+  const costsByValue = new Map<string, Map<string, number>>();
+  let lastDate = '';
+
+  items.forEach((item) => {
+    const costs = costsByValue.get(item.dimensionValue) ?? new Map<string, number>();
+    costs.set(item.date, (costs.get(item.date) ?? 0) + item.dailyCost);
+    costsByValue.set(item.dimensionValue, costs);
+    if (item.date > lastDate) {
+      lastDate = item.date;
+    }
+  });
+
+  const series = new Map<string, Array<{ date: string; cost: number }>>();
+  costsByValue.forEach((costs, value) => {
+    const firstDate = Array.from(costs.keys()).sort()[0] ?? lastDate;
+    const points: Array<{ date: string; cost: number }> = [];
+    for (let day = parseDateString(firstDate); toDateString(day) <= lastDate; day = addDays(day, 1)) {
+      const date = toDateString(day);
+      points.push({ date, cost: costs.get(date) ?? 0 });
+    }
+    series.set(value, points);
+  });
+
+  return series;
+};
+
+/**
+ * Find days whose cost deviates from the rolling baseline of the preceding
+ * `window` days by more than `sensitivity` times the baseline spread
+ * Days without a full window of history are never reported
+ * Results are ordered newest first, then by score
+ */
+export const detectCostAnomalies = (
+  items: DailyDimensionCostItem[],
+  options: AnomalyDetectionOptions,
+): CostAnomalyItem[] => {
+  const {
+    dimension, method, window, sensitivity, reportFrom,
+  } = options;
+  const anomalies: CostAnomalyItem[] = [];
+
+  buildDailySeries(items).forEach((points, dimensionValue) => {
+    for (let i = window; i < points.length; i += 1) {
+      const point = points[i]!;
+      if (!reportFrom || point.date >= reportFrom) {
+        const history = points.slice(i - window, i).map((entry) => entry.cost);
+        const { expected, spread } = computeBaseline(history, method);
+        const effectiveSpread = Math.max(spread, Math.abs(expected) * MIN_RELATIVE_SPREAD, MIN_ABSOLUTE_SPREAD);
+        const deviation = point.cost - expected;
+        const score = deviation / effectiveSpread;
+
+        if (Math.abs(score) > sensitivity) {
+          anomalies.push({
+            date: point.date,
+            dimension,
+            dimensionValue,
+            actualCost: round(point.cost),
+            expectedCost: round(expected),
+            deviation: round(deviation),
+            deviationPercent: expected > 0 ? round((deviation / expected) * 100) : null,
+            score: round(score),
+            direction: deviation > 0 ? 'spike' : 'drop',
+          });
+        }
+      }
+    }
+  });
+
+  return anomalies.sort((a, b) => b.date.localeCompare(a.date) || Math.abs(b.score) - Math.abs(a.score));
+};
@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import { Op } from 'sequelize';
+import ApiKey from '../models/ApiKey';
+import User from '../models/User';
+import { ApiKeyScope, UserRole, USER_ROLES } from '../types';
+
+/**
+ * Keys start with this marker so they are easy to recognize, e.g. by secret scanners
+ */
+const API_KEY_MARKER = 'cmk_';
+
+/**
+ * How stale lastUsedAt may get before a request updates it, to avoid a write on every call
+ */
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Role that each scope acts with; the owner's own role still caps it
+ * Ingest keys are further limited to the cost ingestion endpoints by the authenticate middleware
+ */
+const SCOPE_ROLES: Record<ApiKeyScope, UserRole> = {
+  read: 'viewer',
+  ingest: 'editor',
+  admin: 'admin',
+};
+
+const hashApiKey = (key: string): string => crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * The role an API key acts with: the lower of its scope's role and its owner's current role
+ */
+export const getApiKeyRole = (scope: ApiKeyScope, ownerRole: UserRole): UserRole => {
+  const scopeRole = SCOPE_ROLES[scope];
+  return USER_ROLES.indexOf(scopeRole) < USER_ROLES.indexOf(ownerRole) ? scopeRole : ownerRole;
+};
+
+/**
+ * Whether a user's role allows minting a key with the scope
+ */
+export const canGrantScope = (scope: ApiKeyScope, ownerRole: UserRole): boolean => getApiKeyRole(scope, ownerRole) === SCOPE_ROLES[scope];
+
+/**
+ * Generate a new key; returns the key itself, which is only shown once,
+ * and the prefix and hash to store
+ */
+export const generateApiKey = (): { key: string; prefix: string; keyHash: string } => {
+  const key = `${API_KEY_MARKER}${crypto.randomBytes(32).toString('base64url')}`;
+  return {
+    key,
+    prefix: key.substring(0, API_KEY_MARKER.length + 8),
+    keyHash: hashApiKey(key),
+  };
+};
+
+/**
+ * Look up an active key with its owner and record that it was used
+ * Returns null for unknown, revoked and expired keys
+ */
+export const findActiveApiKey = async (key: string, ipAddress: string | null): Promise<{ apiKey: ApiKey; user: User } | null> => {
+  if (!key.startsWith(API_KEY_MARKER)) {
+    return null;
+  }
+
+  const now = new Date();
+  const apiKey = await ApiKey.findOne({
+    where: {
+      keyHash: hashApiKey(key),
+      revokedAt: null,
+      [Op.or]: [{ expiresAt: null }, { expiresAt: { [Op.gt]: now } }],
+    },
+  });
+  if (!apiKey) {
+    return null;
+  }
+
+  const user = await User.findByPk(apiKey.userId);
+  if (!user) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS || apiKey.lastUsedIp !== ipAddress) {
+    await apiKey.update({ lastUsedAt: now, lastUsedIp: ipAddress });
+  }
+
+  return { apiKey, user };
+};
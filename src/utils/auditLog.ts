@@ -0,0 +1,20 @@
+import { Transaction } from 'sequelize';
+import AuditLog from '../models/AuditLog';
+import { AuditLogCreationAttributes } from '../types';
+import { log } from './logger';
+
+/**
+ * Append an entry to the audit log and mirror it to the application log
+ */
+export const recordAuditEvent = async (
+  event: Omit<AuditLogCreationAttributes, 'id' | 'createdAt'>,
+  transaction: Transaction | null = null,
+): Promise<AuditLog> => {
+  const entry = await AuditLog.create(event, { transaction });
+  log.info('Audit event recorded', {
+    action: entry.action,
+    userId: entry.userId,
+    actorId: entry.actorId,
+  });
+  return entry;
+};
@@ -0,0 +1,48 @@
+import User from '../models/User';
+import { sendMail } from './mailer';
+
+/**
+ * Link into the frontend app, which posts the token back to the API
+ * APP_URL is the frontend's base URL (default http://localhost:3000)
+ */
+const buildAppLink = (pathname: string, token: string): string => {
+  const url = new URL(pathname, process.env['APP_URL'] || 'http://localhost:3000');
+  url.searchParams.set('token', token);
+  return url.toString();
+};
+
+/**
+ * Email a new user the link to verify their address
+ */
+export const sendVerificationEmail = async (user: User, token: string): Promise<void> => {
+  const link = buildAppLink('/verify-email', token);
+  await sendMail({
+    to: user.email,
+    subject: '[Cost Monitoring] Verify your email address',
+    text: [
+      'Welcome to Cost Monitoring.',
+      '',
+      `Verify your email address to activate your account: ${link}`,
+      '',
+      'The link expires in 24 hours. If you did not sign up, you can ignore this email.',
+    ].join('\n'),
+  });
+};
+
+/**
+ * Email a user the link to choose a new password
+ */
+export const sendPasswordResetEmail = async (user: User, token: string): Promise<void> => {
+  const link = buildAppLink('/reset-password', token);
+  await sendMail({
+    to: user.email,
+    subject: '[Cost Monitoring] Reset your password',
+    text: [
+      'A password reset was requested for your Cost Monitoring account.',
+      '',
+      `Choose a new password: ${link}`,
+      '',
+      'The link expires in 1 hour and can be used once. If you did not request a reset, you can ignore this email.',
+    ].join('\n'),
+  });
+};
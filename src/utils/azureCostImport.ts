@@ -0,0 +1,170 @@
+import { CostRecordCreationAttributes } from '../types';
+import {
+  ParsedCostFile,
+  collectCostRows,
+  columnValue,
+  parseAmount,
+  readCsvEntries,
+  resolveColumns,
+} from './costImport';
+import { isValidTagKey } from './costTags';
+import { checkCostRecordLimits } from './costIngestion';
+import { isCurrencyCode } from './exchangeRates';
+import { isDateString } from './dates';
+
+type AzureField = 'date' | 'subscriptionId' | 'meterCategory' | 'meterSubCategory' | 'meterName' | 'resourceLocation'
+  | 'resourceId' | 'cost' | 'billingCurrency' | 'tags' | 'productName';
+
+/**
+ * Accepted header names per field of an Azure Cost Management export, normalized to
+ * lowercase alphanumerics; covers both the EA (PreTaxCost, InstanceId) and
+ * MCA (costInBillingCurrency, ResourceId) layouts
+ */
+const AZURE_COLUMN_ALIASES: Record<AzureField, string[]> = {
+  date: ['date', 'usagedatetime', 'usagedate'],
+  subscriptionId: ['subscriptionid', 'subscriptionguid'],
+  meterCategory: ['metercategory', 'servicename'],
+  meterSubCategory: ['metersubcategory'],
+  meterName: ['metername'],
+  resourceLocation: ['resourcelocationnormalized', 'resourcelocation', 'location'],
+  resourceId: ['resourceid', 'instanceid'],
+  cost: ['costinbillingcurrency', 'pretaxcost', 'cost'],
+  billingCurrency: ['billingcurrency', 'billingcurrencycode', 'currency'],
+  tags: ['tags'],
+  productName: ['productname', 'product'],
+};
+
+const REQUIRED_FIELDS: AzureField[] = ['date', 'subscriptionId', 'meterCategory', 'cost'];
+
+/**
+ * Azure exports dates as MM/DD/YYYY or as ISO dates, depending on the export version
+ */
+const parseAzureDate = (value: string): string | null => {
+  const usDate = /^(\d{1,2})\/(\d{1,2})\/(\d{4})/.exec(value);
+  const date = usDate
+    ? `${usDate[3]}-${usDate[1]!.padStart(2, '0')}-${usDate[2]!.padStart(2, '0')}`
+    : value.substring(0, 10);
+  return isDateString(date) ? date : null;
+};
+
+/**
+ * Locations come as display names ("West Europe") or names ("westeurope");
+ * both are stored as the name
+ */
+const normalizeLocation = (location: string): string => {
+  const name = location.toLowerCase().replace(/\s+/g, '');
+  return name === '' || name === 'unassigned' ? 'global' : name;
+};
+
+/**
+ * Azure tags are JSON, with or without the enclosing braces: "env": "prod","team": "payments"
+ * Malformed tag data is skipped rather than rejecting the row
+ */
+const parseAzureTags = (value: string): Record<string, string> => {
+  const tags: Record<string, string> = {};
+  if (!value) {
+    return tags;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value.startsWith('{') ? value : `{${value}}`);
+    if (typeof parsed === 'object' && parsed !== null) {
+      Object.entries(parsed).forEach(([key, tagValue]) => {
+        if (isValidTagKey(key) && typeof tagValue === 'string' && tagValue !== '') {
+          tags[key] = tagValue;
+        }
+      });
+    }
+  } catch {
+    // Ignore unparseable tag maps
+  }
+
+  return tags;
+};
+
+/**
+ * Map a single Azure cost row onto cost record attributes
+ * Returns a rejection reason instead when the row is unusable
+ */
+const mapAzureRow = (
+  row: Record<string, string>,
+  columns: Partial<Record<AzureField, string>>,
+): CostRecordCreationAttributes | string => {
+  const value = (field: AzureField): string => columnValue(row, columns, field);
+
+  const date = parseAzureDate(value('date'));
+  if (!date) {
+    return `Invalid date "${value('date')}"`;
+  }
+
+  const meterCategory = value('meterCategory');
+  if (!meterCategory) {
+    return 'Missing meter category';
+  }
+
+  const accountId = value('subscriptionId');
+  if (!accountId) {
+    return 'Missing subscription id';
+  }
+
+  const costAmount = parseAmount(value('cost'));
+  if (costAmount === null) {
+    return `Invalid cost "${value('cost')}"`;
+  }
+
+  const currency = value('billingCurrency').toUpperCase();
+  if (currency && !isCurrencyCode(currency)) {
+    return `Invalid currency code "${currency}"`;
+  }
+
+  const record: CostRecordCreationAttributes = {
+    provider: 'azure',
+    date: new Date(date),
+    serviceName: meterCategory,
+    costAmount,
+    region: normalizeLocation(value('resourceLocation')),
+    accountId,
+    tags: parseAzureTags(value('tags')),
+  };
+
+  if (currency) {
+    record.currency = currency;
+  }
+
+  // Resource ids differ only in case between exports of the same resource
+  const resourceId = value('resourceId').toLowerCase();
+  if (resourceId) {
+    record.resourceId = resourceId;
+  }
+
+  const usageType = value('meterName') || value('meterSubCategory');
+  if (usageType) {
+    record.usageType = usageType;
+  }
+
+  const description = value('productName');
+  if (description) {
+    record.description = description;
+  }
+
+  return checkCostRecordLimits(record) ?? record;
+};
+
+/**
+ * Parse an Azure Cost Management cost details export CSV file
+ * Valid rows are mapped onto cost record attributes; invalid rows are
+ * reported with their line number and the reason they were rejected
+ */
+export const parseAzureCostCsv = async (content: Buffer | string): Promise<ParsedCostFile> => {
+  const entries = await readCsvEntries(content);
+  if (entries.length === 0) {
+    return { rows: [], rejected: [], totalRows: 0 };
+  }
+
+  const columns = resolveColumns(Object.keys(entries[0]!.record), AZURE_COLUMN_ALIASES, REQUIRED_FIELDS, 'Azure cost export');
+
+  return collectCostRows(
+    entries.map(({ record, info }) => ({ line: info.lines, row: record })),
+    (row) => mapAzureRow(row, columns),
+  );
+};
@@ -0,0 +1,92 @@
+import Budget from '../models/Budget';
+import { BudgetPeriod, BudgetStatus } from '../types';
+import { getAccessibleAccountIds } from './accountAccess';
+import { buildCostWhereClause, fetchCostSummaryByService } from './costQueries';
+import { assertExchangeRatesAvailable, getReportingCurrency } from './exchangeRates';
+import {
+  addDays, daysInclusive, parseDateString, toDateString,
+} from './dates';
+
+const PERIOD_MONTHS: Record<BudgetPeriod, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+const round = (value: number, decimals: number = 2): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Get the first and last day of the budget period containing the given date
+ * Quarters and years are calendar-aligned
+ */
+export const getPeriodBounds = (period: BudgetPeriod, asOf: Date): { start: Date; end: Date } => {
+  const months = PERIOD_MONTHS[period];
+  const year = asOf.getUTCFullYear();
+  const startMonth = Math.floor(asOf.getUTCMonth() / months) * months;
+
+  const start = new Date(Date.UTC(year, startMonth, 1));
+  const end = addDays(new Date(Date.UTC(year, startMonth + months, 1)), -1);
+  return { start, end };
+};
+
+/**
+ * Compute actual and forecast spend for a budget's current period
+ * Uses the same filters and aggregation as the cost summary endpoint, scoped
+ * to the accounts the budget owner can access. The forecast extrapolates the
+ * average daily spend so far over the whole period.
+ * Spend is converted to the reporting currency; throws ValidationError when a rate is missing
+ */
+export const computeBudgetStatus = async (budget: Budget, asOfDate: Date = new Date()): Promise<BudgetStatus> => {
+  const asOf = parseDateString(toDateString(asOfDate));
+  const { start, end } = getPeriodBounds(budget.period, asOf);
+
+  const filters: Record<string, string> = {
+    startDate: toDateString(start),
+    endDate: toDateString(asOf),
+  };
+  if (budget.accountId) {
+    filters['accountId'] = budget.accountId;
+  }
+  if (budget.serviceName) {
+    filters['serviceName'] = budget.serviceName;
+  }
+  if (budget.region) {
+    filters['region'] = budget.region;
+  }
+
+  const currency = getReportingCurrency();
+  const allowedAccountIds = await getAccessibleAccountIds(budget.userId);
+  const whereClause = buildCostWhereClause(filters, allowedAccountIds);
+  await assertExchangeRatesAvailable(whereClause, currency);
+  const breakdown = await fetchCostSummaryByService(whereClause, currency);
+
+  const amount = Number(budget.amount);
+  const actualSpend = breakdown.reduce((total, item) => total + item.totalCost, 0);
+  const daysInPeriod = daysInclusive(start, end);
+  const daysElapsed = daysInclusive(start, asOf);
+  const forecastSpend = (actualSpend / daysElapsed) * daysInPeriod;
+  const percentConsumed = amount > 0 ? (actualSpend / amount) * 100 : 0;
+
+  return {
+    budgetId: budget.id,
+    name: budget.name,
+    amount,
+    currency,
+    period: budget.period,
+    periodStart: toDateString(start),
+    periodEnd: toDateString(end),
+    asOf: toDateString(asOf),
+    daysElapsed,
+    daysInPeriod,
+    actualSpend: round(actualSpend),
+    remaining: round(amount - actualSpend),
+    percentConsumed: round(percentConsumed),
+    forecastSpend: round(forecastSpend),
+    forecastPercent: amount > 0 ? round((forecastSpend / amount) * 100) : 0,
+    thresholdsCrossed: [...budget.alertThresholds].sort((a, b) => a - b).filter((threshold) => percentConsumed >= threshold),
+    breakdown,
+  };
+};
@@ -0,0 +1,72 @@
+import {
+  AggregateDimension,
+  AggregateFunction,
+  CostAggregateGroup,
+  CostAggregateRow,
+} from '../types';
+
+/**
+ * Label used for every dimension of the bucket that collects groups outside the top N
+ */
+export const OTHER_BUCKET_LABEL = 'Other';
+
+export interface AggregateRankOptions {
+  dimensions: AggregateDimension[];
+  aggregates: AggregateFunction[];
+  sortBy: AggregateFunction;
+  top: number | null;
+}
+
+const round = (value: number, digits: number = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const metricValue = (group: CostAggregateGroup, aggregate: AggregateFunction): number => {
+  if (aggregate === 'avg') {
+    return group.count > 0 ? group.sum / group.count : 0;
+  }
+  return group[aggregate];
+};
+
+const toRow = (group: CostAggregateGroup, aggregates: AggregateFunction[], isOther: boolean): CostAggregateRow => {
+  const values: Partial<Record<AggregateFunction, number>> = {};
+  aggregates.forEach((aggregate) => {
+    values[aggregate] = aggregate === 'count' ? group.count : round(metricValue(group, aggregate));
+  });
+  return { dimensions: group.dimensions, values, isOther };
+};
+
+/**
+ * Order groups by the `sortBy` aggregate, largest first, and keep the top N
+ * The remaining groups are folded into a single "Other" row so totals still add up
+ */
+export const rankAggregateGroups = (groups: CostAggregateGroup[], options: AggregateRankOptions): CostAggregateRow[] => {
+  const {
+    dimensions, aggregates, sortBy, top,
+  } = options;
+  const sorted = [...groups].sort((a, b) => metricValue(b, sortBy) - metricValue(a, sortBy));
+
+  if (top === null || sorted.length <= top) {
+    return sorted.map((group) => toRow(group, aggregates, false));
+  }
+
+  const rest = sorted.slice(top);
+  const otherDimensions: Partial<Record<AggregateDimension, string>> = {};
+  dimensions.forEach((dimension) => {
+    otherDimensions[dimension] = OTHER_BUCKET_LABEL;
+  });
+
+  const other: CostAggregateGroup = {
+    dimensions: otherDimensions,
+    sum: rest.reduce((total, group) => total + group.sum, 0),
+    count: rest.reduce((total, group) => total + group.count, 0),
+    min: rest.reduce((lowest, group) => Math.min(lowest, group.min), Infinity),
+    max: rest.reduce((highest, group) => Math.max(highest, group.max), -Infinity),
+  };
+
+  return [
+    ...sorted.slice(0, top).map((group) => toRow(group, aggregates, false)),
+    toRow(other, aggregates, true),
+  ];
+};
@@ -0,0 +1,151 @@
+import AllocationRule from '../models/AllocationRule';
+import {
+  AggregateDimension,
+  CostAggregateGroup,
+  CostAllocationReport,
+  RuleAllocation,
+  TeamAllocation,
+} from '../types';
+import { TAG_DIMENSION_PREFIX } from './costTags';
+
+const round = (value: number, digits: number = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const addTo = (totals: Map<string, number>, key: string, amount: number): void => {
+  totals.set(key, (totals.get(key) ?? 0) + amount);
+};
+
+/**
+ * Dimensions the cost aggregation must be grouped by so every rule can be matched
+ * and every cost attributed to a team through the `tagKey` tag
+ */
+export const getAllocationDimensions = (rules: AllocationRule[], tagKey: string): AggregateDimension[] => {
+  const tagKeys = new Set([tagKey]);
+  rules.forEach((rule) => {
+    if (rule.tagKey) {
+      tagKeys.add(rule.tagKey);
+    }
+  });
+
+  return [
+    'serviceName',
+    'accountId',
+    'usageType',
+    ...Array.from(tagKeys).map((key): AggregateDimension => `${TAG_DIMENSION_PREFIX}${key}`),
+  ];
+};
+
+const matchesRule = (group: CostAggregateGroup, rule: AllocationRule): boolean => {
+  const { dimensions } = group;
+  if (rule.serviceName && dimensions.serviceName !== rule.serviceName) {
+    return false;
+  }
+  if (rule.accountId && dimensions.accountId !== rule.accountId) {
+    return false;
+  }
+  if (rule.usageType && dimensions.usageType !== rule.usageType) {
+    return false;
+  }
+  if (rule.tagKey) {
+    const tagValue = dimensions[`${TAG_DIMENSION_PREFIX}${rule.tagKey}`];
+    if (tagValue === null || tagValue === undefined || (rule.tagValue && tagValue !== rule.tagValue)) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Split aggregated costs into each team's direct spend plus its share of shared costs
+ * Costs matching a rule (the first one in priority order) are shared; everything else
+ * belongs to the team named by the record's `tagKey` tag. Fixed rules split by their
+ * percentages; proportional rules split by each team's direct spend, optionally on
+ * a single basis service. Costs that cannot be attributed are reported as unallocated.
+ */
+export const allocateCosts = (
+  groups: CostAggregateGroup[],
+  rules: AllocationRule[],
+  tagKey: string,
+): Omit<CostAllocationReport, 'startDate' | 'endDate' | 'currency'> => {
+  const teamDimension: AggregateDimension = `${TAG_DIMENSION_PREFIX}${tagKey}`;
+  const directCosts = new Map<string, number>();
+  const sharedCosts = new Map<string, number>();
+  const matchedCosts = new Map<number, number>();
+  const directGroups: CostAggregateGroup[] = [];
+  let unallocatedCost = 0;
+
+  groups.forEach((group) => {
+    const rule = rules.find((candidate) => matchesRule(group, candidate));
+    if (rule) {
+      matchedCosts.set(rule.id, (matchedCosts.get(rule.id) ?? 0) + group.sum);
+      return;
+    }
+
+    const team = group.dimensions[teamDimension];
+    if (team) {
+      addTo(directCosts, team, group.sum);
+      directGroups.push(group);
+    } else {
+      unallocatedCost += group.sum;
+    }
+  });
+
+  const ruleAllocations: RuleAllocation[] = rules.map((rule) => {
+    const matchedCost = matchedCosts.get(rule.id) ?? 0;
+    let allocatedCost = 0;
+
+    if (rule.method === 'fixed') {
+      rule.splits.forEach((split) => {
+        const amount = (matchedCost * split.percent) / 100;
+        addTo(sharedCosts, split.target, amount);
+        allocatedCost += amount;
+      });
+    } else {
+      const basis = new Map<string, number>();
+      directGroups
+        .filter((group) => !rule.basisServiceName || group.dimensions.serviceName === rule.basisServiceName)
+        .forEach((group) => addTo(basis, group.dimensions[teamDimension]!, group.sum));
+      const basisTotal = Array.from(basis.values()).reduce((total, amount) => total + amount, 0);
+
+      if (basisTotal > 0) {
+        basis.forEach((amount, team) => {
+          const share = (matchedCost * amount) / basisTotal;
+          addTo(sharedCosts, team, share);
+          allocatedCost += share;
+        });
+      }
+    }
+
+    unallocatedCost += matchedCost - allocatedCost;
+    return {
+      ruleId: rule.id,
+      name: rule.name,
+      method: rule.method,
+      matchedCost: round(matchedCost),
+      allocatedCost: round(allocatedCost),
+      unallocatedCost: round(matchedCost - allocatedCost),
+    };
+  });
+
+  const teamNames = new Set([...directCosts.keys(), ...sharedCosts.keys()]);
+  const teams: TeamAllocation[] = Array.from(teamNames).map((team) => {
+    const directCost = directCosts.get(team) ?? 0;
+    const sharedCost = sharedCosts.get(team) ?? 0;
+    return {
+      team,
+      directCost: round(directCost),
+      sharedCost: round(sharedCost),
+      totalCost: round(directCost + sharedCost),
+    };
+  });
+
+  return {
+    tagKey,
+    totalCost: round(groups.reduce((total, group) => total + group.sum, 0)),
+    unallocatedCost: round(unallocatedCost),
+    teams: teams.sort((a, b) => b.totalCost - a.totalCost),
+    rules: ruleAllocations,
+  };
+};
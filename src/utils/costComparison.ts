@@ -0,0 +1,90 @@
+import {
+  CompareDimension,
+  ComparePreset,
+  CostComparison,
+  CostComparisonItem,
+  DimensionCostItem,
+} from '../types';
+import {
+  addDays, addYears, daysInclusive, parseDateString, toDateString,
+} from './dates';
+
+const round = (value: number, digits: number = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const percentOf = (value: number, base: number): number | null => (base !== 0 ? round((value / base) * 100) : null);
+
+/**
+ * Get the range to compare a date range against
+ * 'previous_period' is the range of equal length ending the day before `startDate`;
+ * 'previous_year' is the same calendar dates one year earlier
+ */
+export const getBaselineRange = (
+  startDate: string,
+  endDate: string,
+  preset: ComparePreset,
+): { startDate: string; endDate: string } => {
+  const start = parseDateString(startDate);
+  const end = parseDateString(endDate);
+
+  if (preset === 'previous_year') {
+    return {
+      startDate: toDateString(addYears(start, -1)),
+      endDate: toDateString(addYears(end, -1)),
+    };
+  }
+
+  const length = daysInclusive(start, end);
+  return {
+    startDate: toDateString(addDays(start, -length)),
+    endDate: toDateString(addDays(start, -1)),
+  };
+};
+
+/**
+ * Join per-dimension totals of two ranges and compute their deltas
+ * Items are ordered by the size of their contribution to the overall change,
+ * so the biggest movers come first whether costs went up or down
+ */
+export const buildCostComparison = (
+  groupBy: CompareDimension,
+  current: { startDate: string; endDate: string; items: DimensionCostItem[] },
+  baseline: { startDate: string; endDate: string; items: DimensionCostItem[] },
+): CostComparison => {
+  const costs = new Map<string, { currentCost: number; baselineCost: number }>();
+  current.items.forEach((item) => {
+    costs.set(item.dimensionValue, { currentCost: item.totalCost, baselineCost: 0 });
+  });
+  baseline.items.forEach((item) => {
+    const entry = costs.get(item.dimensionValue) ?? { currentCost: 0, baselineCost: 0 };
+    entry.baselineCost = item.totalCost;
+    costs.set(item.dimensionValue, entry);
+  });
+
+  const currentTotal = current.items.reduce((total, item) => total + item.totalCost, 0);
+  const baselineTotal = baseline.items.reduce((total, item) => total + item.totalCost, 0);
+  const totalChange = currentTotal - baselineTotal;
+
+  const items: CostComparisonItem[] = Array.from(costs.entries()).map(([dimensionValue, { currentCost, baselineCost }]) => {
+    const change = currentCost - baselineCost;
+    return {
+      dimensionValue,
+      currentCost: round(currentCost),
+      baselineCost: round(baselineCost),
+      change: round(change),
+      changePercent: percentOf(change, baselineCost),
+      contributionPercent: percentOf(change, totalChange),
+    };
+  });
+
+  return {
+    groupBy,
+    current: { startDate: current.startDate, endDate: current.endDate, totalCost: round(currentTotal) },
+    baseline: { startDate: baseline.startDate, endDate: baseline.endDate, totalCost: round(baselineTotal) },
+    change: round(totalChange),
+    changePercent: percentOf(totalChange, baselineTotal),
+    items: items.sort((a, b) => Math.abs(b.change) - Math.abs(a.change)),
+  };
+};
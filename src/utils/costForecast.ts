@@ -0,0 +1,177 @@
+import {
+  CostForecastPoint,
+  CostPeriodProjection,
+  CostTrendItem,
+  ForecastMethod,
+} from '../types';
+import { addDays, parseDateString, toDateString } from './dates';
+
+/**
+ * Two-sided normal quantiles for the supported confidence levels
+ */
+const CONFIDENCE_Z_SCORES: Record<string, number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96,
+  0.99: 2.5758,
+};
+
+export const FORECAST_CONFIDENCE_LEVELS = Object.keys(CONFIDENCE_Z_SCORES).map(Number);
+
+export const MIN_LINEAR_HISTORY_DAYS = 3;
+
+/**
+ * Day-of-week effects need at least two observations of every weekday
+ */
+export const MIN_SEASONAL_HISTORY_DAYS = 14;
+
+export interface DailyCostPoint {
+  date: string;
+  cost: number;
+}
+
+export interface ForecastOptions {
+  method: ForecastMethod;
+  horizon: number;
+  confidence: number;
+}
+
+export interface DailyCostForecast {
+  method: ForecastMethod;
+  slopePerDay: number;
+  points: CostForecastPoint[];
+}
+
+const round = (value: number, digits: number = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Turn daily totals into a continuous series ending on `endDate`
+ * The series starts at the first day with cost data; missing days count as zero cost
+ */
+export const toContinuousSeries = (items: CostTrendItem[], endDate: string): DailyCostPoint[] => {
+  const costs = new Map<string, number>();
+  items.forEach((item) => {
+    const date = toDateString(item.date);
+    costs.set(date, (costs.get(date) ?? 0) + item.dailyCost);
+  });
+
+  const firstDate = Array.from(costs.keys()).sort()[0];
+  if (!firstDate) {
+    return [];
+  }
+
+  const series: DailyCostPoint[] = [];
+  for (let day = parseDateString(firstDate); toDateString(day) <= endDate; day = addDays(day, 1)) {
+    const date = toDateString(day);
+    series.push({ date, cost: costs.get(date) ?? 0 });
+  }
+  return series;
+};
+
+/**
+ * Project daily cost beyond the end of a continuous history
+ * 'linear' fits an ordinary least squares trend line; 'seasonal' adds an additive
+ * day-of-week effect estimated from the trend residuals, and falls back to
+ * 'linear' when there is less than two weeks of history.
+ * Bounds are prediction intervals from the residual standard error; predicted
+ * costs and lower bounds are clamped at zero.
+ */
+export const forecastDailyCosts = (history: DailyCostPoint[], options: ForecastOptions): DailyCostForecast => {
+  const n = history.length;
+  const method: ForecastMethod = options.method === 'seasonal' && n >= MIN_SEASONAL_HISTORY_DAYS ? 'seasonal' : 'linear';
+  const values = history.map((point) => point.cost);
+
+  // Linear trend over the day index
+  const meanT = (n - 1) / 2;
+  const meanY = sum(values) / n;
+  const sxx = sum(values.map((_, t) => (t - meanT) ** 2));
+  const sxy = sum(values.map((value, t) => (t - meanT) * (value - meanY)));
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanY - slope * meanT;
+  const trendAt = (t: number): number => intercept + slope * t;
+
+  // Day-of-week effects, centred so they do not shift the trend level
+  const firstDay = parseDateString(history[0]!.date);
+  const weekdayAt = (t: number): number => addDays(firstDay, t).getUTCDay();
+  const effects = new Array<number>(7).fill(0);
+  if (method === 'seasonal') {
+    const residualsByWeekday: number[][] = Array.from({ length: 7 }, () => []);
+    values.forEach((value, t) => residualsByWeekday[weekdayAt(t)]!.push(value - trendAt(t)));
+    residualsByWeekday.forEach((residuals, weekday) => {
+      effects[weekday] = residuals.length > 0 ? sum(residuals) / residuals.length : 0;
+    });
+    const meanEffect = sum(effects) / 7;
+    effects.forEach((effect, weekday) => {
+      effects[weekday] = effect - meanEffect;
+    });
+  }
+  const fittedAt = (t: number): number => trendAt(t) + (effects[weekdayAt(t)] ?? 0);
+
+  const parameterCount = method === 'seasonal' ? 8 : 2;
+  const sse = sum(values.map((value, t) => (value - fittedAt(t)) ** 2));
+  const standardError = n > parameterCount ? Math.sqrt(sse / (n - parameterCount)) : 0;
+  const z = CONFIDENCE_Z_SCORES[String(options.confidence)] ?? CONFIDENCE_Z_SCORES['0.95']!;
+
+  const points: CostForecastPoint[] = [];
+  for (let step = 1; step <= options.horizon; step += 1) {
+    const t = n - 1 + step;
+    const predicted = fittedAt(t);
+    const leverage = sxx > 0 ? ((t - meanT) ** 2) / sxx : 0;
+    const margin = z * standardError * Math.sqrt(1 + 1 / n + leverage);
+
+    points.push({
+      date: toDateString(addDays(firstDay, t)),
+      predictedCost: round(Math.max(predicted, 0)),
+      lowerBound: round(Math.max(predicted - margin, 0)),
+      upperBound: round(Math.max(predicted + margin, 0)),
+    });
+  }
+
+  return { method, slopePerDay: round(slope, 4), points };
+};
+
+/**
+ * Total predicted cost and bounds over a set of forecast days
+ */
+export const sumForecastPoints = (points: CostForecastPoint[]): {
+  totalPredicted: number; totalLowerBound: number; totalUpperBound: number;
+} => ({
+  totalPredicted: round(sum(points.map((point) => point.predictedCost))),
+  totalLowerBound: round(sum(points.map((point) => point.lowerBound))),
+  totalUpperBound: round(sum(points.map((point) => point.upperBound))),
+});
+
+/**
+ * Combine actual spend so far with forecast daily costs for the rest of a period
+ * Bounds add the daily bounds, which is conservative for a period total
+ */
+export const projectPeriodSpend = (
+  period: CostPeriodProjection['period'],
+  bounds: { start: Date; end: Date },
+  actuals: DailyCostPoint[],
+  points: CostForecastPoint[],
+): CostPeriodProjection => {
+  const periodStart = toDateString(bounds.start);
+  const periodEnd = toDateString(bounds.end);
+  const inPeriod = (date: string): boolean => date >= periodStart && date <= periodEnd;
+
+  const actualToDate = sum(actuals.filter((point) => inPeriod(point.date)).map((point) => point.cost));
+  const remaining = points.filter((point) => inPeriod(point.date));
+  const forecastRemaining = sum(remaining.map((point) => point.predictedCost));
+
+  return {
+    period,
+    periodStart,
+    periodEnd,
+    actualToDate: round(actualToDate),
+    forecastRemaining: round(forecastRemaining),
+    projectedTotal: round(actualToDate + forecastRemaining),
+    lowerBound: round(actualToDate + sum(remaining.map((point) => point.lowerBound))),
+    upperBound: round(actualToDate + sum(remaining.map((point) => point.upperBound))),
+  };
+};
@@ -0,0 +1,301 @@
+import { parse } from 'csv-parse';
+import { CostRecordCreationAttributes, ImportRowError } from '../types';
+import { ValidationError } from './errors';
+import { isValidTagKey } from './costTags';
+import { checkCostRecordLimits } from './costIngestion';
+import { isCurrencyCode } from './exchangeRates';
+
+export interface ParsedCostRow {
+  line: number;
+  record: CostRecordCreationAttributes;
+}
+
+export interface ParsedCostFile {
+  rows: ParsedCostRow[];
+  rejected: ImportRowError[];
+  totalRows: number;
+}
+
+export interface CsvEntry {
+  record: Record<string, string>;
+  info: { lines: number };
+}
+
+type CurField = 'usageStartDate' | 'productCode' | 'region' | 'usageAccountId' | 'resourceId' | 'usageType' | 'unblendedCost' | 'currencyCode' | 'description';
+
+/**
+ * Accepted header names per field, normalized to lowercase alphanumerics so that
+ * legacy CUR headers (lineItem/UsageStartDate) and CUR 2.0 headers
+ * (line_item_usage_start_date) both match
+ */
+const CUR_COLUMN_ALIASES: Record<CurField, string[]> = {
+  usageStartDate: ['lineitemusagestartdate', 'usagestartdate'],
+  productCode: ['lineitemproductcode', 'productcode'],
+  region: ['productregioncode', 'productregion', 'region'],
+  usageAccountId: ['lineitemusageaccountid', 'usageaccountid'],
+  resourceId: ['lineitemresourceid', 'resourceid'],
+  usageType: ['lineitemusagetype', 'usagetype'],
+  unblendedCost: ['lineitemunblendedcost', 'unblendedcost'],
+  currencyCode: ['lineitemcurrencycode', 'currencycode'],
+  description: ['lineitemlineitemdescription', 'lineitemdescription'],
+};
+
+const REQUIRED_FIELDS: CurField[] = ['usageStartDate', 'productCode', 'usageAccountId', 'unblendedCost'];
+
+/**
+ * CUR product codes mapped to the service names used across the dashboard
+ */
+const PRODUCT_CODE_SERVICE_NAMES: Record<string, string> = {
+  AmazonEC2: 'EC2',
+  AmazonS3: 'S3',
+  AWSLambda: 'Lambda',
+  AmazonRDS: 'RDS',
+  AmazonCloudFront: 'CloudFront',
+  AmazonDynamoDB: 'DynamoDB',
+  AmazonElastiCache: 'ElastiCache',
+  AmazonApiGateway: 'API Gateway',
+  AmazonECS: 'ECS',
+  AmazonCloudWatch: 'CloudWatch',
+};
+
+export const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Legacy CUR files have one column per cost allocation tag (resourceTags/user:team);
+ * CUR 2.0 files hold all tags as a JSON map in a single resource_tags column (user_team)
+ */
+const LEGACY_TAG_COLUMN_PREFIX = 'resourceTags/';
+const CUR2_TAG_COLUMN = 'resourcetags';
+
+interface TagColumns {
+  legacy: Array<{ column: string; key: string }>;
+  json: string | null;
+}
+
+const resolveTagColumns = (headers: string[]): TagColumns => ({
+  legacy: headers
+    .filter((header) => header.startsWith(LEGACY_TAG_COLUMN_PREFIX))
+    .map((header) => ({ column: header, key: header.substring(LEGACY_TAG_COLUMN_PREFIX.length).replace(/^user:/, '') }))
+    .filter(({ key }) => isValidTagKey(key)),
+  json: headers.find((header) => normalizeHeader(header) === CUR2_TAG_COLUMN) ?? null,
+});
+
+/**
+ * Collect the non-empty cost allocation tags of a CUR row
+ * Malformed tag data is skipped rather than rejecting the row
+ */
+const mapCurTags = (row: Record<string, string>, tagColumns: TagColumns): Record<string, string> => {
+  const tags: Record<string, string> = {};
+
+  tagColumns.legacy.forEach(({ column, key }) => {
+    const value = (row[column] || '').trim();
+    if (value) {
+      tags[key] = value;
+    }
+  });
+
+  const json = tagColumns.json ? (row[tagColumns.json] || '').trim() : '';
+  if (json) {
+    try {
+      const parsed: unknown = JSON.parse(json);
+      if (typeof parsed === 'object' && parsed !== null) {
+        Object.entries(parsed).forEach(([rawKey, value]) => {
+          const key = rawKey.replace(/^user_/, '');
+          if (isValidTagKey(key) && typeof value === 'string' && value !== '') {
+            tags[key] = value;
+          }
+        });
+      }
+    } catch {
+      // Ignore unparseable tag maps
+    }
+  }
+
+  return tags;
+};
+
+/**
+ * Resolve which column holds each field of a billing export, given its accepted header aliases
+ * Throws ValidationError naming the export when a required column is missing
+ */
+export const resolveColumns = <F extends string>(
+  headers: string[],
+  aliases: Record<F, string[]>,
+  required: F[],
+  exportName: string,
+): Partial<Record<F, string>> => {
+  const normalized = new Map(headers.map((header) => [normalizeHeader(header), header]));
+  const columns: Partial<Record<F, string>> = {};
+
+  (Object.keys(aliases) as F[]).forEach((field) => {
+    const alias = aliases[field].find((name) => normalized.has(name));
+    if (alias) {
+      columns[field] = normalized.get(alias)!;
+    }
+  });
+
+  const missing = required.filter((field) => !columns[field]);
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `File is missing required ${exportName} columns`,
+      missing.map((field) => ({ field, message: `Expected one of: ${aliases[field].join(', ')}` })),
+    );
+  }
+
+  return columns;
+};
+
+/**
+ * Read a field of a row through its resolved column, trimmed, or '' when the column is absent
+ */
+export const columnValue = <F extends string>(
+  row: Record<string, string>,
+  columns: Partial<Record<F, string>>,
+  field: F,
+): string => {
+  const column = columns[field];
+  return column ? (row[column] || '').trim() : '';
+};
+
+/**
+ * Parse a CSV file into records keyed by header, with the line each record ends on
+ * Throws ValidationError when the file is not valid CSV
+ */
+export const readCsvEntries = (content: Buffer | string): Promise<CsvEntry[]> => new Promise<CsvEntry[]>((resolve, reject) => {
+  parse(content, {
+    columns: true,
+    bom: true,
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+    info: true,
+  }, (error, result) => {
+    if (error) {
+      reject(new ValidationError(`Unable to parse CSV file: ${error.message}`));
+    } else {
+      resolve(result as CsvEntry[]);
+    }
+  });
+});
+
+/**
+ * Map every row with `mapRow`, splitting them into accepted cost records and rejected lines
+ */
+export const collectCostRows = <T>(
+  entries: Array<{ line: number; row: T }>,
+  mapRow: (row: T) => CostRecordCreationAttributes | string,
+): ParsedCostFile => {
+  const rows: ParsedCostRow[] = [];
+  const rejected: ImportRowError[] = [];
+
+  entries.forEach(({ line, row }) => {
+    const mapped = mapRow(row);
+    if (typeof mapped === 'string') {
+      rejected.push({ line, reason: mapped });
+    } else {
+      rows.push({ line, record: mapped });
+    }
+  });
+
+  return { rows, rejected, totalRows: entries.length };
+};
+
+/**
+ * Parse a billing export amount, or null when it is not a number
+ */
+export const parseAmount = (value: string): number | null => {
+  const amount = Number(value);
+  return value === '' || !Number.isFinite(amount) ? null : amount;
+};
+
+/**
+ * Map a single CUR row onto cost record attributes
+ * Returns a rejection reason instead when the row is unusable
+ */
+const mapCurRow = (
+  row: Record<string, string>,
+  columns: Partial<Record<CurField, string>>,
+  tagColumns: TagColumns,
+): CostRecordCreationAttributes | string => {
+  const value = (field: CurField): string => columnValue(row, columns, field);
+
+  const usageStartDate = value('usageStartDate');
+  const date = usageStartDate.substring(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+    return `Invalid usage start date "${usageStartDate}"`;
+  }
+
+  const productCode = value('productCode');
+  if (!productCode) {
+    return 'Missing product code';
+  }
+
+  const accountId = value('usageAccountId');
+  if (!accountId) {
+    return 'Missing usage account id';
+  }
+
+  const unblendedCost = value('unblendedCost');
+  const costAmount = parseAmount(unblendedCost);
+  if (costAmount === null) {
+    return `Invalid unblended cost "${unblendedCost}"`;
+  }
+
+  const currency = value('currencyCode').toUpperCase();
+  if (currency && !isCurrencyCode(currency)) {
+    return `Invalid currency code "${currency}"`;
+  }
+
+  const record: CostRecordCreationAttributes = {
+    provider: 'aws',
+    date: new Date(date),
+    serviceName: PRODUCT_CODE_SERVICE_NAMES[productCode] || productCode,
+    costAmount,
+    // Global services (Route 53, IAM, ...) have no region in the CUR
+    region: value('region') || 'global',
+    accountId,
+    tags: mapCurTags(row, tagColumns),
+  };
+
+  if (currency) {
+    record.currency = currency;
+  }
+
+  const resourceId = value('resourceId');
+  if (resourceId) {
+    record.resourceId = resourceId;
+  }
+
+  const usageType = value('usageType');
+  if (usageType) {
+    record.usageType = usageType;
+  }
+
+  const description = value('description');
+  if (description) {
+    record.description = description;
+  }
+
+  return checkCostRecordLimits(record) ?? record;
+};
+
+/**
+ * Parse an AWS Cost and Usage Report CSV file
+ * Valid rows are mapped onto cost record attributes; invalid rows are
+ * reported with their line number and the reason they were rejected
+ */
+export const parseCurCsv = async (content: Buffer | string): Promise<ParsedCostFile> => {
+  const entries = await readCsvEntries(content);
+  if (entries.length === 0) {
+    return { rows: [], rejected: [], totalRows: 0 };
+  }
+
+  const headers = Object.keys(entries[0]!.record);
+  const columns = resolveColumns(headers, CUR_COLUMN_ALIASES, REQUIRED_FIELDS, 'Cost and Usage Report');
+  const tagColumns = resolveTagColumns(headers);
+
+  return collectCostRows(
+    entries.map(({ record, info }) => ({ line: info.lines, row: record })),
+    (row) => mapCurRow(row, columns, tagColumns),
+  );
+};
@@ -0,0 +1,134 @@
+import { Transaction } from 'sequelize';
+import CostRecord from '../models/CostRecord';
+import { CostRecordAttributes, CostRecordCreationAttributes, ImportRowError } from '../types';
+import { toDateString } from './dates';
+
+/**
+ * Attributes that identify a cost record; re-ingesting a record with the same
+ * natural key updates its cost instead of inserting a duplicate
+ */
+export const COST_RECORD_NATURAL_KEY: Array<keyof CostRecordAttributes> = [
+  'provider',
+  'date',
+  'accountId',
+  'serviceName',
+  'region',
+  'resourceId',
+  'usageType',
+];
+
+/**
+ * Limits of the cost_records columns: STRING is VARCHAR(255) and cost_amount is DECIMAL(10, 2)
+ */
+const MAX_STRING_LENGTH = 255;
+const MAX_COST_AMOUNT = 99999999.99;
+const LIMITED_STRING_FIELDS: Array<keyof CostRecordCreationAttributes> = [
+  'serviceName',
+  'region',
+  'accountId',
+  'resourceId',
+  'usageType',
+];
+
+export const isCostAmountInRange = (amount: number): boolean => Math.abs(amount) <= MAX_COST_AMOUNT;
+
+/**
+ * Check that a record fits the cost_records columns
+ * Returns the reason it does not, or null, so importers can reject the line instead of failing the batch
+ */
+export const checkCostRecordLimits = (record: CostRecordCreationAttributes): string | null => {
+  const tooLong = LIMITED_STRING_FIELDS.find((field) => String(record[field] ?? '').length > MAX_STRING_LENGTH);
+  if (tooLong) {
+    return `${tooLong} is longer than ${MAX_STRING_LENGTH} characters`;
+  }
+  if (!isCostAmountInRange(Number(record.costAmount))) {
+    return `Cost amount ${record.costAmount} is outside the supported range of ±${MAX_COST_AMOUNT}`;
+  }
+  return null;
+};
+
+// Currency of records imported without one, as in the cost_records column default
+const DEFAULT_CURRENCY = 'USD';
+
+export interface MergedCostRecord {
+  lines: number[];
+  record: CostRecordCreationAttributes;
+}
+
+/**
+ * Fill in the optional natural key columns, which are stored as '' rather than NULL
+ */
+const normalizeRecord = (record: CostRecordCreationAttributes): CostRecordCreationAttributes => ({
+  ...record,
+  resourceId: record.resourceId || '',
+  usageType: record.usageType || '',
+  tags: record.tags ?? {},
+});
+
+/**
+ * Build the natural key string for a cost record
+ */
+export const getNaturalKey = (record: CostRecordCreationAttributes): string => [
+  record.provider ?? 'aws',
+  toDateString(record.date),
+  record.accountId,
+  record.serviceName,
+  record.region,
+  record.resourceId || '',
+  record.usageType || '',
+].join('|');
+
+/**
+ * Merge rows sharing a natural key by summing their cost
+ * Billing exports contain one line item per hour, so a single file usually
+ * holds many rows for the same day and resource. A row in another currency than
+ * the first row of its record is rejected rather than added to the sum.
+ */
+export const mergeByNaturalKey = (
+  rows: Array<{ line: number; record: CostRecordCreationAttributes }>,
+): { merged: MergedCostRecord[]; rejected: ImportRowError[] } => {
+  const merged = new Map<string, MergedCostRecord>();
+  const rejected: ImportRowError[] = [];
+
+  rows.forEach(({ line, record }) => {
+    const key = getNaturalKey(record);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { lines: [line], record: { ...record } });
+      return;
+    }
+
+    const currency = record.currency ?? DEFAULT_CURRENCY;
+    const existingCurrency = existing.record.currency ?? DEFAULT_CURRENCY;
+    if (currency !== existingCurrency) {
+      rejected.push({ line, reason: `Currency ${currency} differs from ${existingCurrency} on line ${existing.lines[0]} for the same record` });
+      return;
+    }
+
+    existing.lines.push(line);
+    existing.record.costAmount = Number(existing.record.costAmount) + Number(record.costAmount);
+  });
+
+  return { merged: Array.from(merged.values()), rejected };
+};
+
+/**
+ * Whether an upserted record was inserted rather than updated
+ * Updates only refresh updated_at, so an existing record keeps its older created_at
+ */
+export const wasInserted = (costRecord: CostRecord): boolean => costRecord.createdAt.getTime() === costRecord.updatedAt.getTime();
+
+/**
+ * Insert cost records, updating the cost, currency and tags of any record whose natural key already exists
+ * Records passed in a single call must have distinct natural keys
+ */
+export const upsertCostRecords = async (
+  records: CostRecordCreationAttributes[],
+  transaction: Transaction | null = null,
+): Promise<CostRecord[]> => CostRecord.bulkCreate(records.map(normalizeRecord), {
+  transaction,
+  validate: true,
+  returning: true,
+  conflictAttributes: COST_RECORD_NATURAL_KEY,
+  updateOnDuplicate: ['costAmount', 'currency', 'tags', 'updatedAt'],
+});
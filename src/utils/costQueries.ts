@@ -0,0 +1,500 @@
+import {
+  Op, fn, col, cast, QueryTypes,
+} from 'sequelize';
+import sequelize from '../config/database';
+import CostRecord from '../models/CostRecord';
+import {
+  CloudProvider,
+  CLOUD_PROVIDERS,
+  FilterQuery,
+  AggregateDimension,
+  CostAggregateGroup,
+  CostSummaryItem,
+  ProviderCostSummaryItem,
+  CostTrendItem,
+  CostTrendBucketItem,
+  CompareDimension,
+  CostDimension,
+  CostDimensionAttribute,
+  DimensionCostItem,
+  DailyServiceCostItem,
+  DailyDimensionCostItem,
+  TagCostSummaryItem,
+  TrendGranularity,
+} from '../types';
+import { scopeAccountFilter } from './accountAccess';
+import { buildTagCondition, getTagKey } from './costTags';
+import { costAmountColumn } from './exchangeRates';
+import { ValidationError } from './errors';
+import { toDateString } from './dates';
+
+/**
+ * Cost record attribute behind each groupable dimension
+ */
+export const COST_DIMENSION_ATTRIBUTES: Record<CostDimension, CostDimensionAttribute> = {
+  provider: 'provider',
+  service: 'serviceName',
+  account: 'accountId',
+  region: 'region',
+};
+
+/**
+ * Dimensions available to period comparisons, which can also break costs down by usage type
+ */
+export const COMPARE_DIMENSION_ATTRIBUTES: Record<CompareDimension, CostDimensionAttribute> = {
+  ...COST_DIMENSION_ATTRIBUTES,
+  usageType: 'usageType',
+};
+
+/**
+ * Build the where clause shared by all cost queries
+ * Supports date range, provider, service, region, account and tag filters (multi-value where applicable),
+ * restricted to the accounts the caller is allowed to see
+ * Throws ValidationError for unknown providers or malformed tag filters
+ */
+export const buildCostWhereClause = (
+  filters: FilterQuery,
+  allowedAccountIds: string[],
+): Record<string, unknown> => {
+  const {
+    startDate, endDate, provider, serviceName, region, accountId, tag,
+  } = filters;
+  const whereClause: Record<string, unknown> = {};
+
+  // Build date filter
+  if (startDate && endDate) {
+    whereClause['date'] = {
+      [Op.between]: [startDate, endDate],
+    };
+  } else if (startDate) {
+    whereClause['date'] = {
+      [Op.gte]: startDate,
+    };
+  } else if (endDate) {
+    whereClause['date'] = {
+      [Op.lte]: endDate,
+    };
+  }
+
+  // Add provider filter - support multiple values
+  if (provider) {
+    const providers = Array.isArray(provider) ? provider : [provider];
+    if (providers.some((value) => !CLOUD_PROVIDERS.includes(value as CloudProvider))) {
+      throw new ValidationError(`provider must be one of: ${CLOUD_PROVIDERS.join(', ')}`);
+    }
+
+    if (Array.isArray(provider)) {
+      whereClause['provider'] = {
+        [Op.in]: provider,
+      };
+    } else {
+      whereClause['provider'] = provider;
+    }
+  }
+
+  // Add service filter - support multiple values
+  if (serviceName) {
+    if (Array.isArray(serviceName)) {
+      whereClause['serviceName'] = {
+        [Op.in]: serviceName,
+      };
+    } else {
+      whereClause['serviceName'] = serviceName;
+    }
+  }
+
+  // Add region filter - support multiple values
+  if (region) {
+    if (Array.isArray(region)) {
+      whereClause['region'] = {
+        [Op.in]: region,
+      };
+    } else {
+      whereClause['region'] = region;
+    }
+  }
+
+  // Add account filter - support multiple values, limited to the caller's accounts
+  whereClause['accountId'] = scopeAccountFilter(accountId, allowedAccountIds);
+
+  // Add tag filters - tag[team]=payments, all keys must match
+  const tagCondition = buildTagCondition(tag);
+  if (tagCondition) {
+    whereClause['tags'] = tagCondition;
+  }
+
+  return whereClause;
+};
+
+/**
+ * Total cost and record count per service, most expensive first
+ * Amounts are converted to `currency` when one is given
+ */
+export const fetchCostSummaryByService = async (
+  whereClause: Record<string, unknown>,
+  currency: string | null = null,
+): Promise<CostSummaryItem[]> => {
+  const amount = costAmountColumn(currency);
+  const summary = await CostRecord.findAll({
+    where: whereClause,
+    attributes: [
+      'serviceName',
+      [fn('SUM', amount), 'totalCost'],
+      [fn('COUNT', col('id')), 'recordCount'],
+    ],
+    group: ['serviceName'],
+    order: [[fn('SUM', amount), 'DESC']],
+  });
+
+  return summary.map((item) => {
+    const dataValues = item.dataValues as unknown as Record<string, unknown>;
+    return {
+      serviceName: dataValues['serviceName'] as string,
+      totalCost: parseFloat(dataValues['totalCost'] as string || '0'),
+      recordCount: parseInt(dataValues['recordCount'] as string || '0', 10),
+    };
+  });
+};
+
+/**
+ * Total cost and record count per cloud provider, most expensive first
+ * Amounts are converted to `currency` when one is given
+ */
+export const fetchCostSummaryByProvider = async (
+  whereClause: Record<string, unknown>,
+  currency: string | null = null,
+): Promise<ProviderCostSummaryItem[]> => {
+  const amount = costAmountColumn(currency);
+  const summary = await CostRecord.findAll({
+    where: whereClause,
+    attributes: [
+      'provider',
+      [fn('SUM', amount), 'totalCost'],
+      [fn('COUNT', col('id')), 'recordCount'],
+    ],
+    group: ['provider'],
+    order: [[fn('SUM', amount), 'DESC']],
+  });
+
+  return summary.map((item) => {
+    const dataValues = item.dataValues as unknown as Record<string, unknown>;
+    return {
+      provider: item.provider,
+      totalCost: parseFloat(dataValues['totalCost'] as string || '0'),
+      recordCount: parseInt(dataValues['recordCount'] as string || '0', 10),
+    };
+  });
+};
+
+/**
+ * Total cost per value of a dimension column, most expensive first
+ * Amounts are converted to `currency` when one is given
+ */
+export const fetchCostByDimension = async (
+  whereClause: Record<string, unknown>,
+  attribute: CostDimensionAttribute,
+  currency: string | null = null,
+): Promise<DimensionCostItem[]> => {
+  const amount = costAmountColumn(currency);
+  const rows = await CostRecord.findAll({
+    where: whereClause,
+    attributes: [
+      attribute,
+      [fn('SUM', amount), 'totalCost'],
+    ],
+    group: [attribute],
+    order: [[fn('SUM', amount), 'DESC']],
+  });
+
+  return rows.map((item) => {
+    const dataValues = item.dataValues as unknown as Record<string, unknown>;
+    return {
+      dimensionValue: dataValues[attribute] as string,
+      totalCost: parseFloat(dataValues['totalCost'] as string || '0'),
+    };
+  });
+};
+
+/**
+ * Total cost and record count per value of a tag, most expensive first
+ * Records without the tag are grouped under a null value
+ * Amounts are converted to `currency` when one is given
+ */
+export const fetchCostSummaryByTag = async (
+  whereClause: Record<string, unknown>,
+  tagKey: string,
+  currency: string | null = null,
+): Promise<TagCostSummaryItem[]> => {
+  const amount = costAmountColumn(currency);
+  const tagValue = fn('jsonb_extract_path_text', col('tags'), tagKey);
+
+  const summary = await CostRecord.findAll({
+    where: whereClause,
+    attributes: [
+      [tagValue, 'tagValue'],
+      [fn('SUM', amount), 'totalCost'],
+      [fn('COUNT', col('id')), 'recordCount'],
+    ],
+    group: [tagValue],
+    order: [[fn('SUM', amount), 'DESC']],
+  });
+
+  return summary.map((item) => {
+    const dataValues = item.dataValues as unknown as Record<string, unknown>;
+    return {
+      tagKey,
+      tagValue: (dataValues['tagValue'] as string | null) ?? null,
+      totalCost: parseFloat(dataValues['totalCost'] as string || '0'),
+      recordCount: parseInt(dataValues['recordCount'] as string || '0', 10),
+    };
+  });
+};
+
+/**
+ * Distinct tag keys and their values across the given accounts
+ */
+export const fetchAvailableTags = async (allowedAccountIds: string[]): Promise<Record<string, string[]>> => {
+  if (allowedAccountIds.length === 0) {
+    return {};
+  }
+
+  const rows = await sequelize.query<{ key: string; value: string }>(
+    `SELECT DISTINCT tag.key, tag.value
+     FROM cost_records, jsonb_each_text(cost_records.tags) AS tag
+     WHERE cost_records.account_id IN (:accountIds)
+     ORDER BY tag.key, tag.value`,
+    { replacements: { accountIds: allowedAccountIds }, type: QueryTypes.SELECT },
+  );
+
+  const tags: Record<string, string[]> = {};
+  rows.forEach(({ key, value }) => {
+    tags[key] = [...(tags[key] ?? []), value];
+  });
+  return tags;
+};
+
+/**
+ * Total cost per day, oldest first
+ * Amounts are converted to `currency` when one is given
+ */
+export const fetchDailyCostTrends = async (
+  whereClause: Record<string, unknown>,
+  currency: string | null = null,
+): Promise<CostTrendItem[]> => {
+  const amount = costAmountColumn(currency);
+  const trends = await CostRecord.findAll({
+    where: whereClause,
+    attributes: [
+      'date',
+      [fn('SUM', amount), 'dailyCost'],
+    ],
+    group: ['date'],
+    order: [['date', 'ASC']],
+  });
+
+  return trends.map((item) => {
+    const dataValues = item.dataValues as unknown as Record<string, unknown>;
+    return {
+      date: new Date(dataValues['date'] as string),
+      dailyCost: parseFloat(dataValues['dailyCost'] as string || '0'),
+    };
+  });
+};
+
+/**
+ * Total cost per period, optionally split by a dimension, oldest first
+ * Periods are truncated with date_trunc; weeks start on Monday (ISO weeks)
+ * and each period is reported as its first day
+ * Amounts are converted to `currency` when one is given
+ */
+export const fetchCostTrendBuckets = async (
+  whereClause: Record<string, unknown>,
+  granularity: TrendGranularity,
+  attribute: CostDimensionAttribute | null = null,
+  currency: string | null = null,
+): Promise<CostTrendBucketItem[]> => {
+  const amount = costAmountColumn(currency);
+  // Truncate as a plain timestamp so the session timezone cannot shift period boundaries
+  const truncated = fn('date_trunc', granularity, cast(col('date'), 'timestamp'));
+
+  const rows = await CostRecord.findAll({
+    where: whereClause,
+    attributes: [
+      [cast(truncated, 'date'), 'period'],
+      ...(attribute ? [attribute] : []),
+      [fn('SUM', amount), 'totalCost'],
+    ],
+    group: attribute ? [truncated, attribute] : [truncated],
+    order: attribute ? [[truncated, 'ASC'], [attribute, 'ASC']] : [[truncated, 'ASC']],
+  });
+
+  return rows.map((item) => {
+    const dataValues = item.dataValues as unknown as Record<string, unknown>;
+    return {
+      period: toDateString(dataValues['period'] as string),
+      group: attribute ? dataValues[attribute] as string : null,
+      cost: parseFloat(dataValues['totalCost'] as string || '0'),
+    };
+  });
+};
+
+/**
+ * Sum, count, min and max cost for every combination of the given dimensions, converted to `currency`
+ * The 'date' dimension is bucketed by `granularity` and reported as the first day of each period;
+ * `tag:<key>` dimensions group by tag value, with untagged records under null
+ */
+export const fetchCostAggregateGroups = async (
+  whereClause: Record<string, unknown>,
+  dimensions: AggregateDimension[],
+  currency: string,
+  granularity: TrendGranularity = 'day',
+): Promise<CostAggregateGroup[]> => {
+  const amount = costAmountColumn(currency);
+  const truncated = fn('date_trunc', granularity, cast(col('date'), 'timestamp'));
+
+  // Expression to group by for each dimension; plain attributes group by name
+  const groupExpressions = dimensions.map((dimension) => {
+    const tagKey = getTagKey(dimension);
+    if (tagKey) {
+      return fn('jsonb_extract_path_text', col('tags'), tagKey);
+    }
+    return dimension === 'date' ? truncated : dimension;
+  });
+
+  const rows = await CostRecord.findAll({
+    where: whereClause,
+    attributes: [
+      ...dimensions.map((dimension, index) => {
+        const expression = groupExpressions[index]!;
+        if (dimension === 'date') {
+          return [cast(truncated, 'date'), 'date'] as [ReturnType<typeof cast>, string];
+        }
+        return typeof expression === 'string' ? expression : [expression, dimension] as [typeof expression, string];
+      }),
+      [fn('SUM', amount), 'sum'],
+      [fn('COUNT', col('id')), 'count'],
+      [fn('MIN', amount), 'min'],
+      [fn('MAX', amount), 'max'],
+    ],
+    group: groupExpressions,
+  });
+
+  return rows.map((item) => {
+    const dataValues = item.dataValues as unknown as Record<string, unknown>;
+    const groupValues: Partial<Record<AggregateDimension, string | null>> = {};
+    dimensions.forEach((dimension) => {
+      groupValues[dimension] = dimension === 'date'
+        ? toDateString(dataValues['date'] as string)
+        : (dataValues[dimension] as string | null) ?? null;
+    });
+
+    return {
+      dimensions: groupValues,
+      sum: parseFloat(dataValues['sum'] as string || '0'),
+      count: parseInt(dataValues['count'] as string || '0', 10),
+      min: parseFloat(dataValues['min'] as string || '0'),
+      max: parseFloat(dataValues['max'] as string || '0'),
+    };
+  });
+};
+
+/**
+ * Total cost per day and service converted to `currency`, oldest first
+ */
+export const fetchDailyCostByService = async (
+  whereClause: Record<string, unknown>,
+  currency: string,
+): Promise<DailyServiceCostItem[]> => {
+  const rows = await CostRecord.findAll({
+    where: whereClause,
+    attributes: [
+      'date',
+      'serviceName',
+      [fn('SUM', costAmountColumn(currency)), 'dailyCost'],
+    ],
+    group: ['date', 'serviceName'],
+    order: [['date', 'ASC'], ['serviceName', 'ASC']],
+  });
+
+  return rows.map((item) => {
+    const dataValues = item.dataValues as unknown as Record<string, unknown>;
+    return {
+      date: toDateString(dataValues['date'] as string),
+      serviceName: dataValues['serviceName'] as string,
+      dailyCost: parseFloat(dataValues['dailyCost'] as string || '0'),
+    };
+  });
+};
+
+/**
+ * Total cost per day for each value of a dimension column converted to `currency`, oldest first
+ */
+export const fetchDailyCostByDimension = async (
+  whereClause: Record<string, unknown>,
+  attribute: CostDimensionAttribute,
+  currency: string,
+): Promise<DailyDimensionCostItem[]> => {
+  const rows = await CostRecord.findAll({
+    where: whereClause,
+    attributes: [
+      'date',
+      attribute,
+      [fn('SUM', costAmountColumn(currency)), 'dailyCost'],
+    ],
+    group: ['date', attribute],
+    order: [['date', 'ASC'], [attribute, 'ASC']],
+  });
+
+  return rows.map((item) => {
+    const dataValues = item.dataValues as unknown as Record<string, unknown>;
+    return {
+      date: toDateString(dataValues['date'] as string),
+      dimensionValue: dataValues[attribute] as string,
+      dailyCost: parseFloat(dataValues['dailyCost'] as string || '0'),
+    };
+  });
+};
+
+/**
+ * Visit all matching cost records in batches, ordered by date then id
+ * Uses keyset pagination so large exports never hold the full result in memory;
+ * a rejected `onBatch` stops the walk, e.g. when the export client disconnects
+ */
+export const forEachCostRecordBatch = async (
+  whereClause: Record<string, unknown>,
+  onBatch: (batch: CostRecord[]) => Promise<void>,
+  batchSize: number = 1000,
+): Promise<void> => {
+  // Returns the last record of a full batch, so only the keyset outlives each step
+  const visitBatch = async (last: CostRecord | undefined): Promise<CostRecord | undefined> => {
+    const keyset = last
+      ? {
+        [Op.or]: [
+          { date: { [Op.gt]: last.date } },
+          { date: last.date, id: { [Op.gt]: last.id } },
+        ],
+      }
+      : {};
+
+    const batch = await CostRecord.findAll({
+      where: { [Op.and]: [whereClause, keyset] },
+      order: [['date', 'ASC'], ['id', 'ASC']],
+      limit: batchSize,
+    });
+
+    if (batch.length > 0) {
+      await onBatch(batch);
+    }
+
+    return batch.length === batchSize ? batch[batch.length - 1] : undefined;
+  };
+
+  const visitFrom = async (last: CostRecord | undefined): Promise<void> => {
+    const next = await visitBatch(last);
+    if (next) {
+      await visitFrom(next);
+    }
+  };
+
+  await visitFrom(undefined);
+};
@@ -0,0 +1,188 @@
+import {
+  CostReport,
+  FilterQuery,
+  NotificationMessage,
+  ReportFormat,
+} from '../types';
+import { getAccessibleAccountIds } from './accountAccess';
+import { buildCostComparison, getBaselineRange } from './costComparison';
+import {
+  buildCostWhereClause,
+  fetchCostByDimension,
+  fetchCostSummaryByService,
+  fetchDailyCostTrends,
+} from './costQueries';
+import { assertExchangeRatesAvailable, getReportingCurrency } from './exchangeRates';
+import { toCsv } from './exportFormat';
+import { toDateString } from './dates';
+
+const TOP_MOVERS_LIMIT = 5;
+
+/**
+ * Services listed in the message body; the CSV attachment always has all of them
+ */
+const SUMMARY_SERVICE_LIMIT = 10;
+
+/**
+ * Compute the report for a user's cost query: spend by service, the services whose
+ * spend changed most against the previous period of equal length, and the daily trend
+ * `query` must have a startDate and endDate; costs are limited to the user's accounts
+ * and converted to the query's currency, or the reporting currency when it has none
+ */
+export const buildCostReport = async (userId: number, query: FilterQuery & { startDate: string; endDate: string }): Promise<CostReport> => {
+  const allowedAccountIds = await getAccessibleAccountIds(userId);
+  const currency = query.currency ?? getReportingCurrency();
+  const baselineRange = getBaselineRange(query.startDate, query.endDate, 'previous_period');
+
+  const whereClause = buildCostWhereClause(query, allowedAccountIds);
+  const baselineWhereClause = buildCostWhereClause({ ...query, ...baselineRange }, allowedAccountIds);
+  await assertExchangeRatesAvailable(whereClause, currency);
+  await assertExchangeRatesAvailable(baselineWhereClause, currency);
+
+  const [services, baselineItems, dailyCosts] = await Promise.all([
+    fetchCostSummaryByService(whereClause, currency),
+    fetchCostByDimension(baselineWhereClause, 'serviceName', currency),
+    fetchDailyCostTrends(whereClause, currency),
+  ]);
+
+  const comparison = buildCostComparison(
+    'service',
+    {
+      startDate: query.startDate,
+      endDate: query.endDate,
+      items: services.map((item) => ({ dimensionValue: item.serviceName, totalCost: item.totalCost })),
+    },
+    { ...baselineRange, items: baselineItems },
+  );
+
+  return {
+    current: comparison.current,
+    baseline: comparison.baseline,
+    currency,
+    change: comparison.change,
+    changePercent: comparison.changePercent,
+    services,
+    topMovers: comparison.items.filter((item) => item.change !== 0).slice(0, TOP_MOVERS_LIMIT),
+    dailyTrend: dailyCosts.map((item) => ({ date: toDateString(item.date), dailyCost: item.dailyCost })),
+  };
+};
+
+const formatAmount = (value: number, currency: string): string => `${value.toFixed(2)} ${currency}`;
+
+const formatChange = (change: number, changePercent: number | null, currency: string): string => {
+  const sign = change > 0 ? '+' : '';
+  const percent = changePercent === null ? '' : ` (${sign}${changePercent.toFixed(1)}%)`;
+  return `${sign}${formatAmount(change, currency)}${percent}`;
+};
+
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const renderText = (title: string, report: CostReport): string => {
+  const { currency } = report;
+  const lines = [
+    title,
+    `${report.current.startDate} to ${report.current.endDate}`,
+    '',
+    `Total spend: ${formatAmount(report.current.totalCost, currency)}`,
+    `Change vs ${report.baseline.startDate} to ${report.baseline.endDate}: ${formatChange(report.change, report.changePercent, currency)}`,
+    '',
+    'Spend by service:',
+    ...report.services.slice(0, SUMMARY_SERVICE_LIMIT).map((item) => `  ${item.serviceName}: ${formatAmount(item.totalCost, currency)}`),
+  ];
+
+  if (report.topMovers.length > 0) {
+    lines.push('', 'Top movers:');
+    report.topMovers.forEach((item) => {
+      lines.push(`  ${item.dimensionValue}: ${formatChange(item.change, item.changePercent, currency)}`);
+    });
+  }
+
+  return lines.join('\n');
+};
+
+const renderTable = (headers: string[], rows: string[][]): string => [
+  '<table cellpadding="6" cellspacing="0" border="1" style="border-collapse:collapse">',
+  `<tr>${headers.map((header) => `<th align="left">${escapeHtml(header)}</th>`).join('')}</tr>`,
+  ...rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`),
+  '</table>',
+].join('\n');
+
+const renderHtml = (title: string, report: CostReport): string => {
+  const { currency } = report;
+  const sections = [
+    `<h2>${escapeHtml(title)}</h2>`,
+    `<p>${report.current.startDate} to ${report.current.endDate}</p>`,
+    `<p><strong>Total spend:</strong> ${escapeHtml(formatAmount(report.current.totalCost, currency))}<br>`
+      + `<strong>Change vs ${report.baseline.startDate} to ${report.baseline.endDate}:</strong> `
+      + `${escapeHtml(formatChange(report.change, report.changePercent, currency))}</p>`,
+    '<h3>Spend by service</h3>',
+    renderTable(
+      ['Service', 'Cost', 'Records'],
+      report.services.slice(0, SUMMARY_SERVICE_LIMIT).map((item) => [item.serviceName, formatAmount(item.totalCost, currency), String(item.recordCount)]),
+    ),
+  ];
+
+  if (report.topMovers.length > 0) {
+    sections.push('<h3>Top movers</h3>', renderTable(
+      ['Service', 'Previous', 'Current', 'Change'],
+      report.topMovers.map((item) => [
+        item.dimensionValue,
+        formatAmount(item.baselineCost, currency),
+        formatAmount(item.currentCost, currency),
+        formatChange(item.change, item.changePercent, currency),
+      ]),
+    ));
+  }
+
+  sections.push('<h3>Daily spend</h3>', renderTable(
+    ['Date', 'Cost'],
+    report.dailyTrend.map((item) => [item.date, formatAmount(item.dailyCost, currency)]),
+  ));
+
+  return sections.join('\n');
+};
+
+/**
+ * Render a report as a notification message with a plain text summary
+ * The html format adds an HTML body; the csv format attaches the spend by service,
+ * top movers and daily trend as CSV files
+ */
+export const renderCostReport = (title: string, report: CostReport, format: ReportFormat): NotificationMessage => {
+  const { startDate, endDate } = report.current;
+  const message: NotificationMessage = {
+    subject: `[Cost Monitoring] ${title}: ${startDate} to ${endDate}`,
+    text: renderText(title, report),
+    data: { ...report },
+  };
+
+  if (format === 'html') {
+    message.html = renderHtml(title, report);
+  } else {
+    message.attachments = [
+      {
+        filename: `cost-by-service-${startDate}-${endDate}.csv`,
+        contentType: 'text/csv',
+        content: toCsv(['serviceName', 'totalCost', 'recordCount'], report.services.map((item) => ({ ...item }))),
+      },
+      {
+        filename: `top-movers-${startDate}-${endDate}.csv`,
+        contentType: 'text/csv',
+        content: toCsv(
+          ['serviceName', 'baselineCost', 'currentCost', 'change', 'changePercent'],
+          report.topMovers.map((item) => ({ ...item, serviceName: item.dimensionValue })),
+        ),
+      },
+      {
+        filename: `daily-costs-${startDate}-${endDate}.csv`,
+        contentType: 'text/csv',
+        content: toCsv(['date', 'dailyCost'], report.dailyTrend),
+      },
+    ];
+  }
+
+  return message;
+};
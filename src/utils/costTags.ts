@@ -0,0 +1,71 @@
+import { Op } from 'sequelize';
+import { ValidationError } from './errors';
+
+/**
+ * Prefix that turns a tag key into a groupable dimension, e.g. `tag:team`
+ */
+export const TAG_DIMENSION_PREFIX = 'tag:';
+
+const MAX_TAGS_PER_RECORD = 50;
+const MAX_TAG_VALUE_LENGTH = 256;
+
+/**
+ * Same character set and length as AWS cost allocation tag keys
+ */
+const TAG_KEY_PATTERN = /^[\p{L}\p{Z}\p{N}_.:/=+\-@]{1,128}$/u;
+
+export const isValidTagKey = (key: string): boolean => TAG_KEY_PATTERN.test(key);
+
+/**
+ * Check that a value is a valid tag map: string keys and values within AWS limits
+ */
+export const isTagMap = (value: unknown): value is Record<string, string> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+
+  const entries = Object.entries(value);
+  return entries.length <= MAX_TAGS_PER_RECORD && entries.every(([key, tagValue]) => isValidTagKey(key)
+    && typeof tagValue === 'string'
+    && tagValue.length <= MAX_TAG_VALUE_LENGTH);
+};
+
+/**
+ * Get the tag key of a `tag:<key>` dimension, or null for any other dimension
+ */
+export const getTagKey = (dimension: string): string | null => {
+  if (!dimension.startsWith(TAG_DIMENSION_PREFIX)) {
+    return null;
+  }
+
+  const key = dimension.substring(TAG_DIMENSION_PREFIX.length);
+  return isValidTagKey(key) ? key : null;
+};
+
+/**
+ * Build the `tags` where condition from `tag[key]=value` query filters
+ * Different keys must all match; several values for one key match any of them
+ * Throws ValidationError for malformed filters rather than ignoring them
+ */
+export const buildTagCondition = (tagFilters: unknown): Record<symbol, unknown> | null => {
+  if (tagFilters === undefined) {
+    return null;
+  }
+
+  if (typeof tagFilters !== 'object' || tagFilters === null || Array.isArray(tagFilters)) {
+    throw new ValidationError('Tag filters must be given as tag[key]=value');
+  }
+
+  const conditions = Object.entries(tagFilters).map(([key, value]) => {
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+    if (!isValidTagKey(key) || values.some((item) => typeof item !== 'string')) {
+      throw new ValidationError(`Invalid tag filter "${key}"`);
+    }
+
+    return {
+      [Op.or]: values.map((item) => ({ [Op.contains]: { [key]: item } })),
+    };
+  });
+
+  return conditions.length > 0 ? { [Op.and]: conditions } : null;
+};
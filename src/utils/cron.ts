@@ -0,0 +1,257 @@
+import { addDays } from './dates';
+
+interface CronFieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names accepted in place of numbers, starting at `min` */
+  names?: string[];
+}
+
+/**
+ * A parsed five-field cron expression, evaluated against wall-clock time in a time zone
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day of month and day of week fields were "*" */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const CRON_FIELDS: CronFieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  // 0 and 7 are both Sunday
+  {
+    name: 'day of week',
+    min: 0,
+    max: 7,
+    names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'],
+  },
+];
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/**
+ * Runs are searched this far ahead; expressions like "0 0 29 2 1" can be years apart
+ */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether `timeZone` is an IANA time zone name this runtime knows (e.g. "Europe/Berlin", "UTC")
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock time of an instant in `timeZone`, as a Date whose UTC fields hold the local fields
+ */
+const toWallClock = (instant: Date, timeZone: string): Date => {
+  let formatter = wallClockFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    wallClockFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(instant).forEach(({ type, value }) => {
+    parts[type] = parseInt(value, 10);
+  });
+  return new Date(Date.UTC(parts['year']!, parts['month']! - 1, parts['day']!, parts['hour']!, parts['minute']!));
+};
+
+/**
+ * Earliest instant showing the given wall-clock time in `timeZone`
+ * Returns null for times skipped by a daylight saving change; repeated times resolve to their first occurrence
+ */
+const fromWallClock = (wall: Date, timeZone: string): Date | null => {
+  // The offsets a day either side cover both sides of any transition near this time
+  const offsets = [wall.getTime() - MS_PER_DAY, wall.getTime() + MS_PER_DAY]
+    .map((time) => toWallClock(new Date(time), timeZone).getTime() - Math.floor(time / MS_PER_MINUTE) * MS_PER_MINUTE);
+
+  const candidates = Array.from(new Set(offsets))
+    .map((offset) => new Date(wall.getTime() - offset))
+    .filter((instant) => toWallClock(instant, timeZone).getTime() === wall.getTime())
+    .sort((a, b) => a.getTime() - b.getTime());
+  return candidates[0] ?? null;
+};
+
+const parseValue = (text: string, spec: CronFieldSpec): number | null => {
+  const nameIndex = spec.names ? spec.names.indexOf(text.toUpperCase()) : -1;
+  if (nameIndex >= 0) {
+    return spec.min + nameIndex;
+  }
+  if (!/^\d+$/.test(text)) {
+    return null;
+  }
+  const value = parseInt(text, 10);
+  return value >= spec.min && value <= spec.max ? value : null;
+};
+
+/**
+ * Parse one field: "*", values, ranges and steps, comma separated (e.g. "1-5", "0-59/15", "MON,WED")
+ * Returns the matching values or a reason the field is invalid
+ */
+const parseField = (text: string, spec: CronFieldSpec): Set<number> | string => {
+  const values = new Set<number>();
+  const parts = text.split(',');
+
+  for (let i = 0; i < parts.length; i += 1) {
+    const [range = '', stepText, ...rest] = parts[i]!.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (rest.length > 0 || (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1))) {
+      return `invalid step in ${spec.name} field "${text}"`;
+    }
+
+    let start: number | null;
+    let end: number | null;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else {
+      const [startText = '', endText, ...extra] = range.split('-');
+      start = parseValue(startText, spec);
+      if (endText !== undefined) {
+        end = extra.length > 0 ? null : parseValue(endText, spec);
+      } else {
+        // "5/15" means every 15 starting at 5
+        end = stepText === undefined ? start : spec.max;
+      }
+    }
+
+    if (start === null || end === null || start > end) {
+      return `invalid ${spec.name} field "${text}" (allowed ${spec.min}-${spec.max})`;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parse a standard five-field cron expression ("minute hour day-of-month month day-of-week")
+ * or one of the @daily / @weekly style macros
+ * Returns the schedule or a reason the expression is invalid
+ */
+export const parseCronExpression = (expression: string): CronSchedule | string => {
+  const trimmed = expression.trim();
+  const fields = (CRON_MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    return `expected ${CRON_FIELDS.length} fields (minute hour day-of-month month day-of-week), got ${fields.length}`;
+  }
+
+  const parsed: Array<Set<number>> = [];
+  for (let i = 0; i < CRON_FIELDS.length; i += 1) {
+    const values = parseField(fields[i]!, CRON_FIELDS[i]!);
+    if (typeof values === 'string') {
+      return values;
+    }
+    parsed.push(values);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2]!.startsWith('*'),
+    anyDayOfWeek: fields[4]!.startsWith('*'),
+  };
+};
+
+/**
+ * Like cron, a day matches either field when both day of month and day of week are restricted
+ */
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+};
+
+/**
+ * First minute strictly after `after` that the schedule fires at, matching wall-clock time in `timeZone`
+ * Runs that fall in an hour skipped by a daylight saving change do not happen, and runs in a
+ * repeated hour happen once. Returns null when the expression never fires (e.g. "0 0 31 2 *")
+ */
+export const getNextCronRun = (schedule: CronSchedule, after: Date, timeZone: string = 'UTC'): Date | null => {
+  // Search in wall-clock time, where the UTC fields of `next` are the local fields
+  const afterWall = toWallClock(after, timeZone);
+  let next = new Date(afterWall.getTime() + MS_PER_MINUTE);
+  const limit = addDays(afterWall, MAX_SEARCH_DAYS);
+
+  while (next <= limit) {
+    const year = next.getUTCFullYear();
+    const month = next.getUTCMonth();
+    const day = next.getUTCDate();
+    const hour = next.getUTCHours();
+
+    // Skip whole months, days and hours that cannot match
+    if (!schedule.months.has(month + 1)) {
+      next = new Date(Date.UTC(year, month + 1, 1));
+    } else if (!matchesDay(schedule, next)) {
+      next = new Date(Date.UTC(year, month, day + 1));
+    } else if (!schedule.hours.has(hour)) {
+      next = new Date(Date.UTC(year, month, day, hour + 1));
+    } else if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next = new Date(next.getTime() + MS_PER_MINUTE);
+    } else {
+      const instant = fromWallClock(next, timeZone);
+      if (instant && instant > after) {
+        return instant;
+      }
+      next = new Date(next.getTime() + MS_PER_MINUTE);
+    }
+  }
+
+  return null;
+};
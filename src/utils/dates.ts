@@ -0,0 +1,40 @@
+/**
+ * Date helpers for day-level cost data
+ * All calculations use UTC so DATEONLY values never shift with the server timezone
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+export const toDateString = (date: Date | string): string => new Date(date).toISOString().substring(0, 10);
+
+/**
+ * Parse a YYYY-MM-DD string as UTC midnight
+ */
+export const parseDateString = (value: string): Date => new Date(`${value.substring(0, 10)}T00:00:00.000Z`);
+
+/**
+ * Check that a value is a valid YYYY-MM-DD date
+ */
+export const isDateString = (value: unknown): value is string => typeof value === 'string'
+  && /^\d{4}-\d{2}-\d{2}$/.test(value)
+  && !Number.isNaN(parseDateString(value).getTime());
+
+export const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * MS_PER_DAY);
+
+/**
+ * Move a date by whole years, clamping to the end of the month (Feb 29 becomes Feb 28)
+ */
+export const addYears = (date: Date, years: number): Date => {
+  const year = date.getUTCFullYear() + years;
+  const month = date.getUTCMonth();
+  const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDayOfMonth)));
+};
+
+/**
+ * Number of days from start to end, counting both ends
+ */
+export const daysInclusive = (start: Date, end: Date): number => Math.round((end.getTime() - start.getTime()) / MS_PER_DAY) + 1;
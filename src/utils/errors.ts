@@ -52,6 +52,15 @@ export class ConflictError extends AppError {
   }
 }
 
+export class AccountLockedError extends AppError {
+  public lockedUntil: Date;
+
+  constructor(lockedUntil: Date, message: string = 'Account is temporarily locked after too many failed login attempts') {
+    super(message, 423);
+    this.lockedUntil = lockedUntil;
+  }
+}
+
 export class DatabaseError extends AppError {
   constructor(message: string = 'Database operation failed') {
     super(message, 500, false);
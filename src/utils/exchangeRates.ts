@@ -0,0 +1,159 @@
+import {
+  Op, fn, col, literal,
+} from 'sequelize';
+import sequelize from '../config/database';
+import CostRecord from '../models/CostRecord';
+import { ExchangeRateCreationAttributes, ImportRowError } from '../types';
+import { ValidationError } from './errors';
+import { isDateString, toDateString } from './dates';
+import { columnValue, readCsvEntries, resolveColumns } from './costImport';
+
+type RateField = 'date' | 'fromCurrency' | 'toCurrency' | 'rate';
+
+const RATE_COLUMN_ALIASES: Record<RateField, string[]> = {
+  date: ['date'],
+  fromCurrency: ['from', 'fromcurrency'],
+  toCurrency: ['to', 'tocurrency'],
+  rate: ['rate'],
+};
+
+export const isCurrencyCode = (value: unknown): value is string => typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+
+/**
+ * Currency that budgets, alert rules and aggregates are reported in unless a request asks for another,
+ * from REPORTING_CURRENCY (USD by default)
+ */
+export const getReportingCurrency = (): string => {
+  const currency = (process.env['REPORTING_CURRENCY'] || 'USD').toUpperCase();
+  return isCurrencyCode(currency) ? currency : 'USD';
+};
+
+/**
+ * Validate an optional `currency` query parameter, normalizing it to upper case
+ */
+export const parseCurrencyParam = (value: string | undefined): string | null => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+
+  const currency = value.toUpperCase();
+  if (!isCurrencyCode(currency)) {
+    throw new ValidationError('currency must be a three-letter ISO 4217 code');
+  }
+  return currency;
+};
+
+/**
+ * SQL for the rate converting a cost record's currency into `currency`, effective on the record's date
+ * Uses the latest rate on or before that date; a direct rate is preferred,
+ * otherwise the inverse of the opposite pair is used. NULL when no rate exists.
+ */
+const rateSql = (currency: string): string => {
+  const target = sequelize.escape(currency);
+  return `(CASE WHEN "CostRecord"."currency" = ${target} THEN 1 ELSE COALESCE(
+    (SELECT er.rate FROM exchange_rates er
+      WHERE er.from_currency = "CostRecord"."currency" AND er.to_currency = ${target} AND er.date <= "CostRecord"."date"
+      ORDER BY er.date DESC LIMIT 1),
+    (SELECT 1 / er.rate FROM exchange_rates er
+      WHERE er.from_currency = ${target} AND er.to_currency = "CostRecord"."currency" AND er.date <= "CostRecord"."date"
+      ORDER BY er.date DESC LIMIT 1)
+  ) END)`;
+};
+
+/**
+ * Cost amount expression for CostRecord queries, converted to `currency` when one is given
+ */
+export const costAmountColumn = (currency: string | null): ReturnType<typeof col> | ReturnType<typeof literal> => (currency
+  ? literal(`("CostRecord"."cost_amount" * ${rateSql(currency)})`)
+  : col('cost_amount'));
+
+/**
+ * Ensure every matching record can be converted to `currency`
+ * Throws ValidationError naming each currency without a rate and the earliest date it is needed for
+ */
+export const assertExchangeRatesAvailable = async (whereClause: Record<string, unknown>, currency: string): Promise<void> => {
+  const missing = await CostRecord.findAll({
+    where: { [Op.and]: [whereClause, literal(`${rateSql(currency)} IS NULL`)] },
+    attributes: ['currency', [fn('MIN', col('date')), 'firstDate']],
+    group: ['currency'],
+    raw: true,
+  });
+
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `Missing exchange rates to ${currency}`,
+      missing.map((item) => {
+        const row = item as unknown as Record<string, string>;
+        return {
+          field: 'currency',
+          message: `No ${row['currency']} to ${currency} rate on or before ${toDateString(row['firstDate']!)}`,
+        };
+      }),
+    );
+  }
+};
+
+/**
+ * Validate a single exchange rate, returning a rejection reason when it is unusable
+ */
+export const validateExchangeRate = (input: Record<string, unknown>): ExchangeRateCreationAttributes | string => {
+  const date = typeof input['date'] === 'string' ? input['date'].trim().substring(0, 10) : '';
+  const fromCurrency = typeof input['fromCurrency'] === 'string' ? input['fromCurrency'].trim().toUpperCase() : '';
+  const toCurrency = typeof input['toCurrency'] === 'string' ? input['toCurrency'].trim().toUpperCase() : '';
+  const rate = Number(input['rate']);
+
+  if (!isDateString(date)) {
+    return `Invalid date "${String(input['date'] ?? '')}"`;
+  }
+  if (!isCurrencyCode(fromCurrency) || !isCurrencyCode(toCurrency)) {
+    return 'Currencies must be three-letter ISO 4217 codes';
+  }
+  if (fromCurrency === toCurrency) {
+    return 'fromCurrency and toCurrency must differ';
+  }
+  if (input['rate'] === '' || !Number.isFinite(rate) || rate <= 0) {
+    return `Invalid rate "${String(input['rate'] ?? '')}"`;
+  }
+
+  return {
+    date, fromCurrency, toCurrency, rate,
+  };
+};
+
+/**
+ * Parse an exchange rate CSV with date, from, to and rate columns
+ * (fromCurrency/toCurrency are accepted as header aliases)
+ * Throws ValidationError when the file is not valid CSV or a column is missing
+ */
+export const parseExchangeRateCsv = async (content: Buffer | string): Promise<{
+  rates: Array<{ line: number; rate: ExchangeRateCreationAttributes }>;
+  rejected: ImportRowError[];
+  totalRows: number;
+}> => {
+  const entries = await readCsvEntries(content);
+  if (entries.length === 0) {
+    return { rates: [], rejected: [], totalRows: 0 };
+  }
+
+  const columns = resolveColumns(Object.keys(entries[0]!.record), RATE_COLUMN_ALIASES, ['date', 'fromCurrency', 'toCurrency', 'rate'], 'exchange rate');
+
+  const rates: Array<{ line: number; rate: ExchangeRateCreationAttributes }> = [];
+  const rejected: ImportRowError[] = [];
+
+  entries.forEach(({ record, info }) => {
+    const validated = validateExchangeRate({
+      date: columnValue(record, columns, 'date'),
+      fromCurrency: columnValue(record, columns, 'fromCurrency'),
+      toCurrency: columnValue(record, columns, 'toCurrency'),
+      rate: columnValue(record, columns, 'rate'),
+    });
+
+    if (typeof validated === 'string') {
+      rejected.push({ line: info.lines, reason: validated });
+    } else {
+      rates.push({ line: info.lines, rate: validated });
+    }
+  });
+
+  return { rates, rejected, totalRows: entries.length };
+};
@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import { ExportFormat } from '../types';
+import { ValidationError } from './errors';
+
+interface ExportFormatSpec {
+  contentType: string;
+  extension: string;
+}
+
+const EXPORT_FORMATS: Record<ExportFormat, ExportFormatSpec> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  excel: { contentType: 'application/vnd.ms-excel; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+};
+
+const FORMAT_ALIASES: Record<string, ExportFormat> = {
+  csv: 'csv',
+  excel: 'excel',
+  xlsx: 'excel',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+};
+
+const ACCEPT_TYPES: Record<string, ExportFormat> = {
+  'text/csv': 'csv',
+  'application/vnd.ms-excel': 'excel',
+  'application/x-ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+};
+
+/**
+ * Pick the export format from the `format` query parameter, falling back to the Accept header
+ * Defaults to CSV
+ */
+export const resolveExportFormat = (req: Pick<Request, 'accepts'>, format?: string): ExportFormat => {
+  if (format) {
+    const resolved = FORMAT_ALIASES[format.toLowerCase()];
+    if (!resolved) {
+      throw new ValidationError(`Unsupported export format "${format}". Use one of: ${Object.keys(FORMAT_ALIASES).join(', ')}`);
+    }
+    return resolved;
+  }
+
+  const accepted = req.accepts(Object.keys(ACCEPT_TYPES));
+  return (accepted && ACCEPT_TYPES[accepted]) || 'csv';
+};
+
+/**
+ * Render one CSV cell; text that a spreadsheet would evaluate as a formula is prefixed with a quote,
+ * since plain CSV files get opened in spreadsheet tools too
+ */
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    // Nested values such as tag maps are written as JSON
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  // Spreadsheets evaluate cells starting with these characters as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Render rows as a complete CSV document with a header row
+ */
+export const toCsv = (columns: string[], rows: Array<Record<string, unknown>>): string => [
+  columns.join(','),
+  ...rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(',')),
+].map((line) => `${line}\r\n`).join('');
+
+/**
+ * Raised when the client goes away before an export finishes, so callers can stop producing rows
+ */
+export class ExportAbortedError extends Error {
+  constructor(message: string = 'Export aborted: the client disconnected') {
+    super(message);
+    this.name = 'ExportAbortedError';
+  }
+}
+
+/**
+ * Streams rows to the response in the requested format
+ * CSV output always starts with a header row and escapes formulas; the excel flavour adds
+ * a UTF-8 BOM and CRLF line endings so the file opens cleanly in Excel
+ */
+export class ExportWriter {
+  private readonly format: ExportFormat;
+
+  private readonly columns: string[];
+
+  private readonly res: Response;
+
+  private started = false;
+
+  constructor(res: Response, format: ExportFormat, columns: string[], fileName: string) {
+    this.res = res;
+    this.format = format;
+    this.columns = columns;
+
+    const spec = EXPORT_FORMATS[format];
+    res.setHeader('Content-Type', spec.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.${spec.extension}"`);
+  }
+
+  /**
+   * Write a batch of rows, waiting for the socket to drain when the buffer is full
+   * Rejects with ExportAbortedError once the response is closed, so no more rows are produced
+   */
+  public async write(rows: Array<Record<string, unknown>>): Promise<void> {
+    if (this.res.destroyed || this.res.writableEnded) {
+      throw new ExportAbortedError();
+    }
+
+    let chunk = '';
+    if (!this.started) {
+      chunk += this.header();
+      this.started = true;
+    }
+    chunk += rows.map((row) => this.line(row)).join('');
+
+    if (chunk && !this.res.write(chunk)) {
+      await this.waitForDrain();
+    }
+  }
+
+  public end(): void {
+    if (!this.started) {
+      this.res.write(this.header());
+    }
+    this.res.end();
+  }
+
+  /**
+   * Wait for 'drain', or reject when the response closes or errors first
+   */
+  private waitForDrain(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const listeners = {
+        drain: (): void => {
+          listeners.detach();
+          resolve();
+        },
+        close: (): void => {
+          listeners.detach();
+          reject(new ExportAbortedError());
+        },
+        error: (error: Error): void => {
+          listeners.detach();
+          reject(new ExportAbortedError(`Export aborted: ${error.message}`));
+        },
+        detach: (): void => {
+          this.res.off('drain', listeners.drain);
+          this.res.off('close', listeners.close);
+          this.res.off('error', listeners.error);
+        },
+      };
+
+      this.res.on('drain', listeners.drain);
+      this.res.on('close', listeners.close);
+      this.res.on('error', listeners.error);
+    });
+  }
+
+  private get newline(): string {
+    return this.format === 'excel' ? '\r\n' : '\n';
+  }
+
+  private header(): string {
+    if (this.format === 'ndjson') {
+      return '';
+    }
+    const bom = this.format === 'excel' ? '\uFEFF' : '';
+    return `${bom}${this.columns.join(',')}${this.newline}`;
+  }
+
+  private line(row: Record<string, unknown>): string {
+    if (this.format === 'ndjson') {
+      return `${JSON.stringify(row)}\n`;
+    }
+    return `${this.columns.map((column) => escapeCsvValue(row[column])).join(',')}${this.newline}`;
+  }
+}
@@ -0,0 +1,251 @@
+import { CostRecordCreationAttributes } from '../types';
+import {
+  ParsedCostFile,
+  collectCostRows,
+  columnValue,
+  parseAmount,
+  readCsvEntries,
+  resolveColumns,
+} from './costImport';
+import { ValidationError } from './errors';
+import { isValidTagKey } from './costTags';
+import { checkCostRecordLimits } from './costIngestion';
+import { isCurrencyCode } from './exchangeRates';
+import { isDateString } from './dates';
+
+type GcpField = 'usageStartTime' | 'service' | 'sku' | 'projectId' | 'region' | 'resourceName' | 'cost' | 'currency' | 'credits' | 'labels';
+
+/**
+ * Accepted names per field of the BigQuery billing export, normalized to lowercase
+ * alphanumerics so nested JSON fields (service.description) and the flattened
+ * columns of a CSV query result (service_description) both match
+ */
+const GCP_COLUMN_ALIASES: Record<GcpField, string[]> = {
+  usageStartTime: ['usagestarttime'],
+  service: ['servicedescription', 'service'],
+  sku: ['skudescription', 'sku'],
+  projectId: ['projectid', 'project'],
+  region: ['locationregion', 'region', 'locationlocation', 'location'],
+  resourceName: ['resourcename', 'resourceglobalname'],
+  cost: ['cost'],
+  currency: ['currency'],
+  credits: ['credits', 'creditsamount', 'creditamount'],
+  labels: ['labels'],
+};
+
+const REQUIRED_FIELDS: GcpField[] = ['usageStartTime', 'service', 'projectId', 'cost'];
+
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Flatten a BigQuery export row one level deep, so { service: { description } }
+ * becomes "service.description"; repeated fields (labels, credits) stay as JSON
+ */
+const flattenRow = (row: Record<string, unknown>): Record<string, string> => {
+  const flat: Record<string, string> = {};
+  Object.entries(row).forEach(([key, value]) => {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      Object.entries(value).forEach(([nestedKey, nestedValue]) => {
+        flat[`${key}.${nestedKey}`] = toText(nestedValue);
+      });
+    } else {
+      flat[key] = toText(value);
+    }
+  });
+  return flat;
+};
+
+/**
+ * Read a JSON array or newline-delimited JSON export (the format BigQuery extracts to)
+ * Lines that are not JSON objects are kept as null so they can be reported
+ */
+const readJsonEntries = (content: string): Array<{ line: number; row: Record<string, string> | null }> => {
+  const toRow = (value: unknown): Record<string, string> | null => (typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? flattenRow(value as Record<string, unknown>)
+    : null);
+
+  if (content.trimStart().startsWith('[')) {
+    let items: unknown;
+    try {
+      items = JSON.parse(content);
+    } catch (error) {
+      throw new ValidationError(`Unable to parse JSON file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (!Array.isArray(items)) {
+      throw new ValidationError('JSON file must contain an array of billing rows');
+    }
+    return items.map((item, index) => ({ line: index + 1, row: toRow(item) }));
+  }
+
+  const entries: Array<{ line: number; row: Record<string, string> | null }> = [];
+  content.split(/\r?\n/).forEach((text, index) => {
+    if (text.trim() === '') {
+      return;
+    }
+    try {
+      entries.push({ line: index + 1, row: toRow(JSON.parse(text)) });
+    } catch {
+      entries.push({ line: index + 1, row: null });
+    }
+  });
+  return entries;
+};
+
+/**
+ * Total of the credits (discounts, free tier, committed use) applied to a row
+ * Given as the export's array of { name, amount } or as a single amount column
+ */
+const sumCredits = (value: string): number | null => {
+  if (value === '') {
+    return 0;
+  }
+
+  const amount = parseAmount(value);
+  if (amount !== null) {
+    return amount;
+  }
+
+  try {
+    const credits: unknown = JSON.parse(value);
+    if (!Array.isArray(credits)) {
+      return null;
+    }
+    return credits.reduce((total: number, credit: unknown) => {
+      const creditAmount = typeof credit === 'object' && credit !== null ? Number((credit as Record<string, unknown>)['amount']) : NaN;
+      return Number.isFinite(creditAmount) ? total + creditAmount : total;
+    }, 0);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * GCP labels are an array of { key, value }; a plain key/value map is also accepted
+ * Malformed label data is skipped rather than rejecting the row
+ */
+const parseLabels = (value: string): Record<string, string> => {
+  const tags: Record<string, string> = {};
+  if (!value) {
+    return tags;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    const entries: Array<[unknown, unknown]> = Array.isArray(parsed)
+      ? parsed.map((label: unknown) => {
+        const item = typeof label === 'object' && label !== null ? label as Record<string, unknown> : {};
+        return [item['key'], item['value']];
+      })
+      : Object.entries(typeof parsed === 'object' && parsed !== null ? parsed : {});
+
+    entries.forEach(([key, labelValue]) => {
+      if (typeof key === 'string' && isValidTagKey(key) && typeof labelValue === 'string' && labelValue !== '') {
+        tags[key] = labelValue;
+      }
+    });
+  } catch {
+    // Ignore unparseable labels
+  }
+
+  return tags;
+};
+
+/**
+ * Map a single billing export row onto cost record attributes
+ * Credits are netted into the cost; returns a rejection reason instead when the row is unusable
+ */
+const mapGcpRow = (
+  row: Record<string, string> | null,
+  columns: Partial<Record<GcpField, string>>,
+): CostRecordCreationAttributes | string => {
+  if (!row) {
+    return 'Invalid JSON billing row';
+  }
+  const value = (field: GcpField): string => columnValue(row, columns, field);
+
+  const usageStartTime = value('usageStartTime');
+  const date = usageStartTime.substring(0, 10);
+  if (!isDateString(date)) {
+    return `Invalid usage start time "${usageStartTime}"`;
+  }
+
+  const service = value('service');
+  if (!service) {
+    return 'Missing service description';
+  }
+
+  const accountId = value('projectId');
+  if (!accountId) {
+    return 'Missing project id';
+  }
+
+  const cost = parseAmount(value('cost'));
+  if (cost === null) {
+    return `Invalid cost "${value('cost')}"`;
+  }
+
+  const credits = sumCredits(value('credits'));
+  if (credits === null) {
+    return `Invalid credits "${value('credits')}"`;
+  }
+
+  const currency = value('currency').toUpperCase();
+  if (currency && !isCurrencyCode(currency)) {
+    return `Invalid currency code "${currency}"`;
+  }
+
+  const record: CostRecordCreationAttributes = {
+    provider: 'gcp',
+    date: new Date(date),
+    serviceName: service,
+    costAmount: cost + credits,
+    region: value('region') || 'global',
+    accountId,
+    tags: parseLabels(value('labels')),
+  };
+
+  if (currency) {
+    record.currency = currency;
+  }
+
+  const resourceId = value('resourceName');
+  if (resourceId) {
+    record.resourceId = resourceId;
+  }
+
+  const usageType = value('sku');
+  if (usageType) {
+    record.usageType = usageType;
+  }
+
+  return checkCostRecordLimits(record) ?? record;
+};
+
+/**
+ * Parse a GCP BigQuery billing export, as JSON (an array or newline-delimited)
+ * or as a CSV of the flattened export columns
+ * Valid rows are mapped onto cost record attributes; invalid rows are
+ * reported with their line number (or array position) and the reason they were rejected
+ */
+export const parseGcpBillingExport = async (content: Buffer | string): Promise<ParsedCostFile> => {
+  const text = content.toString().replace(/^\uFEFF/, '');
+  const start = text.trimStart();
+
+  const entries = start.startsWith('{') || start.startsWith('[')
+    ? readJsonEntries(text)
+    : (await readCsvEntries(text)).map(({ record, info }) => ({ line: info.lines, row: record as Record<string, string> | null }));
+  if (entries.length === 0) {
+    return { rows: [], rejected: [], totalRows: 0 };
+  }
+
+  const headers = new Set<string>();
+  entries.forEach(({ row }) => Object.keys(row ?? {}).forEach((key) => headers.add(key)));
+  const columns = resolveColumns(Array.from(headers), GCP_COLUMN_ALIASES, REQUIRED_FIELDS, 'BigQuery billing export');
+
+  return collectCostRows(entries, (row) => mapGcpRow(row, columns));
+};
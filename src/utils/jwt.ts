@@ -1,10 +1,25 @@
 import jwt from 'jsonwebtoken';
 import { Request } from 'express';
+import { UserRole } from '../types';
 
 export interface JWTPayload {
   userId: number;
   email: string;
+  role: UserRole;
   type: 'access' | 'refresh';
+  /** Login session the token belongs to; every refresh token of a session shares it */
+  sessionId: string;
+  /** Unique id of a refresh token, matching its persisted record */
+  jti?: string;
+}
+
+/**
+ * Proves a user passed the password step of a login with MFA enabled
+ * It is only accepted by the MFA verification endpoint, never as an access token
+ */
+export interface MfaChallengePayload {
+  userId: number;
+  type: 'mfa_challenge';
 }
 
 export interface TokenResponse {
@@ -13,14 +28,20 @@ export interface TokenResponse {
   expiresIn: number;
 }
 
+export interface IssuedTokens extends TokenResponse {
+  refreshTokenExpiresAt: Date;
+}
+
 /**
  * Generate access token
  */
-export const generateAccessToken = (userId: number, email: string): string => {
+export const generateAccessToken = (userId: number, email: string, role: UserRole, sessionId: string): string => {
   const payload: JWTPayload = {
     userId,
     email,
+    role,
     type: 'access',
+    sessionId,
   };
 
   return jwt.sign(payload, process.env['JWT_SECRET'] as string, {
@@ -30,12 +51,16 @@ export const generateAccessToken = (userId: number, email: string): string => {
 
 /**
  * Generate refresh token
+ * `jti` identifies the token so it can be rotated and revoked
  */
-export const generateRefreshToken = (userId: number, email: string): string => {
+export const generateRefreshToken = (userId: number, email: string, role: UserRole, sessionId: string, jti: string): string => {
   const payload: JWTPayload = {
     userId,
     email,
+    role,
     type: 'refresh',
+    sessionId,
+    jti,
   };
 
   return jwt.sign(payload, process.env['JWT_REFRESH_SECRET'] as string, {
@@ -44,19 +69,22 @@ export const generateRefreshToken = (userId: number, email: string): string => {
 };
 
 /**
- * Generate both access and refresh tokens
+ * Generate both access and refresh tokens for a session
  */
-export const generateTokens = (userId: number, email: string): TokenResponse => {
-  const accessToken = generateAccessToken(userId, email);
-  const refreshToken = generateRefreshToken(userId, email);
+export const generateTokens = (userId: number, email: string, role: UserRole, sessionId: string, jti: string): IssuedTokens => {
+  const accessToken = generateAccessToken(userId, email, role, sessionId);
+  const refreshToken = generateRefreshToken(userId, email, role, sessionId, jti);
 
   // Calculate expiration time in seconds
   const expiresIn = 30 * 60; // 30 minutes in seconds
 
+  const { exp } = jwt.decode(refreshToken) as jwt.JwtPayload;
+
   return {
     accessToken,
     refreshToken,
     expiresIn,
+    refreshTokenExpiresAt: new Date((exp as number) * 1000),
   };
 };
 
@@ -90,6 +118,35 @@ export const verifyRefreshToken = (token: string): JWTPayload => {
   }
 };
 
+/**
+ * Generate the short-lived token exchanged for real tokens once the MFA code is verified
+ */
+export const generateMfaChallengeToken = (userId: number): string => {
+  const payload: MfaChallengePayload = {
+    userId,
+    type: 'mfa_challenge',
+  };
+
+  return jwt.sign(payload, process.env['JWT_SECRET'] as string, {
+    expiresIn: process.env['MFA_CHALLENGE_EXPIRES_IN'] || '5m',
+  } as jwt.SignOptions);
+};
+
+/**
+ * Verify MFA challenge token
+ */
+export const verifyMfaChallengeToken = (token: string): MfaChallengePayload => {
+  try {
+    const decoded = jwt.verify(token, process.env['JWT_SECRET']!) as MfaChallengePayload;
+    if (decoded.type !== 'mfa_challenge') {
+      throw new Error('Invalid token type');
+    }
+    return decoded;
+  } catch (error) {
+    throw new Error('Invalid MFA challenge token');
+  }
+};
+
 /**
  * Extract token from request headers
  */
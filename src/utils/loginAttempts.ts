@@ -0,0 +1,95 @@
+import sequelize from '../config/database';
+import User from '../models/User';
+import { recordAuditEvent } from './auditLog';
+
+/**
+ * Failed logins allowed before the account is locked
+ */
+const getMaxFailedAttempts = (): number => parseInt(process.env['LOGIN_MAX_FAILED_ATTEMPTS'] || '5', 10);
+
+/**
+ * Lockout length after the given number of consecutive failures
+ * The first lockout lasts LOGIN_LOCKOUT_BASE_MINUTES and each further failure doubles it,
+ * up to LOGIN_LOCKOUT_MAX_MINUTES
+ */
+export const getLockoutDuration = (failedAttempts: number): number => {
+  const baseMs = parseFloat(process.env['LOGIN_LOCKOUT_BASE_MINUTES'] || '5') * 60 * 1000;
+  const maxMs = parseFloat(process.env['LOGIN_LOCKOUT_MAX_MINUTES'] || '1440') * 60 * 1000;
+  const exponent = Math.max(failedAttempts - getMaxFailedAttempts(), 0);
+  return Math.min(baseMs * 2 ** exponent, maxMs);
+};
+
+/**
+ * The time until which a user cannot log in, or null when they can
+ */
+export const getActiveLockout = (user: User, now: Date = new Date()): Date | null => (
+  user.lockedUntil && user.lockedUntil > now ? user.lockedUntil : null
+);
+
+/**
+ * Count a failed login and lock the account once the limit is reached
+ * Once locked, every further failure after the lockout ends locks it again for twice as long
+ * Returns the new lockout end, or null when the account is not locked
+ */
+export const recordFailedLogin = async (userId: number, ipAddress: string | null): Promise<Date | null> => sequelize.transaction(async (transaction) => {
+  // Lock the row so concurrent failures are all counted
+  const user = await User.findByPk(userId, { transaction, lock: transaction.LOCK.UPDATE });
+  if (!user) {
+    return null;
+  }
+
+  const now = new Date();
+  const failedLoginAttempts = user.failedLoginAttempts + 1;
+  if (failedLoginAttempts < getMaxFailedAttempts()) {
+    await user.update({ failedLoginAttempts }, { transaction });
+    return null;
+  }
+
+  const durationMs = getLockoutDuration(failedLoginAttempts);
+  const lockedUntil = new Date(now.getTime() + durationMs);
+  await user.update({ failedLoginAttempts, lockedUntil }, { transaction });
+  await recordAuditEvent({
+    action: 'account_locked',
+    userId: user.id,
+    ipAddress,
+    details: { failedLoginAttempts, lockedUntil: lockedUntil.toISOString(), durationMinutes: durationMs / 60000 },
+  }, transaction);
+
+  return lockedUntil;
+});
+
+/**
+ * Forget earlier failures after a successful login
+ */
+export const resetFailedLogins = async (user: User): Promise<void> => {
+  if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+    await user.update({ failedLoginAttempts: 0, lockedUntil: null });
+  }
+};
+
+/**
+ * Lift a lockout and forget earlier failures
+ * Returns whether the account was locked; only then is the unlock audited
+ */
+export const unlockAccount = async (
+  user: User,
+  context: { actorId: number | null; ipAddress: string | null; reason: string },
+): Promise<boolean> => {
+  const lockedUntil = getActiveLockout(user);
+  if (!lockedUntil) {
+    await resetFailedLogins(user);
+    return false;
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    await user.update({ failedLoginAttempts: 0, lockedUntil: null }, { transaction });
+    await recordAuditEvent({
+      action: 'account_unlocked',
+      userId: user.id,
+      actorId: context.actorId,
+      ipAddress: context.ipAddress,
+      details: { reason: context.reason, lockedUntil: lockedUntil.toISOString() },
+    }, transaction);
+  });
+  return true;
+};
@@ -0,0 +1,139 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { log } from './logger';
+
+export interface MailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: Array<{ filename: string; content: string; contentType: string }>;
+}
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+/**
+ * Delivers a fully addressed message
+ * Transports other than SMTP let development and tests run without a mail server
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<{ messageId: string }>;
+}
+
+/**
+ * SMTP transport configured from environment variables
+ */
+const createSmtpTransport = (): MailTransport => {
+  const host = process.env['SMTP_HOST'];
+  if (!host) {
+    throw new Error('SMTP is not configured (SMTP_HOST is missing)');
+  }
+
+  const user = process.env['SMTP_USER'];
+  const transporter: Transporter = nodemailer.createTransport({
+    host,
+    port: parseInt(process.env['SMTP_PORT'] || '587', 10),
+    secure: process.env['SMTP_SECURE'] === 'true',
+    ...(user ? { auth: { user, pass: process.env['SMTP_PASSWORD'] || '' } } : {}),
+  });
+
+  return {
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { messageId: info.messageId };
+    },
+  };
+};
+
+/**
+ * Writes every message as an .eml file to MAIL_FILE_DIR (default tmp/mail)
+ */
+const createFileTransport = (): MailTransport => {
+  const directory = path.resolve(process.env['MAIL_FILE_DIR'] || 'tmp/mail');
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      const file = path.join(directory, `${Date.now()}-${info.messageId.replace(/[^\w.-]/g, '')}.eml`);
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(file, info.message as Buffer);
+      log.info('Email written to file', { file });
+      return { messageId: info.messageId };
+    },
+  };
+};
+
+/**
+ * Logs every message instead of sending it
+ */
+const createConsoleTransport = (): MailTransport => ({
+  async send(message) {
+    const messageId = `<${Date.now()}.${Math.random().toString(36).substring(2)}@console>`;
+    log.info('Email (console transport)', {
+      messageId,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      attachments: message.attachments?.map((attachment) => attachment.filename),
+    });
+    return { messageId };
+  },
+});
+
+const TRANSPORT_FACTORIES: Record<MailTransportName, () => MailTransport> = {
+  smtp: createSmtpTransport,
+  file: createFileTransport,
+  console: createConsoleTransport,
+};
+
+let transport: MailTransport | null = null;
+
+/**
+ * Pick the transport from MAIL_TRANSPORT; without it, SMTP is used when SMTP_HOST is set
+ * and the console transport otherwise, except in production where SMTP is required
+ */
+const resolveTransportName = (): MailTransportName => {
+  const name = process.env['MAIL_TRANSPORT'];
+  if (name) {
+    if (!(name in TRANSPORT_FACTORIES)) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}". Use one of: ${Object.keys(TRANSPORT_FACTORIES).join(', ')}`);
+    }
+    return name as MailTransportName;
+  }
+  return process.env['SMTP_HOST'] || process.env['NODE_ENV'] === 'production' ? 'smtp' : 'console';
+};
+
+/**
+ * Lazily create the configured transport
+ */
+const getTransport = (): MailTransport => {
+  if (!transport) {
+    transport = TRANSPORT_FACTORIES[resolveTransportName()]();
+  }
+  return transport;
+};
+
+/**
+ * Replace the mail transport, e.g. with an in-memory one in tests
+ * Passing null goes back to the transport configured by the environment
+ */
+export const setMailTransport = (replacement: MailTransport | null): void => {
+  transport = replacement;
+};
+
+/**
+ * Send an email through the configured transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  const info = await getTransport().send({
+    from: process.env['SMTP_FROM'] || 'Cost Monitoring <no-reply@localhost>',
+    ...message,
+  });
+
+  log.info('Email sent successfully', {
+    messageId: info.messageId,
+    subject: message.subject,
+  });
+};
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import MfaRecoveryCode from '../models/MfaRecoveryCode';
+import User from '../models/User';
+import { recordAuditEvent } from './auditLog';
+import { verifyTotpCode } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Recovery codes are compared case-insensitively and without separators
+ */
+const hashRecoveryCode = (code: string): string => crypto
+  .createHash('sha256')
+  .update(code.replace(/[\s-]/g, '').toLowerCase())
+  .digest('hex');
+
+/**
+ * Replace a user's recovery codes with a new set and return them
+ * The codes are only ever shown this once
+ */
+export const generateRecoveryCodes = async (userId: number, transaction: Transaction): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.substring(0, 5)}-${hex.substring(5)}`;
+  });
+
+  await MfaRecoveryCode.destroy({ where: { userId }, transaction });
+  await MfaRecoveryCode.bulkCreate(
+    codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    { transaction },
+  );
+  return codes;
+};
+
+/**
+ * Number of recovery codes the user has not used yet
+ */
+export const countRemainingRecoveryCodes = async (userId: number): Promise<number> => MfaRecoveryCode.count({
+  where: { userId, usedAt: null },
+});
+
+/**
+ * Accept a TOTP code from the user's authenticator
+ * The accepted time step is stored atomically, so the same code cannot be used twice
+ */
+export const verifyUserTotp = async (user: User, code: string): Promise<boolean> => {
+  if (!user.mfaSecret) {
+    return false;
+  }
+
+  const step = verifyTotpCode(user.mfaSecret, code, user.mfaLastUsedStep);
+  if (step === null) {
+    return false;
+  }
+
+  const [updated] = await User.update(
+    { mfaLastUsedStep: step },
+    {
+      where: {
+        id: user.id,
+        [Op.or]: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { [Op.lt]: step } }],
+      },
+    },
+  );
+  if (updated === 0) {
+    return false;
+  }
+  user.set('mfaLastUsedStep', step);
+  return true;
+};
+
+/**
+ * Accept either a TOTP code or an unused recovery code
+ * Returns which kind of code matched, or null when neither did
+ */
+export const verifyMfaCode = async (user: User, code: string, ipAddress: string | null): Promise<'totp' | 'recovery_code' | null> => {
+  if (!user.mfaEnabledAt) {
+    return null;
+  }
+  if (await verifyUserTotp(user, code)) {
+    return 'totp';
+  }
+
+  const [used] = await MfaRecoveryCode.update(
+    { usedAt: new Date() },
+    { where: { userId: user.id, codeHash: hashRecoveryCode(code), usedAt: null } },
+  );
+  if (used === 0) {
+    return null;
+  }
+
+  await recordAuditEvent({
+    action: 'mfa_recovery_code_used',
+    userId: user.id,
+    actorId: user.id,
+    ipAddress,
+    details: { remainingRecoveryCodes: await countRemainingRecoveryCodes(user.id) },
+  });
+  return 'recovery_code';
+};
+
+/**
+ * Turn MFA off for a user and delete their recovery codes
+ */
+export const disableUserMfa = async (
+  user: User,
+  context: { actorId: number; ipAddress: string | null; reason: string },
+): Promise<void> => {
+  await sequelize.transaction(async (transaction) => {
+    await user.update({ mfaSecret: null, mfaEnabledAt: null, mfaLastUsedStep: null }, { transaction });
+    await MfaRecoveryCode.destroy({ where: { userId: user.id }, transaction });
+    await recordAuditEvent({
+      action: 'mfa_disabled',
+      userId: user.id,
+      actorId: context.actorId,
+      ipAddress: context.ipAddress,
+      details: { reason: context.reason },
+    }, transaction);
+  });
+};
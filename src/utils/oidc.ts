@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Op } from 'sequelize';
+import OidcLoginRequest from '../models/OidcLoginRequest';
+import { AuthenticationError } from './errors';
+import { log } from './logger';
+
+const OIDC_HTTP_TIMEOUT_MS = 10000;
+
+/**
+ * How long a user has to finish signing in at the identity provider
+ */
+const LOGIN_REQUEST_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Discovery documents are refetched after this long; signing keys are also refetched
+ * when a token names a key that is not cached
+ */
+const METADATA_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Only asymmetric signatures are accepted, so the client secret can never verify a token
+ */
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  redirectUri: string;
+  scopes: string;
+  groupsClaim: string;
+}
+
+/**
+ * Identity of a user as asserted by a verified ID token
+ */
+export interface OidcIdentity {
+  issuer: string;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  groups: string[];
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface SigningKey extends crypto.JsonWebKey {
+  kid?: string;
+}
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: SigningKey[]; fetchedAt: number }>();
+
+/**
+ * OIDC settings from the environment, or null when single sign-on is not configured
+ */
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env['OIDC_ISSUER'];
+  const clientId = process.env['OIDC_CLIENT_ID'];
+  const redirectUri = process.env['OIDC_REDIRECT_URI'];
+  if (!issuer || !clientId || !redirectUri) {
+    return null;
+  }
+
+  return {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret: process.env['OIDC_CLIENT_SECRET'] || null,
+    redirectUri,
+    scopes: process.env['OIDC_SCOPES'] || 'openid email profile',
+    groupsClaim: process.env['OIDC_GROUPS_CLAIM'] || 'groups',
+  };
+};
+
+const fetchJson = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(OIDC_HTTP_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${url} responded with status ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+/**
+ * The provider's endpoints from its discovery document
+ */
+const getProviderMetadata = async (config: OidcConfig): Promise<ProviderMetadata> => {
+  const cached = metadataCache.get(config.issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const metadata = await fetchJson<ProviderMetadata>(`${config.issuer}/.well-known/openid-configuration`);
+  if (metadata.issuer.replace(/\/+$/, '') !== config.issuer) {
+    throw new Error(`Discovery document is for issuer ${metadata.issuer}`);
+  }
+  metadataCache.set(config.issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+};
+
+/**
+ * The provider's public key for a key id, refetching the key set once if it is unknown
+ */
+const getSigningKey = async (jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> => {
+  const findKey = (keys: SigningKey[]): SigningKey | undefined => (
+    kid ? keys.find((key) => key.kid === kid) : keys.find((key) => key['use'] !== 'enc')
+  );
+
+  let cached = jwksCache.get(jwksUri);
+  let key = cached ? findKey(cached.keys) : undefined;
+  if (!key && (!cached || Date.now() - cached.fetchedAt > 60 * 1000)) {
+    const { keys } = await fetchJson<{ keys: SigningKey[] }>(jwksUri);
+    cached = { keys, fetchedAt: Date.now() };
+    jwksCache.set(jwksUri, cached);
+    key = findKey(keys);
+  }
+
+  if (!key) {
+    throw new Error(`No signing key ${kid ?? ''} in ${jwksUri}`);
+  }
+  return crypto.createPublicKey({ key, format: 'jwk' });
+};
+
+const randomToken = (bytes: number): string => crypto.randomBytes(bytes).toString('base64url');
+
+/**
+ * Start a login: remember a new state, nonce and PKCE verifier, and build the URL
+ * of the provider's login page
+ */
+export const createAuthorizationRequest = async (config: OidcConfig): Promise<{ authorizationUrl: string; state: string }> => {
+  const metadata = await getProviderMetadata(config);
+  const state = randomToken(32);
+  const nonce = randomToken(32);
+  const codeVerifier = randomToken(48);
+
+  await OidcLoginRequest.destroy({ where: { expiresAt: { [Op.lte]: new Date() } } });
+  await OidcLoginRequest.create({
+    state,
+    nonce,
+    codeVerifier,
+    expiresAt: new Date(Date.now() + LOGIN_REQUEST_TTL_MS),
+  });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', config.redirectUri);
+  url.searchParams.set('scope', config.scopes);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', crypto.createHash('sha256').update(codeVerifier).digest('base64url'));
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return { authorizationUrl: url.toString(), state };
+};
+
+/**
+ * Check an ID token's signature, issuer, audience, expiry and nonce, and read the identity from it
+ */
+const verifyIdToken = async (
+  idToken: string,
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  nonce: string,
+): Promise<OidcIdentity> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new Error('ID token is not a JWT');
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, decoded.header.kid);
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    issuer: metadata.issuer,
+    audience: config.clientId,
+    clockTolerance: 60,
+  }) as jwt.JwtPayload;
+
+  if (claims['nonce'] !== nonce) {
+    throw new Error('ID token nonce does not match');
+  }
+  if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims['azp'] !== config.clientId) {
+    throw new Error('ID token was issued to another client');
+  }
+  if (!claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  const groups = claims[config.groupsClaim];
+  let groupList: string[] = [];
+  if (Array.isArray(groups)) {
+    groupList = groups.filter((group): group is string => typeof group === 'string');
+  } else if (typeof groups === 'string') {
+    groupList = [groups];
+  }
+
+  return {
+    issuer: config.issuer,
+    subject: claims.sub,
+    email: typeof claims['email'] === 'string' ? claims['email'].trim() : null,
+    // Some providers send the flag as a string
+    emailVerified: claims['email_verified'] === true || claims['email_verified'] === 'true',
+    groups: groupList,
+  };
+};
+
+/**
+ * Finish a login: redeem the state, exchange the authorization code with the PKCE verifier
+ * and verify the returned ID token
+ * Throws AuthenticationError when the state is unknown or expired, or the provider rejects the login
+ */
+export const completeAuthorization = async (config: OidcConfig, code: string, state: string): Promise<OidcIdentity> => {
+  const loginRequest = await OidcLoginRequest.findOne({
+    where: { state, expiresAt: { [Op.gt]: new Date() } },
+  });
+  // Deleting the request is what makes a state single use
+  const redeemed = loginRequest ? await OidcLoginRequest.destroy({ where: { id: loginRequest.id } }) : 0;
+  if (!loginRequest || redeemed === 0) {
+    throw new AuthenticationError('Invalid or expired single sign-on state');
+  }
+
+  try {
+    const metadata = await getProviderMetadata(config);
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri,
+      code_verifier: loginRequest.codeVerifier,
+    });
+    if (config.clientSecret) {
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_id', config.clientId);
+    }
+
+    const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+      method: 'POST',
+      headers,
+      body: body.toString(),
+    });
+    if (!tokens.id_token) {
+      throw new Error('Token response has no id_token');
+    }
+
+    return await verifyIdToken(tokens.id_token, config, metadata, loginRequest.nonce);
+  } catch (error) {
+    log.warn('Single sign-on failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      issuer: config.issuer,
+    });
+    throw new AuthenticationError('Single sign-on failed');
+  }
+};
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import {
+  afterEach, beforeEach, describe, it, mock,
+} from 'node:test';
+import sequelize from '../config/database';
+import AuditLog from '../models/AuditLog';
+import User from '../models/User';
+import { ConflictError } from './errors';
+import { OidcIdentity } from './oidc';
+import { mapGroupsToRole, resolveOidcUser } from './oidcUsers';
+
+const identity: OidcIdentity = {
+  issuer: 'https://idp.example.com',
+  subject: 'victim-subject',
+  email: 'Victim@Example.com',
+  emailVerified: true,
+  groups: [],
+};
+
+/**
+ * A local account as found by email, with `update` recorded instead of saved
+ */
+const localUser = (emailVerifiedAt: Date | null) => {
+  const user = {
+    id: 7,
+    email: 'victim@example.com',
+    role: 'viewer',
+    emailVerifiedAt,
+    oidcIssuer: null,
+    oidcSubject: null,
+    update: mock.fn(async () => user),
+  };
+  return user;
+};
+
+describe('resolveOidcUser', () => {
+  beforeEach(() => {
+    mock.method(sequelize, 'transaction', async (callback: (transaction: unknown) => Promise<unknown>) => callback({ LOCK: { UPDATE: 'UPDATE' } }));
+    mock.method(AuditLog, 'create', async () => ({}));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('refuses to link a local account whose email was never verified', async () => {
+    const user = localUser(null);
+    mock.method(User, 'findOne', async (options: { where: Record<string, unknown> }) => ('oidcSubject' in options.where ? null : user));
+
+    await assert.rejects(resolveOidcUser(identity, '203.0.113.9'), ConflictError);
+    assert.equal(user.update.mock.callCount(), 0);
+    assert.equal(user.emailVerifiedAt, null);
+  });
+
+  it('links a local account whose email was verified', async () => {
+    const user = localUser(new Date('2025-07-01T00:00:00Z'));
+    mock.method(User, 'findOne', async (options: { where: Record<string, unknown> }) => ('oidcSubject' in options.where ? null : user));
+
+    const resolved = await resolveOidcUser(identity, '203.0.113.9');
+
+    assert.equal(resolved, user);
+    assert.deepEqual(user.update.mock.calls[0]?.arguments[0], { oidcIssuer: identity.issuer, oidcSubject: identity.subject });
+  });
+});
+
+describe('mapGroupsToRole', () => {
+  afterEach(() => {
+    delete process.env['OIDC_ROLE_MAPPING'];
+  });
+
+  it('returns the highest mapped role of the groups', () => {
+    process.env['OIDC_ROLE_MAPPING'] = 'finance:editor,cost-admins:admin';
+    assert.equal(mapGroupsToRole(['finance', 'cost-admins']), 'admin');
+  });
+
+  it('returns undefined when no group matches, so the current role is kept', () => {
+    process.env['OIDC_ROLE_MAPPING'] = 'finance:editor';
+    assert.equal(mapGroupsToRole(['engineering']), undefined);
+  });
+});
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import { Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import AccountMembership from '../models/AccountMembership';
+import User from '../models/User';
+import { AccountAccessLevel, UserRole, USER_ROLES } from '../types';
+import { recordAuditEvent } from './auditLog';
+import { AuthorizationError, ConflictError } from './errors';
+import { log } from './logger';
+import { OidcIdentity } from './oidc';
+
+/**
+ * Parse a comma-separated list of `group:value` pairs; the group is everything before the first colon
+ */
+const parseGroupMapping = (value: string | undefined): Array<{ group: string; target: string }> => (value || '')
+  .split(',')
+  .map((entry) => entry.trim())
+  .filter((entry) => entry.includes(':'))
+  .map((entry) => {
+    const separator = entry.indexOf(':');
+    return { group: entry.substring(0, separator).trim(), target: entry.substring(separator + 1).trim() };
+  });
+
+/**
+ * Role of SSO users without a mapped group, from OIDC_DEFAULT_ROLE
+ */
+const getDefaultRole = (): UserRole => {
+  const role = process.env['OIDC_DEFAULT_ROLE'] as UserRole | undefined;
+  return role && USER_ROLES.includes(role) ? role : 'viewer';
+};
+
+/**
+ * Role for a set of IdP groups under OIDC_ROLE_MAPPING (e.g. `cost-admins:admin,finance:editor`)
+ * The highest matching role wins; returns undefined when no group matches a mapping
+ */
+export const mapGroupsToRole = (groups: string[]): UserRole | undefined => parseGroupMapping(process.env['OIDC_ROLE_MAPPING'])
+  .filter(({ group, target }) => groups.includes(group) && USER_ROLES.includes(target as UserRole))
+  .map(({ target }) => target as UserRole)
+  .reduce<UserRole | undefined>((highest, role) => (!highest || USER_ROLES.indexOf(role) > USER_ROLES.indexOf(highest) ? role : highest), undefined);
+
+/**
+ * Account access for a set of IdP groups under OIDC_ACCOUNT_MAPPING
+ * (e.g. `payments:123456789012:write,finance:210987654321`, access level defaults to read)
+ * An account reached through several groups gets the highest level
+ */
+export const mapGroupsToAccounts = (groups: string[]): Map<string, AccountAccessLevel> => {
+  const accounts = new Map<string, AccountAccessLevel>();
+  parseGroupMapping(process.env['OIDC_ACCOUNT_MAPPING'])
+    .filter(({ group }) => groups.includes(group))
+    .forEach(({ target }) => {
+      const [accountId, accessLevel = 'read'] = target.split(':').map((part) => part.trim());
+      if (accountId && (accessLevel === 'read' || accessLevel === 'write') && accounts.get(accountId) !== 'write') {
+        accounts.set(accountId, accessLevel);
+      }
+    });
+  return accounts;
+};
+
+/**
+ * Give a user access to an account, upgrading read access to write but never downgrading
+ */
+const grantMembership = async (
+  userId: number,
+  accountId: string,
+  accessLevel: AccountAccessLevel,
+  transaction: Transaction,
+): Promise<void> => {
+  const [membership, created] = await AccountMembership.findOrCreate({
+    where: { userId, accountId },
+    defaults: { userId, accountId, accessLevel },
+    transaction,
+  });
+  if (!created && membership.accessLevel === 'read' && accessLevel === 'write') {
+    await membership.update({ accessLevel }, { transaction });
+  }
+};
+
+/**
+ * Find, link or create the user for a verified OIDC identity, then apply the group mappings
+ * An existing account is linked by its email address, which the provider must have verified;
+ * the account must have verified it too, or whoever registered it could keep its password
+ * A matching role mapping replaces the user's role on every login, otherwise the role is kept;
+ * mapped account access is added or upgraded but never removed
+ */
+export const resolveOidcUser = async (identity: OidcIdentity, ipAddress: string | null): Promise<User> => {
+  if (!identity.email || !identity.emailVerified) {
+    throw new AuthorizationError('The identity provider did not confirm a verified email address');
+  }
+  const email = identity.email.toLowerCase();
+  const mappedRole = mapGroupsToRole(identity.groups);
+
+  return sequelize.transaction(async (transaction) => {
+    let user = await User.findOne({
+      where: { oidcIssuer: identity.issuer, oidcSubject: identity.subject },
+      transaction,
+    });
+
+    if (!user) {
+      user = await User.findOne({
+        where: sequelize.where(sequelize.fn('lower', sequelize.col('email')), email),
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (user) {
+        if (user.oidcSubject) {
+          throw new ConflictError('This email address is linked to another single sign-on identity');
+        }
+        if (!user.emailVerifiedAt) {
+          throw new ConflictError('An account with this email address exists but was never verified. Reset its password to verify it, then sign in again');
+        }
+        await user.update({ oidcIssuer: identity.issuer, oidcSubject: identity.subject }, { transaction });
+        await recordAuditEvent({
+          action: 'sso_account_linked',
+          userId: user.id,
+          actorId: user.id,
+          ipAddress,
+          details: { issuer: identity.issuer, subject: identity.subject },
+        }, transaction);
+      } else {
+        // SSO users get an unguessable password; they can still set one through a password reset
+        user = await User.create({
+          email,
+          password: crypto.randomBytes(32).toString('hex'),
+          role: mappedRole ?? getDefaultRole(),
+          emailVerifiedAt: new Date(),
+          oidcIssuer: identity.issuer,
+          oidcSubject: identity.subject,
+        }, { transaction });
+        await recordAuditEvent({
+          action: 'sso_user_provisioned',
+          userId: user.id,
+          ipAddress,
+          details: { issuer: identity.issuer, subject: identity.subject, role: user.role },
+        }, transaction);
+      }
+    }
+
+    if (mappedRole && mappedRole !== user.role) {
+      log.info('Single sign-on user role updated from identity provider', { userId: user.id, previousRole: user.role, role: mappedRole });
+      await user.update({ role: mappedRole }, { transaction });
+    }
+
+    // One membership at a time, since findOrCreate may use savepoints on the shared transaction
+    const memberships = Array.from(mapGroupsToAccounts(identity.groups));
+    for (let index = 0; index < memberships.length; index += 1) {
+      const [accountId, accessLevel] = memberships[index]!;
+      // eslint-disable-next-line no-await-in-loop -- sequential on purpose, see above
+      await grantMembership(user.id, accountId, accessLevel, transaction);
+    }
+
+    return user;
+  });
+};
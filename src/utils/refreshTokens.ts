@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import RefreshToken from '../models/RefreshToken';
+import Session from '../models/Session';
+import User from '../models/User';
+import { ActiveSession, RefreshTokenRevocationReason, SessionContext } from '../types';
+import { AuthenticationError } from './errors';
+import { generateTokens, TokenResponse, verifyRefreshToken } from './jwt';
+import { log } from './logger';
+
+/**
+ * Sign a token pair for a session and persist the refresh token under a new jti
+ * The session's expiry follows its latest refresh token
+ */
+const createTokens = async (
+  user: User,
+  session: Session,
+  transaction: Transaction,
+): Promise<{ jti: string; tokens: TokenResponse }> => {
+  const jti = crypto.randomUUID();
+  const { refreshTokenExpiresAt, ...tokens } = generateTokens(user.id, user.email, user.role, session.id, jti);
+
+  await RefreshToken.create({
+    jti,
+    userId: user.id,
+    sessionId: session.id,
+    expiresAt: refreshTokenExpiresAt,
+  }, { transaction });
+  await session.update({ expiresAt: refreshTokenExpiresAt }, { transaction });
+
+  return { jti, tokens };
+};
+
+/**
+ * Start a login session and issue its first access and refresh token pair
+ */
+export const issueTokens = async (user: User, context: SessionContext): Promise<TokenResponse> => sequelize.transaction(async (transaction) => {
+  const now = new Date();
+  const session = await Session.create({
+    id: crypto.randomUUID(),
+    userId: user.id,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent?.substring(0, 512) ?? null,
+    lastUsedAt: now,
+    expiresAt: now,
+  }, { transaction });
+
+  const { tokens } = await createTokens(user, session, transaction);
+  return tokens;
+});
+
+/**
+ * Revoke a login session and every active refresh token of it
+ * Returns whether an active session was revoked
+ */
+export const revokeSession = async (
+  userId: number,
+  sessionId: string,
+  reason: RefreshTokenRevocationReason,
+  transaction: Transaction | null = null,
+): Promise<boolean> => {
+  const now = new Date();
+  const [revoked] = await Session.update(
+    { revokedAt: now },
+    { where: { id: sessionId, userId, revokedAt: null }, transaction },
+  );
+  await RefreshToken.update(
+    { revokedAt: now, revokedReason: reason },
+    { where: { userId, sessionId, revokedAt: null }, transaction },
+  );
+  return revoked > 0;
+};
+
+/**
+ * Revoke every session of a user and their refresh tokens
+ * Returns the number of sessions that were still active
+ */
+export const revokeAllSessions = async (userId: number, reason: RefreshTokenRevocationReason): Promise<number> => sequelize.transaction(async (transaction) => {
+  const now = new Date();
+  const activeSessions = await Session.count({
+    where: { userId, revokedAt: null, expiresAt: { [Op.gt]: now } },
+    transaction,
+  });
+
+  await Session.update(
+    { revokedAt: now },
+    { where: { userId, revokedAt: null }, transaction },
+  );
+  await RefreshToken.update(
+    { revokedAt: now, revokedReason: reason },
+    { where: { userId, revokedAt: null }, transaction },
+  );
+  return activeSessions;
+});
+
+/**
+ * Exchange a refresh token for a new token pair in the same session
+ * The presented token is revoked; presenting an already rotated token again means it
+ * was stolen or replayed, so the whole session is revoked
+ * Throws AuthenticationError for invalid, expired, revoked or reused tokens
+ */
+export const rotateRefreshToken = async (token: string, context: SessionContext): Promise<{ user: User; tokens: TokenResponse }> => {
+  let decoded;
+  try {
+    decoded = verifyRefreshToken(token);
+  } catch {
+    throw new AuthenticationError('Invalid refresh token');
+  }
+  const { jti } = decoded;
+  if (!jti) {
+    throw new AuthenticationError('Invalid refresh token');
+  }
+
+  const result = await sequelize.transaction(async (transaction) => {
+    // Lock the token so concurrent refreshes with the same token are serialized
+    const stored = await RefreshToken.findOne({ where: { jti }, transaction, lock: transaction.LOCK.UPDATE });
+    if (!stored || stored.userId !== decoded.userId) {
+      return { error: 'Invalid refresh token' } as const;
+    }
+
+    if (stored.revokedAt) {
+      if (stored.revokedReason === 'rotated') {
+        await revokeSession(stored.userId, stored.sessionId, 'reuse_detected', transaction);
+        log.warn('Refresh token reuse detected, session revoked', {
+          userId: stored.userId,
+          sessionId: stored.sessionId,
+        });
+      }
+      return { error: 'Refresh token has been revoked' } as const;
+    }
+
+    const [user, session] = await Promise.all([
+      User.findByPk(stored.userId, { transaction }),
+      Session.findByPk(stored.sessionId, { transaction }),
+    ]);
+    if (!user || !session || session.revokedAt) {
+      return { error: 'Invalid refresh token' } as const;
+    }
+
+    await session.update({
+      lastUsedAt: new Date(),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent?.substring(0, 512) ?? null,
+    }, { transaction });
+    const { jti: replacedBy, tokens } = await createTokens(user, session, transaction);
+    await stored.update({ revokedAt: new Date(), revokedReason: 'rotated', replacedBy }, { transaction });
+
+    return { user, tokens };
+  });
+
+  // Thrown after the transaction so a reuse revocation is committed
+  if ('error' in result) {
+    throw new AuthenticationError(result.error);
+  }
+  return result;
+};
+
+/**
+ * Whether a session of the user exists and has been neither revoked nor expired
+ */
+export const isSessionActive = async (userId: number, sessionId: string): Promise<boolean> => {
+  const session = await Session.findOne({
+    where: {
+      id: sessionId,
+      userId,
+      revokedAt: null,
+      expiresAt: { [Op.gt]: new Date() },
+    },
+    attributes: ['id'],
+  });
+  return session !== null;
+};
+
+/**
+ * A user's active sessions, most recently used first
+ */
+export const listActiveSessions = async (userId: number, currentSessionId?: string): Promise<ActiveSession[]> => {
+  const sessions = await Session.findAll({
+    where: { userId, revokedAt: null, expiresAt: { [Op.gt]: new Date() } },
+    order: [['lastUsedAt', 'DESC']],
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    current: session.id === currentSessionId,
+  }));
+};
@@ -0,0 +1,120 @@
+import SavedView from '../models/SavedView';
+import {
+  CloudProvider,
+  CLOUD_PROVIDERS,
+  FilterQuery,
+  RelativeDateRange,
+  SavedViewFilters,
+} from '../types';
+import { getPeriodBounds } from './budgetStatus';
+import { isValidTagKey } from './costTags';
+import { isCurrencyCode } from './exchangeRates';
+import { addDays, parseDateString, toDateString } from './dates';
+
+const MULTI_VALUE_FILTERS = ['provider', 'serviceName', 'region', 'accountId'] as const;
+
+const SAVED_VIEW_FILTER_FIELDS: Array<keyof SavedViewFilters> = [...MULTI_VALUE_FILTERS, 'tag', 'currency'];
+
+const isFilterValue = (value: unknown): value is string | string[] => (typeof value === 'string' && value !== '')
+  || (Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === 'string' && item !== ''));
+
+/**
+ * Resolve a relative date range to inclusive start and end dates as of `asOf` (UTC)
+ * "last N days" ranges include today; "to date" ranges run from the start of the period through today
+ */
+export const resolveDateRange = (range: RelativeDateRange, asOf: Date = new Date()): { startDate: string; endDate: string } => {
+  const today = parseDateString(toDateString(asOf));
+  const toRange = (start: Date, end: Date) => ({ startDate: toDateString(start), endDate: toDateString(end) });
+
+  switch (range) {
+    case 'today':
+      return toRange(today, today);
+    case 'yesterday':
+      return toRange(addDays(today, -1), addDays(today, -1));
+    case 'last_7_days':
+      return toRange(addDays(today, -6), today);
+    case 'last_30_days':
+      return toRange(addDays(today, -29), today);
+    case 'last_90_days':
+      return toRange(addDays(today, -89), today);
+    case 'month_to_date':
+      return toRange(getPeriodBounds('monthly', today).start, today);
+    case 'previous_month': {
+      const previous = getPeriodBounds('monthly', addDays(getPeriodBounds('monthly', today).start, -1));
+      return toRange(previous.start, previous.end);
+    }
+    case 'quarter_to_date':
+      return toRange(getPeriodBounds('quarterly', today).start, today);
+    case 'previous_quarter': {
+      const previous = getPeriodBounds('quarterly', addDays(getPeriodBounds('quarterly', today).start, -1));
+      return toRange(previous.start, previous.end);
+    }
+    default: // year_to_date
+      return toRange(getPeriodBounds('yearly', today).start, today);
+  }
+};
+
+/**
+ * Check the filters of a saved view, returning one error per invalid field
+ * Only the cost filter parameters are accepted; pagination and dates live elsewhere on the view
+ */
+export const validateSavedViewFilters = (filters: unknown): Array<{ field: string; message: string }> => {
+  if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+    return [{ field: 'filters', message: 'Filters must be an object' }];
+  }
+
+  const errors: Array<{ field: string; message: string }> = [];
+  const values = filters as Record<string, unknown>;
+
+  Object.keys(values).forEach((key) => {
+    if (!SAVED_VIEW_FILTER_FIELDS.includes(key as keyof SavedViewFilters)) {
+      errors.push({ field: `filters.${key}`, message: `Unknown filter; expected one of: ${SAVED_VIEW_FILTER_FIELDS.join(', ')}` });
+    }
+  });
+
+  MULTI_VALUE_FILTERS.forEach((field) => {
+    const value = values[field];
+    if (value !== undefined && !isFilterValue(value)) {
+      errors.push({ field: `filters.${field}`, message: `${field} must be a string or a list of strings` });
+    }
+  });
+
+  const { provider, tag, currency } = values;
+  if (isFilterValue(provider) && [provider].flat().some((item) => !CLOUD_PROVIDERS.includes(item as CloudProvider))) {
+    errors.push({ field: 'filters.provider', message: `provider must be one of: ${CLOUD_PROVIDERS.join(', ')}` });
+  }
+
+  if (tag !== undefined) {
+    const validTags = typeof tag === 'object' && tag !== null && !Array.isArray(tag)
+      && Object.entries(tag).every(([key, value]) => isValidTagKey(key) && isFilterValue(value));
+    if (!validTags) {
+      errors.push({ field: 'filters.tag', message: 'tag must map tag keys to a value or a list of values' });
+    }
+  }
+
+  if (currency !== undefined && !isCurrencyCode(currency)) {
+    errors.push({ field: 'filters.currency', message: 'currency must be a three-letter ISO 4217 code' });
+  }
+
+  return errors;
+};
+
+/**
+ * Turn a saved view into cost query parameters, resolving a relative date range as of `asOf`
+ */
+export const resolveSavedViewQuery = (view: SavedView, asOf: Date = new Date()): FilterQuery => {
+  const query: FilterQuery = { ...view.filters };
+
+  if (view.dateRange) {
+    Object.assign(query, resolveDateRange(view.dateRange, asOf));
+  } else {
+    if (view.startDate) {
+      query.startDate = view.startDate;
+    }
+    if (view.endDate) {
+      query.endDate = view.endDate;
+    }
+  }
+
+  return query;
+};
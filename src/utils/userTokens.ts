@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import { Op } from 'sequelize';
+import sequelize from '../config/database';
+import UserToken from '../models/UserToken';
+import { UserTokenPurpose } from '../types';
+import { ValidationError } from './errors';
+
+/**
+ * How long an emailed token can be used
+ */
+const USER_TOKEN_TTL_MS: Record<UserTokenPurpose, number> = {
+  email_verification: 24 * 60 * 60 * 1000,
+  password_reset: 60 * 60 * 1000,
+};
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Create a token for a user and return it; only its hash is stored
+ * Earlier unused tokens of the same purpose stop working
+ */
+export const createUserToken = async (userId: number, purpose: UserTokenPurpose): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await sequelize.transaction(async (transaction) => {
+    await UserToken.update(
+      { usedAt: now },
+      { where: { userId, purpose, usedAt: null }, transaction },
+    );
+    await UserToken.create({
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(now.getTime() + USER_TOKEN_TTL_MS[purpose]),
+    }, { transaction });
+  });
+
+  return token;
+};
+
+/**
+ * Mark a token as used and return the id of the user it was issued to
+ * Throws ValidationError when the token is unknown, expired, already used or for another purpose
+ */
+export const consumeUserToken = async (token: string, purpose: UserTokenPurpose): Promise<number> => {
+  const [, consumed] = await UserToken.update(
+    { usedAt: new Date() },
+    {
+      where: {
+        tokenHash: hashToken(token),
+        purpose,
+        usedAt: null,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+      returning: true,
+    },
+  );
+
+  const [userToken] = consumed;
+  if (!userToken) {
+    throw new ValidationError('Invalid or expired token');
+  }
+  return userToken.userId;
+};